@@ -0,0 +1,100 @@
+import chalk from 'chalk';
+
+import { PageCache, type PageCacheEntry } from '../services/page-cache';
+import type { IndexerArgs } from '../utils/args';
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+/**
+ * Prints a summary of the page cache, or the details of one cached page when a URL is given.
+ */
+async function inspectCache(cache: PageCache, args: IndexerArgs, url?: string): Promise<void> {
+  const entries = await cache.list();
+
+  if (url) {
+    const page = await cache.get(url);
+    const entry = entries.find((candidate) => candidate.url === url);
+    if (!page || !entry) {
+      throw new Error(`${url} is not in the page cache`);
+    }
+
+    const details = {
+      url,
+      file: entry.file,
+      bodyFile: entry.bodyFile,
+      size: entry.size,
+      etag: page.etag,
+      lastModified: page.lastModified,
+      headers: page.headers,
+      fetchedAt: page.fetchedAt,
+      usedAt: entry.usedAt,
+    };
+    if (args.reportFormat === 'json') {
+      console.log(JSON.stringify(details, null, 2));
+      return;
+    }
+
+    console.log(`\n${chalk.bold('Cached page')}: ${url}`);
+    console.log(`Files: ${entry.file}, ${entry.bodyFile} (${formatSize(entry.size)})`);
+    console.log(`ETag: ${page.etag || '-'}`);
+    console.log(`Last-Modified: ${page.lastModified || '-'}`);
+    console.log(`Downloaded: ${page.fetchedAt}`);
+    console.log(`Last used: ${entry.usedAt}`);
+    return;
+  }
+
+  const size = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const byValidator = (validator: PageCacheEntry['validator']): number =>
+    entries.filter((entry) => entry.validator === validator).length;
+
+  if (args.reportFormat === 'json') {
+    console.log(JSON.stringify({ dir: args.cacheDir, count: entries.length, size, entries }, null, 2));
+    return;
+  }
+
+  console.log(`\n${chalk.bold('Page cache')}: ${args.cacheDir}`);
+  console.log(`Entries: ${chalk.cyan(entries.length)} (${formatSize(size)})`);
+  if (entries.length === 0) {
+    return;
+  }
+
+  console.log(`Validators: ${byValidator('etag')} ETag, ${byValidator('last-modified')} Last-Modified only`);
+  console.log(`Most recently used: ${entries[0].usedAt}`);
+  console.log(`Least recently used: ${entries[entries.length - 1].usedAt}`);
+
+  if (args.verbose) {
+    console.log();
+    for (const entry of entries) {
+      console.log(`  • ${entry.url} (${formatSize(entry.size)}, used ${entry.usedAt})`);
+    }
+  }
+}
+
+/**
+ * Runs a `cache` maintenance command:
+ *
+ * - `cache inspect [url]` summarizes the page cache, or shows the cache entry of one page
+ * - `cache prune` removes entries unused for more than `--older-than` days (30 by default)
+ *
+ * @param action - The cache command to run
+ * @param args - The parsed command line arguments
+ */
+export async function runCacheCommand(action: string | undefined, args: IndexerArgs): Promise<void> {
+  const cache = new PageCache(args.cacheDir, args.verbose);
+
+  switch (action) {
+    case 'inspect':
+      await inspectCache(cache, args, args.command[2]);
+      break;
+    case 'prune': {
+      const { removed, bytes } = await cache.prune(args.cacheMaxAge);
+      console.log(
+        `Removed ${chalk.cyan(removed)} cache entries unused for more than ${args.cacheMaxAge} days (${formatSize(bytes)}) from ${args.cacheDir}`
+      );
+      break;
+    }
+    default:
+      throw new Error(`Unknown cache command "${action ?? ''}", expected "cache inspect [url]" or "cache prune"`);
+  }
+}
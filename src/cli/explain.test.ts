@@ -0,0 +1,162 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import type { Config } from '../types/index';
+import { parseArgs } from '../utils/args';
+
+import { runExplainCommand } from './explain';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+const PARAGRAPH =
+  'The Photoshop API lets you automate edits to PSD files in the cloud, from applying presets to replacing smart objects.';
+
+const page = (title: string, head = ''): string => `<html>
+  <head><title>${title}</title>${head}</head>
+  <body><main><h1>${title}</h1><p>${PARAGRAPH}</p></main></body>
+</html>`;
+
+const baseUrl = 'https://developer.adobe.com';
+const dir = await mkdtemp(join(tmpdir(), 'explain-test-'));
+const contentDir = join(dir, 'pages');
+
+const appConfig: Config = {
+  sitemap: { url: `${baseUrl}/sitemap.xml` },
+  algolia: { appId: 'test', apiKey: 'test' },
+  app: {
+    logLevel: 'info',
+    batchSize: 50,
+    maxConcurrentRequests: 1,
+    mode: 'console',
+    verbose: false,
+    indexPrefix: 'dev_',
+    partial: false,
+    productMappingUrl: JSON.stringify([
+      {
+        productName: 'Photoshop',
+        productIndices: [
+          { indexName: 'photoshop', indexPathPrefix: '/ps' },
+          { indexName: 'photoshop-api', indexPathPrefix: '/ps/api' },
+        ],
+      },
+    ]),
+  },
+};
+
+/**
+ * Runs `explain <url>` with the given options and returns the JSON report it printed.
+ */
+const explain = async (url: string, ...options: string[]): Promise<Record<string, unknown>> => {
+  const argv = process.argv;
+  const log = console.log;
+  const output: string[] = [];
+  process.argv = [
+    argv[0],
+    'index.ts',
+    'explain',
+    url,
+    '--content-dir',
+    contentDir,
+    '--report-format',
+    'json',
+    ...options,
+  ];
+  console.log = (...args: unknown[]) => output.push(args.join(' '));
+  try {
+    const args = parseArgs();
+    await runExplainCommand(args.command[1], args, appConfig);
+  } finally {
+    console.log = log;
+    process.argv = argv;
+  }
+  return JSON.parse(output.join('\n')) as Record<string, unknown>;
+};
+
+try {
+  await mkdir(join(contentDir, 'ps', 'api'), { recursive: true });
+  await mkdir(join(contentDir, 'old'), { recursive: true });
+  await mkdir(join(contentDir, 'express'), { recursive: true });
+  await writeFile(join(contentDir, 'ps', 'api', 'actions.html'), page('Actions'));
+  await writeFile(
+    join(contentDir, 'old', 'guide.html'),
+    page('Guide', `<link rel="canonical" href="${baseUrl}/ps/guide">`)
+  );
+  await writeFile(join(contentDir, 'ps', 'hidden.html'), page('Hidden', '<meta name="robots" content="noindex">'));
+  await writeFile(join(contentDir, 'express', 'guide.html'), page('Express'));
+
+  // Simple tests for the explain command
+  console.log('Testing runExplainCommand:');
+
+  const names = (matches: unknown): string =>
+    JSON.stringify((matches as { indexName: string }[]).map(({ indexName }) => indexName));
+  type Chosen = { algoliaIndex: string; rule: string } | null;
+
+  const actions = await explain(`${baseUrl}/ps/api/actions/`);
+  const actionsChoice = actions['chosen'] as Chosen;
+  check(
+    actions['path'] === '/ps/api/actions' && names(actions['candidates']) === '["photoshop-api","photoshop"]',
+    `Every matching rule is listed, most specific first → ${names(actions['candidates'])}`
+  );
+  check(
+    actionsChoice?.algoliaIndex === 'dev_photoshop-api' && actionsChoice.rule === 'prefix /ps/api',
+    `The chosen index is named as it is in Algolia → ${actionsChoice?.algoliaIndex}`
+  );
+  check(
+    JSON.stringify((actions['records'] as { title: string }[]).map(({ title }) => title)) === '["Actions"]' &&
+      actions['reason'] === null,
+    'The records the page would get are listed'
+  );
+
+  const filtered = await explain(`${baseUrl}/ps/api/actions`, '--index-filter', 'photoshop');
+  check(
+    names(filtered['filteredOut']) === '["photoshop-api"]' &&
+      (filtered['chosen'] as Chosen)?.algoliaIndex === 'dev_photoshop',
+    `Rules of indices outside the index filter are set apart → ${names(filtered['filteredOut'])}`
+  );
+
+  const alias = await explain(`${baseUrl}/old/guide`);
+  check(
+    alias['canonicalUrl'] === `${baseUrl}/ps/guide` &&
+      alias['mappedPath'] === '/ps/guide' &&
+      (alias['chosen'] as Chosen)?.algoliaIndex === 'dev_photoshop',
+    `Pages are mapped by their canonical URL → ${String(alias['mappedPath'])}`
+  );
+
+  const cases = [
+    { name: 'Excluded pages', url: `${baseUrl}/ps/drafts/guide`, expected: 'excluded by rule' },
+    { name: 'Pages that opt out of search', url: `${baseUrl}/ps/hidden`, expected: 'opts out of search' },
+    { name: 'Missing pages', url: `${baseUrl}/ps/missing`, expected: 'Page not found' },
+    { name: 'Unmapped pages', url: `${baseUrl}/express/guide`, expected: 'no product index rule matches' },
+  ];
+  for (const test of cases) {
+    const { reason, records } = await explain(test.url);
+    check(
+      String(reason).includes(test.expected) && (records as unknown[]).length === 0,
+      `${test.name} get no records → ${String(reason)}`
+    );
+  }
+
+  const invalid: [string | undefined, string][] = [
+    [undefined, 'Missing URL'],
+    ['photoshop/guide', 'Invalid URL'],
+  ];
+  for (const [url, expected] of invalid) {
+    let error = '';
+    try {
+      await runExplainCommand(url, parseArgs(), appConfig);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    check(error.startsWith(expected), `${JSON.stringify(url)} is rejected → ${error}`);
+  }
+} finally {
+  await rm(dir, { recursive: true, force: true });
+}
+
+console.log('\nDone!');
@@ -0,0 +1,271 @@
+import chalk from 'chalk';
+
+import { AlgoliaService } from '../services/algolia';
+import { loadCleaningRules } from '../services/cleaning';
+import { fetchPageContent, shouldSegmentContent } from '../services/content';
+import { loadExclusionRules } from '../services/exclusions';
+import { getPageObjectId } from '../services/indexer';
+import { PageCache } from '../services/page-cache';
+import { ProductMappingService, type RuleMatch } from '../services/product-mapping';
+import type { Config } from '../types/index';
+import type { IndexerArgs } from '../utils/args';
+import { detectLanguage } from '../utils/locale';
+import { getPageUrl } from '../utils/url';
+
+/**
+ * A record the indexer would create for the explained page.
+ */
+interface ExplainedRecord {
+  objectID: string;
+  type: string;
+  title: string;
+  fragment?: string;
+}
+
+/**
+ * Everything the indexer decides about one URL, in the order it decides it.
+ */
+interface UrlExplanation {
+  url: string;
+  /** The path the exclusion rules are matched against, without fragment or trailing slash */
+  path: string;
+  /** The global exclusion rule that skips the page, if any */
+  exclusionRule: string | null;
+  /** The indices --index-filter restricts indexing to, or null if all indices are active */
+  indexFilter: string[] | null;
+  /** The URL the page was read from, which uses the base URL's origin when one is configured */
+  fetchedUrl: string | null;
+  /** The canonical URL of the page when it differs from the fetched URL; mapping and records use it */
+  canonicalUrl: string | null;
+  /** The path the product index rules are matched against */
+  mappedPath: string;
+  /** The matching rules, best first */
+  candidates: RuleMatch[];
+  /** Rules that would match but whose exclude patterns leave the path out */
+  excludedBy: RuleMatch[];
+  /** Rules that would match but belong to indices outside the index filter */
+  filteredOut: RuleMatch[];
+  /** The index and product the page goes to, or null if it isn't indexed */
+  chosen: { indexName: string; productName: string; algoliaIndex: string; rule: string } | null;
+  language: string | null;
+  segmented: boolean | null;
+  /** The records createRecord (or the page record of an unsegmented page) would produce */
+  records: ExplainedRecord[];
+  /** Why the page produced no records, when it didn't */
+  reason: string | null;
+}
+
+const describeRule = (match: RuleMatch): string =>
+  `${match.rule} → ${match.indexName} (${match.productName}), ${match.segments} ` +
+  `segment${match.segments === 1 ? '' : 's'}${match.priority !== 0 ? `, priority ${match.priority}` : ''}`;
+
+/**
+ * Prints an explanation of how a URL is indexed.
+ */
+function printExplanation(explanation: UrlExplanation): void {
+  console.log(`\n${chalk.bold('Explain')}: ${explanation.url}`);
+  console.log(`Path: ${chalk.cyan(explanation.path)}`);
+  console.log(
+    `Exclusion rule: ${explanation.exclusionRule ? chalk.yellow(explanation.exclusionRule) : chalk.gray('none')}`
+  );
+  console.log(`Index filter: ${explanation.indexFilter ? explanation.indexFilter.join(', ') : chalk.gray('none')}`);
+
+  if (explanation.fetchedUrl && explanation.fetchedUrl !== explanation.url) {
+    console.log(`Fetched from: ${explanation.fetchedUrl}`);
+  }
+  if (explanation.canonicalUrl) {
+    console.log(`Canonical URL: ${explanation.canonicalUrl} (rules are matched against ${explanation.mappedPath})`);
+  }
+
+  if (!explanation.exclusionRule) {
+    console.log(`\n${chalk.bold('Candidate rules')} (best first):`);
+    if (explanation.candidates.length === 0) {
+      console.log(chalk.gray('  none'));
+    }
+    explanation.candidates.forEach((match, index) => {
+      const line = `  ${index + 1}. ${describeRule(match)}`;
+      console.log(index === 0 ? chalk.green(`${line}  ← chosen`) : line);
+    });
+    explanation.excludedBy.forEach((match) => console.log(chalk.yellow(`  ✗ ${describeRule(match)}`)));
+    explanation.filteredOut.forEach((match) =>
+      console.log(chalk.gray(`  - ${describeRule(match)} (not in index filter)`))
+    );
+  }
+
+  if (explanation.chosen) {
+    const { indexName, productName, algoliaIndex } = explanation.chosen;
+    console.log(
+      `\nIndex: ${chalk.cyan(algoliaIndex)}${algoliaIndex !== indexName ? ` (mapped to ${indexName})` : ''}, ` +
+        `product ${chalk.cyan(productName)}`
+    );
+  }
+  if (explanation.language) {
+    console.log(`Language: ${explanation.language}`);
+  }
+  if (explanation.segmented !== null) {
+    console.log(`Segmented: ${explanation.segmented ? 'yes' : 'no'}`);
+  }
+
+  if (explanation.reason) {
+    console.log(`\n${chalk.yellow('No records')}: ${explanation.reason}`);
+    return;
+  }
+
+  console.log(`\n${chalk.bold('Records')} (${explanation.records.length}):`);
+  explanation.records.forEach((record) =>
+    console.log(`  ${record.objectID}  ${chalk.gray(record.type)}  ${record.fragment || record.title}`)
+  );
+}
+
+/**
+ * Runs the `explain <url>` command: shows the normalized path of a URL, the exclusion rule that skips it, every
+ * product index rule that matches it with its specificity, the index and product it goes to, the index filter in
+ * effect, and the objectIDs of the records indexing it would create. The page is fetched the way a run fetches
+ * it, so the cache, cleaning rules, local snapshot and Markdown sources apply.
+ *
+ * @param url - The URL to explain
+ * @param args - The parsed command line arguments
+ * @param appConfig - The application configuration, for the product mapping and Algolia settings
+ */
+export async function runExplainCommand(url: string | undefined, args: IndexerArgs, appConfig: Config): Promise<void> {
+  if (!url) {
+    throw new Error('Missing URL, expected "explain <url>"');
+  }
+
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL "${url}"`);
+  }
+
+  const exclusions = args.exclusionRules ? await loadExclusionRules(args.exclusionRules) : undefined;
+  const productMapping = new ProductMappingService(args.verbose, exclusions);
+  await productMapping.initialize(appConfig.app.productMappingUrl);
+  if (args.indexFilter) {
+    productMapping.filterIndices(args.indexFilter.split(',').map((i) => i.trim()));
+  }
+
+  const path = urlObj.pathname.replace(/\/$/, '') || '/';
+  const explanation: UrlExplanation = {
+    url,
+    path,
+    exclusionRule: productMapping.getExclusionRule(path) ?? null,
+    indexFilter: productMapping.getActiveIndices(),
+    fetchedUrl: null,
+    canonicalUrl: null,
+    mappedPath: path,
+    candidates: [],
+    excludedBy: [],
+    filteredOut: [],
+    chosen: null,
+    language: null,
+    segmented: null,
+    records: [],
+    reason: null,
+  };
+
+  const report = (): void => {
+    if (args.reportFormat === 'json') {
+      console.log(JSON.stringify(explanation, null, 2));
+    } else {
+      printExplanation(explanation);
+    }
+  };
+
+  // Excluded URLs are dropped from the sitemap before any page is fetched
+  if (explanation.exclusionRule) {
+    explanation.reason = `excluded by rule ${explanation.exclusionRule}`;
+    report();
+    return;
+  }
+
+  // Like the indexer, read the page from the base URL and map it by its canonical URL
+  const fetchedUrl = args.baseUrl ? new URL(urlObj.pathname, args.baseUrl).toString() : url;
+  explanation.fetchedUrl = fetchedUrl;
+  const cache = args.cache && !args.contentDir ? new PageCache(args.cacheDir, args.verbose) : undefined;
+  const cleaning = args.cleaningRules ? await loadCleaningRules(args.cleaningRules) : undefined;
+
+  let content: Awaited<ReturnType<typeof fetchPageContent>> | undefined;
+  try {
+    content = await fetchPageContent(fetchedUrl, {
+      contentDir: args.contentDir,
+      markdownRoot: args.markdownRoot,
+      cache,
+      cleaning,
+    });
+  } catch (error) {
+    if (error && typeof error === 'object' && 'type' in error && (error as { type: string }).type === 'skip') {
+      const { reason, message } = error as { reason?: string; message?: string };
+      explanation.reason = reason === 'noindex' ? 'the page opts out of search (noindex)' : message || 'page skipped';
+    } else {
+      explanation.reason = `the page could not be read: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  const canonicalUrl = content ? getPageUrl({ url: fetchedUrl, canonicalUrl: content.canonicalUrl }) : undefined;
+  if (canonicalUrl && new URL(canonicalUrl).pathname !== new URL(fetchedUrl).pathname) {
+    explanation.canonicalUrl = canonicalUrl;
+    explanation.mappedPath = new URL(canonicalUrl).pathname.replace(/\/$/, '') || '/';
+  }
+
+  const { matches, excluded, inactive } = productMapping.evaluateRules(explanation.mappedPath);
+  explanation.candidates = matches;
+  explanation.excludedBy = excluded;
+  explanation.filteredOut = inactive;
+
+  // getIndexForUrl also applies the exclusion rules to the canonical path
+  const canonicalExclusion = productMapping.getExclusionRule(explanation.mappedPath);
+  const best = canonicalExclusion ? undefined : matches[0];
+  const algolia = new AlgoliaService(
+    {
+      appId: appConfig.algolia.appId,
+      apiKey: appConfig.algolia.apiKey,
+      indexPrefix: appConfig.app.indexPrefix,
+      localeIndices: args.localeIndices,
+      tableRowRecords: args.tableRows,
+    },
+    productMapping
+  );
+  const choose = (indexName: string): UrlExplanation['chosen'] =>
+    best
+      ? {
+          indexName: best.indexName,
+          productName: best.productName,
+          algoliaIndex: `${appConfig.app.indexPrefix || ''}${indexName}`,
+          rule: best.rule,
+        }
+      : null;
+
+  if (!content || !best) {
+    explanation.chosen = best ? choose(best.indexName) : null;
+    explanation.reason ??= canonicalExclusion
+      ? `the canonical URL is excluded by rule ${canonicalExclusion}`
+      : 'no product index rule matches the path';
+    report();
+    return;
+  }
+
+  content.url = fetchedUrl;
+  content.language = detectLanguage(url, undefined, content.language);
+  explanation.chosen = choose(algolia.getLocaleIndexName(best.indexName, content.language));
+  explanation.language = content.language;
+  explanation.segmented = shouldSegmentContent(content);
+
+  const records: ExplainedRecord[] = explanation.segmented
+    ? algolia.createRecord(content)
+    : [
+        {
+          objectID: getPageObjectId(content),
+          type: content.metadata?.['type'] || 'documentation',
+          title: content.title || content.headings[0] || '',
+        },
+        ...algolia.createStructuredRecords(content),
+      ];
+  explanation.records = records.map(({ objectID, type, title, fragment }) => ({ objectID, type, title, fragment }));
+  if (records.length === 0) {
+    explanation.reason = 'the page has no content to index';
+  }
+
+  report();
+}
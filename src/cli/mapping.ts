@@ -0,0 +1,67 @@
+import { loadExclusionRules } from '../services/exclusions';
+import { lintProductMapping, printMappingLintReport } from '../services/mapping-lint';
+import { ProductMappingService } from '../services/product-mapping';
+import { loadRobotsTxt } from '../services/robots';
+import { fetchSitemap } from '../services/sitemap';
+import { loadSitemapSources } from '../services/sitemap-sources';
+import type { SitemapUrl } from '../types/index';
+import type { IndexerArgs } from '../utils/args';
+
+/**
+ * Finds the sitemaps a run would read: the configured sitemap, the sitemaps of the sitemap sources, or the
+ * ones robots.txt lists.
+ */
+async function getSitemapUrls(args: IndexerArgs): Promise<string[]> {
+  if (args.sources) {
+    return (await loadSitemapSources(args.sources)).flatMap((source) => source.sitemapUrls);
+  }
+  if (args.sitemapUrl) {
+    return [args.sitemapUrl];
+  }
+  if (!args.baseUrl || args.ignoreRobots) {
+    return [];
+  }
+
+  const robots = await loadRobotsTxt(new URL('/robots.txt', args.baseUrl).toString(), args.robotsUserAgent);
+  return robots.sitemaps;
+}
+
+/**
+ * Runs a `mapping` maintenance command:
+ *
+ * - `mapping lint` checks the product mapping for duplicate index names, prefixes that never match or overlap,
+ *   and prefixes no sitemap URL is under. The run fails when errors are found.
+ *
+ * @param action - The mapping command to run
+ * @param args - The parsed command line arguments
+ * @param mappingUrl - The URL or local path of the product mapping
+ */
+export async function runMappingCommand(
+  action: string | undefined,
+  args: IndexerArgs,
+  mappingUrl: string
+): Promise<void> {
+  if (action !== 'lint') {
+    throw new Error(`Unknown mapping command "${action ?? ''}", expected "mapping lint"`);
+  }
+
+  const exclusions = args.exclusionRules ? await loadExclusionRules(args.exclusionRules) : undefined;
+  const productMapping = new ProductMappingService(args.verbose, exclusions);
+  await productMapping.initialize(mappingUrl);
+
+  const sitemapUrls = await getSitemapUrls(args);
+  const urls: SitemapUrl[] | undefined =
+    sitemapUrls.length > 0 ? await fetchSitemap(sitemapUrls, args.verbose) : undefined;
+
+  const report = lintProductMapping(productMapping, urls);
+  if (args.reportFormat === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Product mapping: ${mappingUrl}`);
+    printMappingLintReport(report, args.verbose);
+  }
+
+  if (report.counts.error > 0) {
+    process.exitCode = 1;
+  }
+}
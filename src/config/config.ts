@@ -35,7 +35,9 @@ try {
 
 const configSchema = z
   .object({
-    SITEMAP_URL: z.string().url(),
+    // Either an HTTP(S) URL or a local sitemap (`file://` URL or filesystem path).
+    // When unset, sitemaps are discovered from the site's robots.txt
+    SITEMAP_URL: z.string().min(1).optional(),
     BASE_URL: z.string().url(),
     ALGOLIA_APP_ID: z.string(),
     ALGOLIA_API_KEY: z.string(),
@@ -45,6 +47,22 @@ const configSchema = z
     MODE: z.enum(['index', 'export', 'console']).default('console'),
     INDEX: z.string().optional(),
     INDEX_PREFIX: z.string().optional(),
+    CONTENT_DIR: z.string().optional(),
+    // Directory of docs repository checkouts; pages are read from the Markdown their githubblobpath names
+    MARKDOWN_ROOT: z.string().optional(),
+    ROBOTS_USER_AGENT: z.string().optional(),
+    SNAPSHOT_DIR: z.string().optional(),
+    LOCALE_INDICES: z.string().optional(),
+    TABLE_ROW_RECORDS: z.string().optional(),
+    // Set to false to fetch every page in full instead of revalidating the on-disk page cache
+    PAGE_CACHE: z.string().optional(),
+    PAGE_CACHE_DIR: z.string().optional(),
+    // Selectors removed from (or kept in) pages before extraction, as inline JSON or the URL or path of a JSON file
+    CLEANING_RULES: z.string().optional(),
+    // Paths never indexed (globally or per index), as inline JSON or the URL or path of a JSON file
+    EXCLUSION_RULES: z.string().optional(),
+    // Sitemap sources as inline JSON or the URL or path of a JSON file
+    SITEMAP_SOURCES: z.string().optional(),
     PARTIAL: z.coerce.boolean().default(true),
     PRODUCT_MAPPING_URL: z
       .string()
@@ -1,10 +1,33 @@
+import { writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+import { runCacheCommand } from './cli/cache';
+import { runExplainCommand } from './cli/explain';
+import { runMappingCommand } from './cli/mapping';
 import { config } from './config/config';
 import { AlgoliaService } from './services/algolia';
+import { loadCleaningRules } from './services/cleaning';
+import { auditContent, printAuditReport } from './services/content-audit';
+import { buildMappingPatch, mergeCoverageReports, type CoverageReport } from './services/coverage';
+import { crawlSite, getCrawlSeeds, printCrawlReport } from './services/crawler';
+import { loadExclusionRules } from './services/exclusions';
 import { ContentIndexer } from './services/indexer';
+import { PageCache } from './services/page-cache';
 import { ProductMappingService } from './services/product-mapping';
-import { fetchSitemap, analyzeSitemap } from './services/sitemap';
-import type { SitemapUrl } from './types/index';
+import { loadRobotsTxt, type RobotsTxt } from './services/robots';
+import { fetchSitemap, analyzeSitemap, filterSitemapUrls, streamSitemaps } from './services/sitemap';
+import {
+  diffSitemapSnapshots,
+  loadSitemapSnapshot,
+  printSitemapDiff,
+  saveSitemapSnapshot,
+  SitemapSnapshotWriter,
+} from './services/sitemap-diff';
+import { isInSourceIndices, loadSitemapSources } from './services/sitemap-sources';
+import { printValidationReport, shouldFailValidation, validateSitemap } from './services/sitemap-validation';
+import type { SitemapSource, SitemapUrl } from './types/index';
 import { parseArgs } from './utils/args';
+import { ensureDir } from './utils/ensure-dir';
 
 /**
  * Main function that orchestrates the application startup.
@@ -19,6 +42,23 @@ async function main(): Promise<void> {
   const args = parseArgs();
   const { baseUrl, sitemapUrl, mode, partialIndexing, forceUpdate, indexFilter, testUrl } = args;
 
+  // Maintenance commands don't index anything
+  if (args.command[0] === 'cache' || args.command[0] === 'mapping' || args.command[0] === 'explain') {
+    try {
+      if (args.command[0] === 'cache') {
+        await runCacheCommand(args.command[1], args);
+      } else if (args.command[0] === 'explain') {
+        await runExplainCommand(args.command[1], args, config);
+      } else {
+        await runMappingCommand(args.command[1], args, config.app.productMappingUrl);
+      }
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+    return;
+  }
+
   // Only show detailed config in verbose mode or when explicilty testing a URL (likely debugging)
   const showDetailedConfig = args.verbose || testUrl;
 
@@ -29,7 +69,7 @@ async function main(): Promise<void> {
     // Always show core settings
     console.log(`Mode: ${mode}`);
     console.log(`Base URL: ${baseUrl}`);
-    console.log(`Sitemap URL: ${sitemapUrl}`);
+    console.log(`Sitemap URL: ${args.sources ? '(from sitemap sources)' : sitemapUrl || '(from robots.txt)'}`);
 
     // Only show more detailed settings in verbose mode
     console.log(`Max Concurrent Requests: ${config.app.maxConcurrentRequests}`);
@@ -37,6 +77,8 @@ async function main(): Promise<void> {
     console.log(`Log Level: ${config.app.logLevel}`);
     console.log(`Partial Indexing: ${partialIndexing ? 'yes' : 'no'}`);
     console.log(`Force Update: ${forceUpdate ? 'yes' : 'no'}`);
+    console.log(`Stream Sitemap: ${args.stream ? 'yes' : 'no'}`);
+    console.log(`Robots.txt: ${args.ignoreRobots ? 'ignored' : `honored as "${args.robotsUserAgent}"`}`);
 
     if (testUrl) {
       console.log(`Test URL: ${testUrl}`);
@@ -46,6 +88,52 @@ async function main(): Promise<void> {
       console.log(`Index Filter: ${indexFilter}`);
     }
 
+    if (args.contentDir) {
+      console.log(`Content Directory: ${args.contentDir}`);
+    }
+
+    if (args.markdownRoot) {
+      console.log(`Markdown Root: ${args.markdownRoot}`);
+    }
+
+    if (args.validate) {
+      console.log(`Validate Sitemap: yes${args.failOn ? `, fail on ${args.failOn}` : ''}`);
+    }
+
+    if (args.localeIndices) {
+      console.log('Locale Indices: yes');
+    }
+
+    if (args.tableRows) {
+      console.log('Table Row Records: yes');
+    }
+
+    if (args.cleaningRules) {
+      console.log(`Cleaning Rules: ${args.cleaningRules}`);
+    }
+
+    if (args.exclusionRules) {
+      console.log(`Exclusion Rules: ${args.exclusionRules}`);
+    }
+
+    console.log(`Page Cache: ${args.cache && !args.contentDir ? args.cacheDir : 'off'}`);
+
+    if (args.diff) {
+      console.log(`Sitemap Diff: against ${args.snapshotDir} (${args.reportFormat})`);
+    }
+
+    if (args.audit) {
+      console.log(`Content Audit: ${args.auditFile}`);
+    }
+
+    if (args.coverage) {
+      console.log(`Mapping Coverage: ${args.coverageFile}, patch ${args.mappingPatchFile}`);
+    }
+
+    if (args.crawl) {
+      console.log(`Crawl: from ${args.crawlFrom}, depth ${args.crawlDepth}, max ${args.crawlMaxPages} pages`);
+    }
+
     if (mode === 'index') {
       console.log(`Algolia App ID: ${config.algolia.appId ? 'Configured' : 'Not Configured'}`);
       console.log(`Index Prefix: ${config.app.indexPrefix || 'None'}`);
@@ -59,6 +147,22 @@ async function main(): Promise<void> {
     if (partialIndexing) flags.push('partial');
     if (forceUpdate) flags.push('force');
     if (indexFilter) flags.push(`filter: ${indexFilter}`);
+    if (args.stream) flags.push('stream');
+    if (args.sources) flags.push('sources');
+    if (args.contentDir) flags.push(`offline: ${args.contentDir}`);
+    if (args.markdownRoot) flags.push(`markdown: ${args.markdownRoot}`);
+    if (args.crawl) flags.push(`crawl: depth ${args.crawlDepth}`);
+    if (args.ignoreRobots) flags.push('ignore robots.txt');
+    if (args.diff) flags.push('diff');
+    if (args.localeIndices) flags.push('locale indices');
+    if (args.tableRows) flags.push('table rows');
+    if (!args.cache) flags.push('no cache');
+    if (args.cleaningRules) flags.push('cleaning rules');
+    if (args.exclusionRules) flags.push('exclusion rules');
+    if (args.debugCleaning) flags.push('debug cleaning');
+    if (args.audit) flags.push('audit');
+    if (args.coverage) flags.push('coverage');
+    if (args.validate) flags.push(args.failOn ? `validate: fail on ${args.failOn}` : 'validate');
 
     if (flags.length > 0) {
       console.log(`Flags: ${flags.join(', ')}`);
@@ -76,8 +180,9 @@ async function main(): Promise<void> {
   }
 
   try {
-    // Initialize services
-    const productMappingService = new ProductMappingService(args.verbose);
+    // Initialize services; the exclusion rules are validated before anything is fetched
+    const exclusions = args.exclusionRules ? await loadExclusionRules(args.exclusionRules) : undefined;
+    const productMappingService = new ProductMappingService(args.verbose, exclusions);
     await productMappingService.initialize(config.app.productMappingUrl);
 
     // Apply index filter if provided
@@ -89,6 +194,17 @@ async function main(): Promise<void> {
       productMappingService.filterIndices(indices);
     }
 
+    // Read robots.txt from the site (or the offline snapshot) unless told to ignore it
+    const loadSiteRobots = async (siteUrl: string): Promise<RobotsTxt | undefined> =>
+      args.ignoreRobots
+        ? undefined
+        : loadRobotsTxt(
+            args.contentDir ? join(args.contentDir, 'robots.txt') : new URL('/robots.txt', siteUrl).toString(),
+            args.robotsUserAgent,
+            args.verbose
+          );
+    const robots = await loadSiteRobots(baseUrl);
+
     const algoliaService = new AlgoliaService(
       {
         appId: config.algolia.appId,
@@ -96,10 +212,23 @@ async function main(): Promise<void> {
         indexPrefix: config.app.indexPrefix,
         verbose: args.verbose,
         testMode: mode === 'console' ? 'console' : mode === 'export' ? 'file' : 'none',
+        localeIndices: args.localeIndices,
+        tableRowRecords: args.tableRows,
       },
       productMappingService
     );
 
+    // Pages are revalidated against the on-disk cache unless turned off or read from a local snapshot
+    const cache = args.cache && !args.contentDir ? new PageCache(args.cacheDir, args.verbose) : undefined;
+    const cleaning = args.cleaningRules ? await loadCleaningRules(args.cleaningRules) : undefined;
+    const pageOptions = {
+      contentDir: args.contentDir,
+      markdownRoot: args.markdownRoot,
+      cache,
+      cleaning,
+      debugCleaning: args.debugCleaning,
+    };
+
     // If testing a specific URL
     if (testUrl) {
       console.log(`\nTesting specific URL: ${testUrl}`);
@@ -108,48 +237,221 @@ async function main(): Promise<void> {
 
       // Analyze or process just this URL
       if (mode === 'console') {
-        await analyzeSitemap([singleUrl], productMappingService);
+        await analyzeSitemap([singleUrl], productMappingService, false, robots);
       } else {
         const indexer = new ContentIndexer(
           config.app.productMappingUrl,
           baseUrl,
           algoliaService,
           config.app.maxConcurrentRequests,
-          args.verbose
+          args.verbose,
+          { ...pageOptions, exclusions }
         );
 
-        const validUrls = await analyzeSitemap([singleUrl], productMappingService, args.verbose);
+        const validUrls = await analyzeSitemap([singleUrl], productMappingService, args.verbose, robots);
         await indexer.run(validUrls);
       }
       return;
     }
 
-    // Fetch and analyze sitemap
-    const urls = await fetchSitemap(sitemapUrl, args.verbose);
-    const validUrls = await analyzeSitemap(urls, productMappingService, args.verbose);
-
-    if (mode === 'console') {
-      console.log('\nAnalysis complete');
-      return;
-    }
-
-    if (mode === 'export') {
-      console.log('\nProcessing content for export...');
-    }
-
     // Set environment variables for partial/force update
     process.env['PARTIAL'] = partialIndexing ? 'true' : 'false';
     process.env['FORCE'] = forceUpdate ? 'true' : 'false';
 
+    // Each source has its own sitemaps, base URL and optional index filter. Without SITEMAP_SOURCES the run
+    // has a single source: the configured sitemap, or the ones robots.txt lists
+    let sources: SitemapSource[];
+    if (args.sources) {
+      sources = await loadSitemapSources(args.sources);
+      console.log(`Sitemap sources: ${sources.map((source) => source.name).join(', ')}`);
+    } else {
+      const sitemapUrls = sitemapUrl ? [sitemapUrl] : (robots?.sitemaps ?? []);
+      if (sitemapUrls.length === 0) {
+        throw new Error('No sitemap configured: set SITEMAP_URL or list a Sitemap in robots.txt');
+      }
+      if (!sitemapUrl) {
+        console.log(`Using sitemaps from robots.txt: ${sitemapUrls.join(', ')}`);
+      }
+      sources = [{ name: 'default', sitemapUrls }];
+    }
+
+    // Sources on another site follow that site's robots.txt
+    const getSourceRobots = async (source: SitemapSource): Promise<RobotsTxt | undefined> =>
+      source.baseUrl && source.baseUrl !== baseUrl && !args.contentDir ? loadSiteRobots(source.baseUrl) : robots;
+
     const indexer = new ContentIndexer(
       config.app.productMappingUrl,
       baseUrl,
       algoliaService,
       config.app.maxConcurrentRequests,
-      args.verbose
+      args.verbose,
+      { ...pageOptions, exclusions, sources }
     );
 
-    await indexer.run(validUrls);
+    // Persist this run's sitemap and, when asked, report what changed since the previous run. The snapshot is
+    // only saved once the run succeeds, so a failed run is compared against again next time
+    const sitemaps = sources.flatMap((source) => source.sitemapUrls);
+    const recordSitemapSnapshot = async (saveSnapshot: () => Promise<unknown>): Promise<void> => {
+      const previous = args.diff ? await loadSitemapSnapshot(args.snapshotDir) : null;
+      await saveSnapshot();
+      if (!args.diff) {
+        return;
+      }
+
+      if (!previous) {
+        console.log(`\nNo previous sitemap snapshot in ${args.snapshotDir}, saved this run as the baseline`);
+        return;
+      }
+
+      const current = await loadSitemapSnapshot(args.snapshotDir);
+      const diff = diffSitemapSnapshots(previous, current!, productMappingService);
+      await writeFile(join(args.snapshotDir, 'diff.json'), JSON.stringify(diff, null, 2));
+      if (args.reportFormat === 'json') {
+        console.log(JSON.stringify(diff, null, 2));
+      } else {
+        printSitemapDiff(diff);
+      }
+    };
+
+    // Validation, crawling, the content audit and the coverage report need the whole sitemap, so they turn
+    // streaming off
+    if (args.stream && mode !== 'console' && !args.validate && !args.crawl && !args.audit && !args.coverage) {
+      // Start processing pages while the sitemaps are still being parsed
+      const streamSources = async function* (): AsyncGenerator<SitemapUrl> {
+        for (const source of sources) {
+          const sourceRobots = await getSourceRobots(source);
+          const urls = streamSitemaps(source.sitemapUrls, args.verbose);
+          for await (const url of filterSitemapUrls(urls, productMappingService, args.verbose, sourceRobots)) {
+            if (isInSourceIndices(url, source, productMappingService)) {
+              yield { ...url, sourceName: source.name };
+            }
+          }
+        }
+      };
+
+      // The streamed entries are written to the snapshot as they go instead of being kept in memory
+      const snapshotWriter = new SitemapSnapshotWriter(args.snapshotDir, sitemaps);
+      try {
+        await indexer.run(snapshotWriter.collect(streamSources()));
+      } catch (error) {
+        await snapshotWriter.discard();
+        throw error;
+      }
+      await recordSitemapSnapshot(() => snapshotWriter.commit());
+    } else {
+      const validUrls: SitemapUrl[] = [];
+      const seenUrls = new Set<string>();
+      const coverage: CoverageReport[] = [];
+
+      for (const source of sources) {
+        const sourceBaseUrl = source.baseUrl || baseUrl;
+        const sourceRobots = await getSourceRobots(source);
+        if (sources.length > 1) {
+          console.log(`\nSource: ${source.name} (${source.sitemapUrls.join(', ')})`);
+        }
+
+        // Fetch and analyze sitemap
+        const entries: SitemapUrl[] = [];
+        const urls = await fetchSitemap(source.sitemapUrls, args.verbose, entries);
+
+        if (args.validate) {
+          const report = validateSitemap(entries, sourceBaseUrl);
+          if (args.reportFormat === 'json') {
+            console.log(JSON.stringify(report, null, 2));
+          } else {
+            printValidationReport(report, args.verbose);
+          }
+
+          if (shouldFailValidation(report, args.failOn)) {
+            const { error, warning } = report.counts;
+            console.error(`\nSitemap validation failed with ${error} errors and ${warning} warnings`);
+            process.exit(1);
+          }
+        }
+
+        const analyzedUrls = await analyzeSitemap(urls, productMappingService, args.verbose, sourceRobots, coverage);
+        const sourceUrls = analyzedUrls.filter((url) => isInSourceIndices(url, source, productMappingService));
+        if (source.indices && args.verbose) {
+          console.log(`URLs in indices ${source.indices.join(', ')}: ${sourceUrls.length} of ${analyzedUrls.length}`);
+        }
+
+        // Look for pages that are linked from the site but missing from the sitemap
+        if (args.crawl) {
+          const seeds = getCrawlSeeds(args.crawlFrom, sourceUrls, productMappingService, sourceBaseUrl);
+          const crawlResult = await crawlSite(seeds, urls, productMappingService, sourceBaseUrl, {
+            maxDepth: args.crawlDepth,
+            maxPages: args.crawlMaxPages,
+            concurrency: config.app.maxConcurrentRequests,
+            verbose: args.verbose,
+            pageOptions: { contentDir: args.contentDir, cache },
+            robots: sourceRobots,
+          });
+          printCrawlReport(crawlResult, productMappingService);
+        }
+
+        // Merge into one sync, keeping the first source that lists a URL
+        for (const url of sourceUrls) {
+          if (!seenUrls.has(url.loc)) {
+            seenUrls.add(url.loc);
+            validUrls.push({ ...url, sourceName: source.name });
+          }
+        }
+      }
+
+      const saveSnapshot = (): Promise<unknown> => saveSitemapSnapshot(validUrls, sitemaps, args.snapshotDir);
+
+      // Unmatched paths become proposed mapping entries a doc owner can review and send to the mapping repository
+      if (args.coverage) {
+        const report = mergeCoverageReports(coverage, productMappingService.getUniqueIndices(), (path) =>
+          productMappingService.shouldExcludePath(path)
+        );
+        const patch = buildMappingPatch(report);
+        await ensureDir(dirname(args.coverageFile));
+        await writeFile(args.coverageFile, JSON.stringify(report, null, 2));
+        await ensureDir(dirname(args.mappingPatchFile));
+        await writeFile(args.mappingPatchFile, JSON.stringify(patch, null, 2) + '\n');
+        if (args.reportFormat === 'json') {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          console.log(`\nMapping coverage report saved to ${args.coverageFile}`);
+          console.log(`Proposed mapping entries (${patch.length} indices) saved to ${args.mappingPatchFile}`);
+        }
+      }
+
+      // The audit reads every page the way indexing would, but reports on the content instead of saving it
+      if (args.audit) {
+        console.log(`\nAuditing the content of ${validUrls.length} pages...`);
+        const report = await auditContent(validUrls, productMappingService, baseUrl, {
+          concurrency: config.app.maxConcurrentRequests,
+          verbose: args.verbose,
+          pageOptions,
+          sources,
+        });
+        await ensureDir(dirname(args.auditFile));
+        await writeFile(args.auditFile, JSON.stringify(report, null, 2));
+        if (args.reportFormat === 'json') {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          printAuditReport(report, args.verbose);
+          console.log(`\nAudit report saved to ${args.auditFile}`);
+        }
+        await recordSitemapSnapshot(saveSnapshot);
+        return;
+      }
+
+      if (mode === 'console') {
+        await recordSitemapSnapshot(saveSnapshot);
+        console.log('\nAnalysis complete');
+        return;
+      }
+
+      if (mode === 'export') {
+        console.log('\nProcessing content for export...');
+      }
+
+      await indexer.run(validUrls);
+      await recordSitemapSnapshot(saveSnapshot);
+    }
 
     // Show notification about loaded env variables if present
     if (Object.keys(process.env).length > 0) {
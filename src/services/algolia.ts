@@ -9,9 +9,11 @@ import type { AlgoliaRecord, IndexingResult, AlgoliaIndexSettings } from '../typ
 import type { PageContent, ContentSegment } from '../types/index';
 import { normalizeDate, getCurrentTimestamp, isFutureDate, isMoreRecent } from '../utils/dates';
 import { ensureDir } from '../utils/ensure-dir';
-import { headingToFragmentId, normalizeUrl } from '../utils/url';
+import { DEFAULT_LANGUAGE } from '../utils/locale';
+import { getPageUrl, headingToFragmentId, normalizeUrl, removeFragmentFromUrl } from '../utils/url';
 
 import { ProductMappingService } from './product-mapping';
+import { DEFAULT_SITEMAP_PRIORITY } from './sitemap';
 
 export interface AlgoliaServiceConfig {
   appId: string;
@@ -19,8 +21,20 @@ export interface AlgoliaServiceConfig {
   indexPrefix?: string;
   verbose?: boolean;
   testMode?: 'none' | 'file' | 'console';
+  /** Route records in languages other than the default to their own `{indexName}_{language}` index */
+  localeIndices?: boolean;
+  /** Create a record for each row of tables that list error codes or parameters */
+  tableRowRecords?: boolean;
 }
 
+// Longest code sample stored on a record, keeping records well below Algolia's size limit
+const MAX_CODE_SAMPLE_LENGTH = 5000;
+
+/**
+ * Minimum content length for a viable segment; shorter segments get no record of their own.
+ */
+export const MIN_SEGMENT_LENGTH = 80;
+
 interface IndexMatch {
   indexName: string;
   productName: string;
@@ -43,6 +57,8 @@ export class AlgoliaService {
   private productMappingService: ProductMappingService;
   private verbose: boolean;
   private testMode: 'none' | 'file' | 'console';
+  private _localeIndices: boolean;
+  private _tableRowRecords: boolean;
 
   /**
    *
@@ -53,6 +69,8 @@ export class AlgoliaService {
     this.productMappingService = productMappingService;
     this.verbose = config.verbose ?? false;
     this.testMode = config.testMode ?? 'none';
+    this._localeIndices = config.localeIndices ?? false;
+    this._tableRowRecords = config.tableRowRecords ?? false;
   }
 
   private log(message: string, type: 'info' | 'warn' | 'error' = 'info', forceShow = false): void {
@@ -74,6 +92,18 @@ export class AlgoliaService {
     return this.indexPrefix ? `${this.indexPrefix}${baseIndexName}` : baseIndexName;
   }
 
+  /**
+   * Returns the index that records in the given language are saved to. With locale routing enabled,
+   * languages other than the default go to `{indexName}_{language}`; otherwise all languages share the
+   * mapped index.
+   */
+  getLocaleIndexName(indexName: string, language?: string): string {
+    if (!this._localeIndices || !language || language === DEFAULT_LANGUAGE) {
+      return indexName;
+    }
+    return `${indexName}_${language}`;
+  }
+
   private async saveTestData(
     indexName: string,
     data: { settings: AlgoliaIndexSettings; records: AlgoliaRecord[]; productName: string }
@@ -102,7 +132,10 @@ export class AlgoliaService {
     }
   }
 
-  private getIndexSettings(): AlgoliaIndexSettings {
+  private getIndexSettings(records: AlgoliaRecord[] = []): AlgoliaIndexSettings {
+    // Analyze queries in every language the index holds
+    const languages = Array.from(new Set(records.map((record) => record.language || DEFAULT_LANGUAGE)));
+
     return {
       searchableAttributes: [
         'title',
@@ -121,19 +154,34 @@ export class AlgoliaService {
         'filterOnly(hierarchy.lvl0)',
         'filterOnly(hierarchy.lvl1)',
         'filterOnly(hierarchy.lvl2)',
+        'filterOnly(language)',
+        'filterOnly(extractor)',
+        'codeLanguage',
+        'method',
+        'searchable(apiPath)',
+        'searchable(operationId)',
+        'searchable(summary)',
+        'searchable(parameters)',
+        'searchable(tags)',
+      ],
+      customRanking: [
+        'desc(priority)',
+        'desc(lastModified)',
+        'asc(hierarchy.lvl0)',
+        'asc(hierarchy.lvl1)',
+        'asc(hierarchy.lvl2)',
       ],
-      customRanking: ['desc(lastModified)', 'asc(hierarchy.lvl0)', 'asc(hierarchy.lvl1)', 'asc(hierarchy.lvl2)'],
       ranking: ['typo', 'geo', 'words', 'filters', 'proximity', 'attribute', 'exact', 'custom'],
       minWordSizefor1Typo: 4,
       minWordSizefor2Typos: 8,
-      queryLanguages: ['en'],
+      queryLanguages: languages.length > 0 ? languages : [DEFAULT_LANGUAGE],
       removeStopWords: true,
       advancedSyntax: true,
     };
   }
 
   private async configureIndex(index: SearchIndex, records: AlgoliaRecord[], productName: string): Promise<void> {
-    const settings = this.getIndexSettings();
+    const settings = this.getIndexSettings(records);
 
     // Save combined data in test mode
     if (this.testMode !== 'none') {
@@ -170,6 +218,7 @@ export class AlgoliaService {
       this.log(`Saving ${records.length} records to index: ${index.indexName}`, 'info', this.verbose);
       await algoliaIndex.saveObjects(records);
       this.log(`✅ Successfully saved ${records.length} records to ${index.indexName}`, 'info', this.verbose);
+      await this._deleteLegacyPageRecords(algoliaIndex, records);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.log(`Failed to configure index: ${message}`, 'error', true);
@@ -177,17 +226,54 @@ export class AlgoliaService {
     }
   }
 
-  private getIndexForUrl(url: string): IndexMatch | null {
+  /**
+   * Deletes the records pages were saved under when the objectID of a page that isn't segmented was the hash
+   * of its URL as given rather than normalized. A full reindex only saves records, so without this they would
+   * stay next to the records under the current objectIDs; a partial update deletes them like any record it
+   * doesn't save.
+   *
+   * @param index - The index the records were saved to
+   * @param records - The records just saved
+   */
+  private async _deleteLegacyPageRecords(index: SearchIndex, records: AlgoliaRecord[]): Promise<void> {
+    const objectIDs = new Set(records.map((record) => record.objectID));
+    const legacyObjectIDs = new Set<string>();
+    for (const record of records) {
+      // Only URLs that normalizing changes had a different objectID
+      if (!record.url.includes('#') && normalizeUrl(record.url) !== record.url) {
+        const legacyObjectID = createHash('md5').update(record.url).digest('hex');
+        if (!objectIDs.has(legacyObjectID)) {
+          legacyObjectIDs.add(legacyObjectID);
+        }
+      }
+    }
+
+    if (legacyObjectIDs.size > 0) {
+      this.log(
+        `🗑️  Deleting records saved under ${legacyObjectIDs.size} previous page objectIDs`,
+        'info',
+        this.verbose
+      );
+      await index.deleteObjects(Array.from(legacyObjectIDs));
+    }
+  }
+
+  private getIndexForUrl(url: string, language?: string): IndexMatch | null {
     const path = new URL(url).pathname;
     if (this.verbose) {
       console.log(`🔍 Finding index for path: ${path}`);
     }
 
     const match = this.productMappingService.findBestMatch(path);
-    if (match && this.verbose) {
-      console.log(`✅ Found matching index: ${match.indexName} for product: ${match.productName}`);
+    if (!match) {
+      return null;
+    }
+
+    const indexName = this.getLocaleIndexName(match.indexName, language);
+    if (this.verbose) {
+      console.log(`✅ Found matching index: ${indexName} for product: ${match.productName}`);
     }
-    return match;
+    return { ...match, indexName };
   }
 
   private getIndex(indexName: string): SearchIndex {
@@ -379,7 +465,7 @@ export class AlgoliaService {
     timestamp?: string,
     isBaseRecord: boolean = false
   ): AlgoliaRecord => {
-    const url = normalizeUrl(content.url);
+    const url = getPageUrl(content);
     const urlObj = new URL(url);
     const path = urlObj.pathname;
 
@@ -472,18 +558,24 @@ export class AlgoliaService {
   };
 
   /**
-   *
+   * Creates the base record and segment records for a page. Every record carries the page's sitemap
+   * priority so it can be used for custom ranking.
    */
-  createRecord(content: PageContent, sitemapLastmod?: string): AlgoliaRecord[] {
+  createRecord(
+    content: PageContent,
+    sitemapLastmod?: string,
+    sitemapPriority: number = DEFAULT_SITEMAP_PRIORITY
+  ): AlgoliaRecord[] {
     // Only log in verbose mode or if it's a test URL
     if (this.verbose) {
       console.log(`\n🔄 Creating records for: ${content.url}`);
     }
 
-    const url = normalizeUrl(content.url);
+    // Key records on the canonical URL so aliases of a page produce the same records
+    const url = getPageUrl(content);
     const urlObj = new URL(url);
     const fragment = urlObj.hash || undefined;
-    const indexInfo = this.getIndexForUrl(url);
+    const indexInfo = this.getIndexForUrl(url, content.language);
     const metadata = content.metadata || {};
 
     if (!indexInfo) {
@@ -494,9 +586,6 @@ export class AlgoliaService {
     const records: AlgoliaRecord[] = [];
     const timestamp = getCurrentTimestamp();
 
-    // Minimum content length for a viable segment
-    const MIN_SEGMENT_LENGTH = 80;
-
     // Track objectIDs we've already used to prevent duplicates
     const usedObjectIds = new Set<string>();
 
@@ -640,13 +729,212 @@ export class AlgoliaService {
       }
     }
 
+    records.push(...this.createStructuredRecords(content, sitemapLastmod, sitemapPriority));
+
+    records.forEach((record) => {
+      record.priority = sitemapPriority;
+      record.language = content.language;
+      record.extractor = content.extractor;
+    });
+
+    return records;
+  }
+
+  /**
+   * Creates the records indexed alongside a page's own records: code samples, table rows and API
+   * operations. Pages that aren't segmented get these records too.
+   */
+  createStructuredRecords(
+    content: PageContent,
+    sitemapLastmod?: string,
+    sitemapPriority: number = DEFAULT_SITEMAP_PRIORITY
+  ): AlgoliaRecord[] {
+    return [
+      ...this._createCodeSampleRecords(content, sitemapLastmod, sitemapPriority),
+      ...this._createTableRowRecords(content, sitemapLastmod, sitemapPriority),
+      ...this._createApiOperationRecords(content, sitemapLastmod, sitemapPriority),
+    ];
+  }
+
+  /**
+   * Creates a `code-sample` record for each code block on a page. The records link to the section the
+   * code appears in and carry its language in `codeLanguage`.
+   */
+  private _createCodeSampleRecords(
+    content: PageContent,
+    sitemapLastmod?: string,
+    sitemapPriority: number = DEFAULT_SITEMAP_PRIORITY
+  ): AlgoliaRecord[] {
+    const samples = content.codeSamples || [];
+    const indexInfo = samples.length > 0 ? this.getIndexForUrl(getPageUrl(content), content.language) : null;
+    if (!indexInfo) {
+      return [];
+    }
+
+    const url = getPageUrl(content);
+    const timestamp = getCurrentTimestamp();
+
+    return samples.map((sample, index) => {
+      const segment: ContentSegment = { heading: sample.heading, content: sample.code, level: sample.level };
+      const record = this.createRecordFromSegment(content, segment, indexInfo, false, sitemapLastmod, timestamp);
+
+      // Number the samples so several blocks under one heading get distinct objectIDs
+      record.objectID = this.generateObjectId(url, `${sample.heading} code ${index + 1}`);
+      record.type = 'code-sample';
+      record.content = sample.code.slice(0, MAX_CODE_SAMPLE_LENGTH);
+      record.codeLanguage = sample.language;
+      record.priority = sitemapPriority;
+      record.language = content.language;
+      record.extractor = content.extractor;
+
+      if (this.verbose) {
+        console.log(`✅ Created ${sample.language} code sample record under: ${sample.heading.substring(0, 50)}`);
+      }
+
+      return record;
+    });
+  }
+
+  /**
+   * Creates a record for each row of the error-code and parameter tables on a page when table row
+   * records are enabled. Each record is typed after its table (`error-code` or `parameter`), is titled
+   * with the row's first cell and keeps the header-keyed row in `row`.
+   */
+  private _createTableRowRecords(
+    content: PageContent,
+    sitemapLastmod?: string,
+    sitemapPriority: number = DEFAULT_SITEMAP_PRIORITY
+  ): AlgoliaRecord[] {
+    const tableSegments = (content.segments || []).filter((segment) =>
+      segment.tables?.some((table) => table.kind !== 'generic')
+    );
+    const indexInfo =
+      this._tableRowRecords && tableSegments.length > 0
+        ? this.getIndexForUrl(getPageUrl(content), content.language)
+        : null;
+    if (!indexInfo) {
+      return [];
+    }
+
+    const url = getPageUrl(content);
+    const timestamp = getCurrentTimestamp();
+    const records: AlgoliaRecord[] = [];
+
+    tableSegments.forEach((segment) => {
+      segment.tables!.forEach((table, tableIndex) => {
+        if (table.kind === 'generic') {
+          return;
+        }
+
+        table.rows.forEach((row, rowIndex) => {
+          const name = row[table.headers[0]] || `Row ${rowIndex + 1}`;
+          const rowContent = table.headers
+            .filter((header) => row[header])
+            .map((header) => `${header}: ${row[header]}`)
+            .join('\n');
+
+          const record = this.createRecordFromSegment(
+            content,
+            { heading: segment.heading, content: rowContent, level: segment.level },
+            indexInfo,
+            false,
+            sitemapLastmod,
+            timestamp
+          );
+
+          record.objectID = this.generateObjectId(url, `${segment.heading} table ${tableIndex + 1} ${name}`);
+          record.title = name;
+          record.type = table.kind;
+          record.row = row;
+          record.priority = sitemapPriority;
+          record.language = content.language;
+          record.extractor = content.extractor;
+          records.push(record);
+        });
+      });
+    });
+
+    if (this.verbose && records.length > 0) {
+      console.log(`✅ Created ${records.length} table row records for ${url}`);
+    }
+
+    return records;
+  }
+
+  /**
+   * Creates an `api-operation` record for each REST operation on a page, with the operation's method,
+   * path, operationId, summary, parameters and tags as separate attributes. The records go to the index
+   * the page itself maps to.
+   */
+  private _createApiOperationRecords(
+    content: PageContent,
+    sitemapLastmod?: string,
+    sitemapPriority: number = DEFAULT_SITEMAP_PRIORITY
+  ): AlgoliaRecord[] {
+    const operations = content.operations || [];
+    const indexInfo = operations.length > 0 ? this.getIndexForUrl(getPageUrl(content), content.language) : null;
+    if (!indexInfo) {
+      return [];
+    }
+
+    const url = getPageUrl(content);
+    const timestamp = getCurrentTimestamp();
+
+    const records = operations.map((operation) => {
+      const name = `${operation.method} ${operation.path}`;
+      const operationContent = [
+        operation.summary,
+        operation.description,
+        operation.parameters.length > 0 ? `Parameters: ${operation.parameters.join(', ')}` : '',
+      ]
+        .filter(Boolean)
+        .join('\n');
+
+      const record = this.createRecordFromSegment(
+        content,
+        { heading: operation.tags[0] || content.title, content: operationContent, level: 2 },
+        indexInfo,
+        false,
+        sitemapLastmod,
+        timestamp
+      );
+
+      record.objectID = this.generateObjectId(url, `operation ${name}`);
+      record.fragment = operation.anchor;
+      record.title = operation.summary ? `${name} - ${operation.summary}` : name;
+      record.description = operation.summary || '';
+      record.type = 'api-operation';
+      record.method = operation.method;
+      record.apiPath = operation.path;
+      record.operationId = operation.operationId;
+      record.summary = operation.summary;
+      record.parameters = operation.parameters;
+      record.tags = operation.tags;
+      record.priority = sitemapPriority;
+      record.language = content.language;
+      record.extractor = content.extractor;
+      return record;
+    });
+
+    if (this.verbose) {
+      console.log(`✅ Created ${records.length} API operation records for ${url}`);
+    }
+
     return records;
   }
 
   /**
+   * Saves records to their indices, syncing each index with the records of this run in partial mode.
    *
+   * @param records - The records to save
+   * @param excludedUrlsByIndex - URLs of pages that opted out of search, by index. In partial mode, their
+   * existing records are deleted even from indices that get no new records in this run.
+   * @returns The result for each index
    */
-  async saveRecords(records: AlgoliaRecord[]): Promise<IndexingResult[]> {
+  async saveRecords(
+    records: AlgoliaRecord[],
+    excludedUrlsByIndex: Map<string, string[]> = new Map()
+  ): Promise<IndexingResult[]> {
     const stats = {
       total: records.length,
       byIndex: new Map<string, number>(),
@@ -677,7 +965,7 @@ export class AlgoliaService {
         console.log(`Record Product: ${record.product}`);
       }
 
-      const indexInfo = this.getIndexForUrl(record.url);
+      const indexInfo = this.getIndexForUrl(record.url, record.language);
 
       if (!indexInfo) {
         // Show errors only in verbose mode unless critical
@@ -819,6 +1107,31 @@ export class AlgoliaService {
       }
     }
 
+    // Records of excluded pages are deleted by the sync of indices that got records above; indices left
+    // without any records still need them removed
+    const forceUpdate = process.env['FORCE'] === 'true';
+    if (!forceUpdate && process.env['PARTIAL'] !== 'false') {
+      for (const [indexName, urls] of excludedUrlsByIndex) {
+        if (recordsByIndex.has(indexName)) {
+          continue;
+        }
+
+        try {
+          const deleted = await this._deleteRecordsForUrls(indexName, urls);
+          results.push({ indexName, recordCount: 0, status: 'success', updated: 0, deleted });
+        } catch (error) {
+          console.error(`${chalk.red('✗')} ${chalk.cyan(indexName)}: Error deleting excluded records`, error);
+          results.push({
+            indexName,
+            recordCount: 0,
+            status: 'error',
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+          stats.failedIndices++;
+        }
+      }
+    }
+
     // Only show detailed stats in verbose mode
     if (this.verbose) {
       console.log('\nFinal Indexing Statistics');
@@ -963,7 +1276,7 @@ export class AlgoliaService {
         try {
           const prefixedIndexName = this.getPrefixedIndexName(indexName);
           algoliaIndex = this.client.initIndex(prefixedIndexName);
-          const settings = this.getIndexSettings();
+          const settings = this.getIndexSettings(records);
           await algoliaIndex.setSettings(settings);
           this.log(`✅ Successfully configured settings for new index: ${indexName}`, 'info', true);
 
@@ -1099,6 +1412,47 @@ export class AlgoliaService {
     }
   }
 
+  /**
+   * Deletes the records of the given pages from an index, including their segment and structured records.
+   *
+   * @param indexName - The index to delete from
+   * @param urls - The page URLs whose records are deleted
+   * @returns The number of records deleted
+   */
+  private async _deleteRecordsForUrls(indexName: string, urls: string[]): Promise<number> {
+    const algoliaIndex = this.getIndex(indexName);
+    try {
+      await algoliaIndex.getSettings();
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return 0; // Nothing was ever indexed here
+      }
+      throw error;
+    }
+
+    const pageUrls = new Set(urls.map((url) => normalizeUrl(url)));
+    const objectIDsToDelete: string[] = [];
+    await algoliaIndex.browseObjects<{ url?: string }>({
+      attributesToRetrieve: ['url'],
+      batch: (existingRecords) => {
+        existingRecords.forEach((existingRecord) => {
+          if (existingRecord.url && pageUrls.has(normalizeUrl(removeFragmentFromUrl(existingRecord.url)))) {
+            objectIDsToDelete.push(existingRecord.objectID);
+          }
+        });
+      },
+    });
+
+    if (objectIDsToDelete.length > 0) {
+      this.log(`🗑️  Deleting ${objectIDsToDelete.length} records of excluded pages from ${indexName}`, 'info', true);
+      if (this.testMode === 'none') {
+        await algoliaIndex.deleteObjects(objectIDsToDelete);
+      }
+    }
+
+    return objectIDsToDelete.length;
+  }
+
   /**
    * Gets an existing Algolia index or creates a new one if it doesn't exist.
    *
@@ -1139,8 +1493,8 @@ export class AlgoliaService {
     for (const content of contents) {
       try {
         // Get index info for this content
-        const url = normalizeUrl(content.url);
-        const indexInfo = this.getIndexForUrl(url);
+        const url = getPageUrl(content);
+        const indexInfo = this.getIndexForUrl(url, content.language);
 
         if (!indexInfo) {
           console.warn(`⚠️ Skipping content: No index mapping found for ${url}`);
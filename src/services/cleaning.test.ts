@@ -0,0 +1,91 @@
+import { load } from 'cheerio';
+
+import { cleanDocument, DEFAULT_CLEANING_RULES, loadCleaningRules } from './cleaning';
+
+// Simple tests for cleaning rules
+console.log('Testing cleanDocument function:');
+
+const PAGE = `<html><body>
+  <header><a href="/">Adobe Developer</a></header>
+  <div class="side-menu"><a href="/photoshop/">Photoshop</a></div>
+  <div class="layout-sidebar">
+    <main>
+      <h1>Photoshop API</h1>
+      <p>Edit PSD files in the cloud.</p>
+      <nav class="toc">On this page</nav>
+    </main>
+  </div>
+  <div aria-hidden="true">Hidden icon</div>
+  <footer>Copyright</footer>
+</body></html>`;
+
+const $ = load(PAGE);
+const results = cleanDocument($, DEFAULT_CLEANING_RULES);
+const text = $('body').text().replace(/\s+/g, ' ').trim();
+
+const cleaningChecks = [
+  { name: 'Site chrome is removed', passed: !/Adobe Developer|Copyright|Hidden icon/.test(text) },
+  { name: 'Menus are removed by class', passed: !text.includes('Photoshop Photoshop API') },
+  { name: 'Navigation inside the content is removed', passed: !text.includes('On this page') },
+  { name: 'The main content is kept', passed: text === 'Photoshop API Edit PSD files in the cloud.' },
+  {
+    name: 'A container of the main content is kept',
+    passed:
+      results.find((result) => result.selector === '[class*="sidebar"], [id*="sidebar"]')?.kept[0] ===
+      '<div class="layout-sidebar"> "Photoshop API Edit PSD files in the clou…"',
+  },
+  {
+    name: 'Removed elements are described',
+    passed:
+      JSON.stringify(results.find((result) => result.selector === 'header')?.removed) ===
+      JSON.stringify(['<header> "Adobe Developer"']),
+  },
+  { name: 'Rules that match nothing are not reported', passed: !results.some((result) => result.selector === 'form') },
+];
+
+cleaningChecks.forEach((test) => {
+  if (!test.passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${test.passed ? '✅' : '❌'} ${test.name}`);
+});
+
+console.log('\nTesting loadCleaningRules function:');
+
+const ruleCases = [
+  {
+    name: 'Selectors extend the defaults',
+    json: '{ "remove": [".feedback"], "keep": [".api-content"] }',
+    expected: {
+      remove: [...DEFAULT_CLEANING_RULES.remove, '.feedback'],
+      keep: [...DEFAULT_CLEANING_RULES.keep, '.api-content'],
+    },
+  },
+  {
+    name: 'Selectors replace the defaults',
+    json: '{ "remove": ["header"], "extendDefaults": false }',
+    expected: { remove: ['header'], keep: [] },
+  },
+  { name: 'Invalid selectors are rejected', json: '{ "remove": ["div["] }', expected: 'Invalid selector "div["' },
+  { name: 'Unknown keys are rejected', json: '{ "removes": ["header"] }', expected: 'Unrecognized key' },
+];
+
+for (const test of ruleCases) {
+  let result: unknown;
+  try {
+    result = await loadCleaningRules(test.json);
+  } catch (error) {
+    result = error instanceof Error ? error.message : String(error);
+  }
+
+  const passed =
+    typeof test.expected === 'string'
+      ? typeof result === 'string' && result.includes(test.expected)
+      : JSON.stringify(result) === JSON.stringify(test.expected);
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${test.name} ${!passed ? `→ ${JSON.stringify(result)}` : ''}`);
+}
+
+console.log('\nDone!');
@@ -0,0 +1,166 @@
+import chalk from 'chalk';
+import { load } from 'cheerio';
+import type { Element } from 'domhandler';
+import { z } from 'zod';
+
+import type { CleaningRules } from '../types/index';
+import { loadJsonResource } from '../utils/resource';
+
+import type { CheerioRoot } from './extraction';
+
+/**
+ * The rules used unless configured otherwise: site chrome such as navigation, headers, footers, sidebars and
+ * breadcrumbs is removed, while the main content container is always kept.
+ */
+export const DEFAULT_CLEANING_RULES: CleaningRules = {
+  remove: [
+    'nav',
+    'header',
+    'footer',
+    'aside',
+    'form',
+    '[role="navigation"]',
+    '[role="banner"]',
+    '[role="complementary"]',
+    '[role="contentinfo"]',
+    '[role="dialog"]',
+    '[aria-hidden="true"]',
+    '[class*="menu"], [id*="menu"]',
+    '[class*="navigation"], [id*="navigation"]',
+    '[class*="sidebar"], [id*="sidebar"]',
+    '[class*="toolbar"], [id*="toolbar"]',
+    '[class*="breadcrumb"], [id*="breadcrumb"]',
+    '[class*="pagination"], [id*="pagination"]',
+  ],
+  keep: ['main', 'article', '[role="main"]'],
+};
+
+/**
+ * What one rule did to a page.
+ */
+export interface CleaningRuleResult {
+  /** The selector of the rule */
+  selector: string;
+  /** Descriptions of the elements the rule removed */
+  removed: string[];
+  /** Descriptions of the elements the rule matched but a keep selector protected */
+  kept: string[];
+}
+
+const isValidSelector = (selector: string): boolean => {
+  try {
+    load('')(selector);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const selectorListSchema = z.array(
+  z
+    .string()
+    .min(1)
+    .refine(isValidSelector, (selector) => ({ message: `Invalid selector "${selector}"` }))
+);
+
+const cleaningRulesSchema = z
+  .object({
+    remove: selectorListSchema.default([]),
+    keep: selectorListSchema.default([]),
+    // Add the selectors to the default rules, or replace the default rules with them
+    extendDefaults: z.boolean().default(true),
+  })
+  .strict()
+  .transform(({ remove, keep, extendDefaults }) =>
+    extendDefaults
+      ? {
+          remove: [...DEFAULT_CLEANING_RULES.remove, ...remove],
+          keep: [...DEFAULT_CLEANING_RULES.keep, ...keep],
+        }
+      : { remove, keep }
+  );
+
+/**
+ * Loads the cleaning rules for a run.
+ *
+ * The rules are a JSON object `{ remove?, keep?, extendDefaults? }` given inline or as the URL or local path of a
+ * JSON file. Its selectors are added to {@link DEFAULT_CLEANING_RULES}, or replace them when `extendDefaults`
+ * is false.
+ *
+ * @param location - Inline JSON, or the URL or path of a JSON file
+ * @returns The validated rules
+ * @throws An error if the rules can't be read or are invalid
+ */
+export async function loadCleaningRules(location: string): Promise<CleaningRules> {
+  return loadJsonResource(location, cleaningRulesSchema, 'cleaning rules');
+}
+
+/**
+ * Describes an element for the debug output, e.g. `<div class="side-nav"> "Overview Getting started…"`.
+ */
+function describeElement($: CheerioRoot, element: Element): string {
+  const attributes = ['id', 'class', 'role']
+    .filter((name) => element.attribs[name])
+    .map((name) => ` ${name}="${element.attribs[name]}"`)
+    .join('');
+  const text = $(element).text().replace(/\s+/g, ' ').trim();
+  const excerpt = text.length > 40 ? `${text.substring(0, 40)}…` : text;
+
+  return `<${element.tagName}${attributes}>${excerpt ? ` "${excerpt}"` : ''}`;
+}
+
+/**
+ * Removes the parts of a page that aren't content, before any extractor reads it. Rules are applied in order
+ * to the elements inside `<body>`; an element is left in place when it matches a keep selector or contains an
+ * element that does, so a loose rule can't remove the main content container.
+ *
+ * @param $ - Cheerio instance containing the parsed HTML; modified in place
+ * @param rules - The remove and keep selectors
+ * @returns What each rule that matched anything did, in rule order
+ */
+export function cleanDocument($: CheerioRoot, rules: CleaningRules): CleaningRuleResult[] {
+  const keep = rules.keep.join(', ');
+  const results: CleaningRuleResult[] = [];
+
+  for (const selector of rules.remove) {
+    const result: CleaningRuleResult = { selector, removed: [], kept: [] };
+
+    $('body')
+      .find(selector)
+      .each(function (this: Element) {
+        const $el = $(this);
+        if (keep && ($el.is(keep) || $el.find(keep).length > 0)) {
+          result.kept.push(describeElement($, this));
+          return;
+        }
+
+        result.removed.push(describeElement($, this));
+        $el.remove();
+      });
+
+    if (result.removed.length > 0 || result.kept.length > 0) {
+      results.push(result);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Prints which elements each cleaning rule removed from a page.
+ *
+ * @param url - The URL of the page
+ * @param results - The results of {@link cleanDocument}
+ */
+export function printCleaningReport(url: string, results: CleaningRuleResult[]): void {
+  const removed = results.reduce((sum, result) => sum + result.removed.length, 0);
+  console.log(`\n${chalk.bold('Cleaning')} ${url}: ${chalk.cyan(removed)} elements removed`);
+
+  for (const { selector, removed: removedElements, kept } of results) {
+    console.log(
+      `  ${chalk.yellow(selector)}: ${removedElements.length} removed${kept.length ? `, ${kept.length} kept` : ''}`
+    );
+    removedElements.forEach((element) => console.log(`    - ${element}`));
+    kept.forEach((element) => console.log(`    ${chalk.green('+')} ${element}`));
+  }
+}
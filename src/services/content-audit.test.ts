@@ -0,0 +1,129 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { auditContent } from './content-audit';
+import { ProductMappingService } from './product-mapping';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+const PARAGRAPH =
+  'The Photoshop API lets you automate edits to PSD files in the cloud, from applying presets to replacing smart objects.';
+
+const page = ({
+  title,
+  description,
+  sections,
+}: {
+  title: string;
+  description?: string;
+  sections: [string, string, string][];
+}): string => `<html>
+  <head>
+    <title>${title}</title>
+    ${description ? `<meta name="description" content="${description}">` : ''}
+  </head>
+  <body>
+    <main>
+      <h1>${title}</h1>
+      ${sections.map(([tag, heading, text]) => `<${tag}>${heading}</${tag}>\n      <p>${text}</p>`).join('\n      ')}
+    </main>
+  </body>
+</html>`;
+
+const dir = await mkdtemp(join(tmpdir(), 'content-audit-test-'));
+
+try {
+  const mappingPath = join(dir, 'product-index-map.json');
+  await writeFile(
+    mappingPath,
+    JSON.stringify([{ productName: 'Photoshop', productIndices: [{ indexName: 'photoshop', indexPathPrefix: '/ps' }] }])
+  );
+  const productMappingService = new ProductMappingService();
+  await productMappingService.initialize(mappingPath);
+
+  const pages: Record<string, string> = {
+    good: page({
+      title: 'Quickstart',
+      description: 'Make your first Photoshop API call',
+      sections: [
+        ['h2', 'Install', PARAGRAPH],
+        ['h2', 'Authenticate', PARAGRAPH],
+        ['h2', 'Call the API', PARAGRAPH],
+      ],
+    }),
+    thin: page({
+      title: 'Reference',
+      description: 'Reference',
+      sections: [
+        ['h2', 'Endpoints', PARAGRAPH],
+        ['h4', 'Limits', 'Ten requests per second, per key.'],
+        ['h2', 'Errors', PARAGRAPH],
+      ],
+    }),
+    'guide-a': page({ title: 'Guide', sections: [['h2', 'Overview', PARAGRAPH]] }),
+    'guide-b': page({ title: 'guide', sections: [['h2', 'Overview', `${PARAGRAPH} Also for layers.`]] }),
+    empty: page({ title: 'Empty', sections: [] }),
+  };
+
+  await mkdir(join(dir, 'pages', 'ps'), { recursive: true });
+  for (const [name, html] of Object.entries(pages)) {
+    await writeFile(join(dir, 'pages', 'ps', `${name}.html`), html);
+  }
+  await mkdir(join(dir, 'pages', 'other'), { recursive: true });
+  await writeFile(join(dir, 'pages', 'other', 'page.html'), pages['good']);
+
+  // Simple tests for the content audit
+  console.log('Testing auditContent function:');
+
+  const baseUrl = 'https://developer.adobe.com';
+  const urls = ['good', 'thin', 'guide-a', 'guide-b', 'empty', 'missing'].map((name) => ({
+    loc: `${baseUrl}/ps/${name}`,
+  }));
+  urls.push({ loc: `${baseUrl}/other/page` });
+  const report = await auditContent(urls, productMappingService, baseUrl, {
+    concurrency: 1,
+    pageOptions: { contentDir: join(dir, 'pages') },
+  });
+
+  const issuesFor = (name: string): string[] =>
+    (report.byIndex['photoshop']?.issues || [])
+      .filter((issue) => issue.url === `${baseUrl}/ps/${name}`)
+      .map((issue) => issue.type);
+
+  const expectedIssues: Record<string, string[]> = {
+    good: [],
+    thin: ['thin-content', 'default-description', 'skipped-heading-level'],
+    'guide-a': ['missing-description', 'duplicate-title'],
+    'guide-b': ['missing-description', 'duplicate-title'],
+    empty: ['no-content', 'missing-description'],
+  };
+
+  for (const [name, expected] of Object.entries(expectedIssues)) {
+    const result = issuesFor(name);
+    check(
+      JSON.stringify(result) === JSON.stringify(expected),
+      `/ps/${name} → ${JSON.stringify(result)} ${JSON.stringify(result) !== JSON.stringify(expected) ? `(expected ${JSON.stringify(expected)})` : ''}`
+    );
+  }
+
+  check(report.audited === 5 && report.byIndex['photoshop']?.pages === 5, `${report.audited} pages audited`);
+  check(
+    JSON.stringify(report.skipped.map((entry) => entry.reason)) ===
+      JSON.stringify(['No index mapping', `Page not found: ${baseUrl}/ps/missing`]),
+    'Unmapped and missing pages are skipped'
+  );
+  check(
+    report.counts.error === 1 && report.counts.warning === 8,
+    `${report.counts.error} errors, ${report.counts.warning} warnings`
+  );
+} finally {
+  await rm(dir, { recursive: true, force: true });
+}
+
+console.log('\nDone!');
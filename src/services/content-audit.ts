@@ -0,0 +1,334 @@
+import chalk from 'chalk';
+
+import type { PageContent, SitemapSource, SitemapUrl } from '../types/index';
+import { TaskQueue } from '../utils/queue';
+import { getPageUrl } from '../utils/url';
+
+import { MIN_SEGMENT_LENGTH } from './algolia';
+import { fetchPageContent, shouldSegmentContent, type PageFetchOptions } from './content';
+import type { ProductMappingService } from './product-mapping';
+
+// A meta description shared by this many pages is treated as a site-wide default rather than a page summary
+const SHARED_DESCRIPTION_PAGES = 3;
+
+/**
+ * How serious a content problem is. Errors point at pages that can't be found by their content; warnings
+ * point at pages that are indexed but rank or display badly.
+ */
+export type ContentIssueSeverity = 'error' | 'warning';
+
+/**
+ * The checks run by {@link auditContent}.
+ */
+export type ContentIssueType =
+  | 'no-content'
+  | 'segments-dropped'
+  | 'thin-content'
+  | 'missing-description'
+  | 'default-description'
+  | 'duplicate-title'
+  | 'skipped-heading-level';
+
+/**
+ * A problem found with the extracted content of a page.
+ */
+export interface ContentIssue {
+  /** Which check found the problem */
+  type: ContentIssueType;
+  /** How serious the problem is */
+  severity: ContentIssueSeverity;
+  /** The URL of the page */
+  url: string;
+  /** A description of the problem */
+  message: string;
+}
+
+/**
+ * The pages audited for one index and the problems found on them.
+ */
+export interface IndexAuditResult {
+  /** Number of pages audited */
+  pages: number;
+  /** The issues found, ordered by URL */
+  issues: ContentIssue[];
+}
+
+/**
+ * Results of auditing the content of a run's pages.
+ */
+export interface ContentAuditReport {
+  /** When the audit ran (ISO 8601) */
+  createdAt: string;
+  /** Number of pages whose content was extracted */
+  audited: number;
+  /** Number of issues per severity */
+  counts: Record<ContentIssueSeverity, number>;
+  /** The audited pages and their issues by the index their records belong to */
+  byIndex: Record<string, IndexAuditResult>;
+  /** URLs that weren't audited, such as aliases, noindex pages and pages that failed to load */
+  skipped: { url: string; reason: string }[];
+}
+
+/**
+ * Optional settings for a content audit.
+ */
+export interface ContentAuditOptions {
+  /** Maximum number of pages fetched at once */
+  concurrency?: number;
+  /** Whether to log each audited page */
+  verbose?: boolean;
+  /** Where and how pages are read, as for indexing */
+  pageOptions?: PageFetchOptions;
+  /** Sitemap sources of the run; URLs tagged with a source are fetched from its base URL */
+  sources?: SitemapSource[];
+}
+
+interface AuditedPage {
+  url: string;
+  indexName: string;
+  content: PageContent;
+}
+
+const SEVERITIES: Record<ContentIssueType, ContentIssueSeverity> = {
+  'no-content': 'error',
+  'segments-dropped': 'error',
+  'thin-content': 'warning',
+  'missing-description': 'warning',
+  'default-description': 'warning',
+  'duplicate-title': 'warning',
+  'skipped-heading-level': 'warning',
+};
+
+const TITLES: Record<ContentIssueType, string> = {
+  'no-content': 'No meaningful content found',
+  'segments-dropped': 'All sections too short to index',
+  'thin-content': `Sections under ${MIN_SEGMENT_LENGTH} characters`,
+  'missing-description': 'Missing description',
+  'default-description': 'Default description',
+  'duplicate-title': 'Duplicate titles',
+  'skipped-heading-level': 'Skipped heading levels',
+};
+
+// The description the page declares, as opposed to the first paragraph extractors fall back to
+const getMetaDescription = (content: PageContent): string =>
+  (
+    content.metadata['description'] ||
+    content.metadata['og:description'] ||
+    content.metadata['og_description'] ||
+    ''
+  ).trim();
+
+/**
+ * Runs the checks that need only the page itself.
+ */
+function checkPage(content: PageContent): { type: ContentIssueType; message: string }[] {
+  const issues: { type: ContentIssueType; message: string }[] = [];
+
+  // fetchPageContent empties the content of pages with less than 100 characters of text
+  if (!content.mainContent.trim() && !content.operations?.length) {
+    issues.push({ type: 'no-content', message: 'Less than 100 characters of text after extraction' });
+  } else if (shouldSegmentContent(content)) {
+    // Segments shorter than MIN_SEGMENT_LENGTH don't get a record of their own
+    const short = content.segments.filter((segment) => segment.content.trim().length < MIN_SEGMENT_LENGTH);
+    if (short.length === content.segments.length) {
+      issues.push({
+        type: 'segments-dropped',
+        message: `None of the ${short.length} sections has ${MIN_SEGMENT_LENGTH} characters of text; the page is only found by its title and summary`,
+      });
+    } else if (short.length > 0) {
+      const headings = short.map((segment) => `"${segment.heading || '(untitled)'}"`);
+      issues.push({
+        type: 'thin-content',
+        message: `${short.length} of ${content.segments.length} sections get no record: ${headings.join(', ')}`,
+      });
+    }
+  }
+
+  const metaDescription = getMetaDescription(content);
+  if (!metaDescription) {
+    issues.push({ type: 'missing-description', message: 'No meta description; search results show the first text' });
+  } else if (metaDescription.toLowerCase() === content.title.trim().toLowerCase()) {
+    issues.push({ type: 'default-description', message: 'The meta description repeats the title' });
+  }
+
+  // A heading more than one level below the previous heading, e.g. an h4 directly after an h2
+  const levels = content.headingLevels || [];
+  const skips = levels.flatMap((level, index) =>
+    index > 0 && level > levels[index - 1] + 1
+      ? [`h${levels[index - 1]} → h${level} at "${content.headings[index]}"`]
+      : []
+  );
+  if (skips.length > 0) {
+    issues.push({ type: 'skipped-heading-level', message: skips.join('; ') });
+  }
+
+  return issues;
+}
+
+/**
+ * Extracts the content of each page the way indexing does and checks it for problems that make the page
+ * search badly: no meaningful content, sections too short to get a record of their own (`MIN_SEGMENT_LENGTH`),
+ * missing or default descriptions, titles used by several pages of an index and skipped heading levels.
+ *
+ * Aliases of an already audited page, pages that opt out of search and pages that fail to load are listed as
+ * skipped rather than audited.
+ *
+ * @param urls - The sitemap entries to audit.
+ * @param productMapping - The mapping that assigns each page to an index.
+ * @param baseUrl - The base URL pages are fetched from, unless their source has its own.
+ * @param options - Concurrency, logging and where pages are read from.
+ * @returns The issues found, grouped by index.
+ */
+export async function auditContent(
+  urls: SitemapUrl[],
+  productMapping: ProductMappingService,
+  baseUrl: string,
+  options: ContentAuditOptions = {}
+): Promise<ContentAuditReport> {
+  const queue = new TaskQueue(options.concurrency ?? 5);
+  const sourceBaseUrls = new Map(
+    (options.sources || []).flatMap((source) => (source.baseUrl ? [[source.name, source.baseUrl]] : []))
+  );
+  const pages: AuditedPage[] = [];
+  const skipped: { url: string; reason: string }[] = [];
+  const canonicalUrls = new Set<string>();
+
+  const auditPage = async (url: SitemapUrl): Promise<void> => {
+    const pageBaseUrl = (url.sourceName && sourceBaseUrls.get(url.sourceName)) || baseUrl;
+    const pageUrl = new URL(new URL(url.loc).pathname, pageBaseUrl).toString();
+
+    let content: PageContent;
+    try {
+      content = await fetchPageContent(pageUrl, options.pageOptions);
+    } catch (error) {
+      const message =
+        error && typeof error === 'object' && 'message' in error
+          ? String((error as { message: unknown }).message)
+          : String(error);
+      skipped.push({ url: pageUrl, reason: message });
+      return;
+    }
+
+    const canonicalUrl = getPageUrl({ url: pageUrl, canonicalUrl: content.canonicalUrl });
+    if (canonicalUrls.has(canonicalUrl)) {
+      skipped.push({ url: pageUrl, reason: `Alias of ${canonicalUrl}` });
+      return;
+    }
+    canonicalUrls.add(canonicalUrl);
+
+    const mappedIndex = productMapping.getIndexForUrl(canonicalUrl);
+    if (!mappedIndex) {
+      skipped.push({ url: pageUrl, reason: 'No index mapping' });
+      return;
+    }
+
+    pages.push({ url: pageUrl, indexName: mappedIndex.indexName, content });
+    if (options.verbose) {
+      console.log(`✓ Audited ${pageUrl}`);
+    }
+  };
+
+  await queue.addBatch(urls.map((url) => () => auditPage(url)));
+
+  const report: ContentAuditReport = {
+    createdAt: new Date().toISOString(),
+    audited: pages.length,
+    counts: { error: 0, warning: 0 },
+    byIndex: {},
+    skipped: skipped.sort((a, b) => a.url.localeCompare(b.url)),
+  };
+
+  const addIssue = (page: AuditedPage, type: ContentIssueType, message: string): void => {
+    const severity = SEVERITIES[type];
+    report.byIndex[page.indexName].issues.push({ type, severity, url: page.url, message });
+    report.counts[severity]++;
+  };
+
+  pages.sort((a, b) => a.url.localeCompare(b.url));
+  for (const page of pages) {
+    report.byIndex[page.indexName] ??= { pages: 0, issues: [] };
+    report.byIndex[page.indexName].pages++;
+  }
+
+  // Descriptions shared by several pages are usually a template default
+  const descriptionPages = new Map<string, number>();
+  for (const { content } of pages) {
+    const description = getMetaDescription(content);
+    if (description) {
+      descriptionPages.set(description, (descriptionPages.get(description) || 0) + 1);
+    }
+  }
+
+  // Titles only need to be unique within an index, which is what a search shows results from
+  const titleGroups = new Map<string, AuditedPage[]>();
+  for (const page of pages) {
+    const title = page.content.title.trim().toLowerCase();
+    if (title) {
+      const key = `${page.indexName}\n${title}`;
+      titleGroups.set(key, [...(titleGroups.get(key) || []), page]);
+    }
+  }
+
+  for (const page of pages) {
+    const pageIssues = checkPage(page.content);
+    pageIssues.forEach(({ type, message }) => addIssue(page, type, message));
+
+    const sharedBy = descriptionPages.get(getMetaDescription(page.content)) || 0;
+    if (sharedBy >= SHARED_DESCRIPTION_PAGES && !pageIssues.some(({ type }) => type === 'default-description')) {
+      addIssue(page, 'default-description', `The meta description is shared by ${sharedBy} pages`);
+    }
+
+    const sameTitle = titleGroups.get(`${page.indexName}\n${page.content.title.trim().toLowerCase()}`) || [];
+    if (sameTitle.length > 1) {
+      const others = sameTitle.filter((other) => other !== page).map((other) => other.url);
+      addIssue(page, 'duplicate-title', `"${page.content.title.trim()}" is also the title of ${others.join(', ')}`);
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Prints a content audit report grouped by index and check.
+ *
+ * @param report - The audit results.
+ * @param verbose - Whether to list every affected URL and skipped page instead of the first few.
+ */
+export function printAuditReport(report: ContentAuditReport, verbose = false): void {
+  console.log(`\n${chalk.bold('Content Audit')}`);
+  console.log(
+    `Audited ${chalk.cyan(report.audited)} pages: ${chalk.red(`${report.counts.error} errors`)}, ` +
+      `${chalk.yellow(`${report.counts.warning} warnings`)}`
+  );
+
+  for (const [indexName, { pages, issues }] of Object.entries(report.byIndex).sort(([a], [b]) => a.localeCompare(b))) {
+    const affected = new Set(issues.map((issue) => issue.url)).size;
+    console.log(`\n${chalk.bold(indexName)}: ${pages} pages, ${affected} with issues`);
+
+    const byType = new Map<ContentIssueType, ContentIssue[]>();
+    issues.forEach((issue) => byType.set(issue.type, [...(byType.get(issue.type) || []), issue]));
+
+    for (const type of Object.keys(TITLES) as ContentIssueType[]) {
+      const typeIssues = byType.get(type);
+      if (!typeIssues) {
+        continue;
+      }
+
+      const color = SEVERITIES[type] === 'error' ? chalk.red : chalk.yellow;
+      console.log(`  ${color(`[${SEVERITIES[type]}]`)} ${TITLES[type]} (${typeIssues.length})`);
+
+      const shown = verbose ? typeIssues : typeIssues.slice(0, 5);
+      shown.forEach((issue) => console.log(`    • ${issue.url} - ${issue.message}`));
+      if (shown.length < typeIssues.length) {
+        console.log(`    ... and ${typeIssues.length - shown.length} more (use --verbose to list all)`);
+      }
+    }
+  }
+
+  if (report.skipped.length > 0) {
+    console.log(`\nSkipped ${chalk.cyan(report.skipped.length)} pages`);
+    if (verbose) {
+      report.skipped.forEach(({ url, reason }) => console.log(`  • ${url} - ${reason}`));
+    }
+  }
+}
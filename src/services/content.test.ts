@@ -0,0 +1,122 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { fetchPageContent } from './content';
+import { PageCache } from './page-cache';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+const page = (head = '', title = 'Guide'): string => `<html>
+  <head><title>${title}</title>${head}</head>
+  <body><main><h1>Guide</h1><p>The Photoshop API lets you automate edits to PSD files in the cloud.</p></main></body>
+</html>`;
+
+// Each case is served from its own path, with the robots header and head markup of the case
+const cases = [
+  { name: 'No directives', expected: undefined },
+  { name: 'A noindex header', header: 'noindex', expected: 'X-Robots-Tag' },
+  { name: 'A none header', header: 'nofollow, NONE', expected: 'X-Robots-Tag' },
+  { name: 'A header scoped to another crawler', header: 'googlebot: noindex', expected: undefined },
+  { name: 'A header scoped to several crawlers', header: 'googlebot: nofollow, bingbot: none', expected: undefined },
+  {
+    name: 'A header with a dated directive',
+    header: 'unavailable_after: 2030-01-01, noindex',
+    expected: 'X-Robots-Tag',
+  },
+  { name: 'A noindex meta tag', head: '<meta name="robots" content="index, noindex">', expected: 'meta robots' },
+  { name: 'A nofollow meta tag', head: '<meta name="robots" content="nofollow, noarchive">', expected: undefined },
+  {
+    name: 'The hide-from-search flag',
+    head: '<meta name="hide-from-search" content="true">',
+    expected: 'hide-from-search',
+  },
+  {
+    name: 'The hide-from-search flag turned off',
+    head: '<meta name="hide-from-search" content="false">',
+    expected: undefined,
+  },
+];
+
+// The number of requests for the cached page, and whether the last one was conditional
+const cachedRequests = { count: 0, conditional: false };
+
+const server = createServer((request, response) => {
+  if (request.url === '/cached') {
+    cachedRequests.count++;
+    cachedRequests.conditional = request.headers['if-none-match'] === '"v1"';
+    response.writeHead(cachedRequests.conditional ? 304 : 200, { 'Content-Type': 'text/html', ETag: '"v1"' });
+    response.end(cachedRequests.conditional ? undefined : page('', 'Cached'));
+    return;
+  }
+  const test = cases[Number(request.url?.slice(1))];
+  response.writeHead(200, { 'Content-Type': 'text/html', ...(test?.header ? { 'X-Robots-Tag': test.header } : {}) });
+  response.end(page(test?.head));
+});
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+const serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+const dir = await mkdtemp(join(tmpdir(), 'content-test-'));
+
+try {
+  // Simple tests for pages that opt out of search
+  console.log('Testing noindex directives:');
+
+  for (const [index, test] of cases.entries()) {
+    let result: string | undefined;
+    try {
+      await fetchPageContent(`${serverUrl}/${index}`);
+    } catch (error) {
+      const { reason, message } = error as { reason?: string; message?: string };
+      result = reason === 'noindex' ? message?.replace(/^Excluded from search by (.*): .*$/, '$1') : String(message);
+    }
+    check(result === test.expected, `${test.name} → ${result ?? 'indexed'}`);
+  }
+
+  console.log('\nTesting page sources:');
+
+  // Saved pages are looked up as <path>.html, <path>/index.html and <path>
+  const contentDir = join(dir, 'pages');
+  await mkdir(join(contentDir, 'ps', 'guide'), { recursive: true });
+  await writeFile(join(contentDir, 'ps', 'guide.html'), page('', 'Guide file'));
+  await writeFile(join(contentDir, 'ps', 'guide', 'index.html'), page('', 'Guide directory'));
+  await writeFile(join(contentDir, 'ps', 'guide', 'setup'), page('', 'Setup'));
+  await writeFile(join(contentDir, 'index.html'), page('', 'Home'));
+
+  const sources = [
+    { path: '/ps/guide', expected: 'Guide file' },
+    { path: '/ps/guide/', expected: 'Guide file' },
+    { path: '/ps/guide/index.html', expected: 'Guide directory' },
+    { path: '/ps/guide/setup', expected: 'Setup' },
+    { path: '/', expected: 'Home' },
+    { path: '/ps/missing', expected: 'Page not found: https://developer.adobe.com/ps/missing' },
+  ];
+  for (const test of sources) {
+    let result: string;
+    try {
+      result = (await fetchPageContent(`https://developer.adobe.com${test.path}`, { contentDir })).title;
+    } catch (error) {
+      result = String((error as { message?: string }).message);
+    }
+    check(result === test.expected, `"${test.path}" is read from the content directory → ${result}`);
+  }
+
+  const cache = new PageCache(join(dir, 'cache'));
+  const first = await fetchPageContent(`${serverUrl}/cached`, { cache });
+  const second = await fetchPageContent(`${serverUrl}/cached`, { cache });
+  check(
+    cachedRequests.count === 2 && cachedRequests.conditional && second.title === first.title,
+    `A cached page is revalidated and read from the cache when unchanged → ${second.title}`
+  );
+} finally {
+  server.close();
+  await rm(dir, { recursive: true, force: true });
+}
+
+console.log('\nDone!');
@@ -1,11 +1,20 @@
-import cheerio from 'cheerio';
-import type { Element } from 'domhandler';
+import { readFile } from 'node:fs/promises';
+import { join, resolve, sep } from 'node:path';
 
-import type { SitemapUrl, PageContent, ContentSegment } from '../types/index';
+import { load } from 'cheerio';
+
+import type { CleaningRules, SitemapUrl, PageContent } from '../types/index';
+import { normalizeLanguage } from '../utils/locale';
 import { TaskQueue } from '../utils/queue';
+import { toLocalPath } from '../utils/resource';
 import { retry } from '../utils/retry';
+import { normalizeUrl, removeFragmentFromUrl } from '../utils/url';
 
-type CheerioRoot = ReturnType<typeof cheerio.load>;
+import { cleanDocument, DEFAULT_CLEANING_RULES, printCleaningReport } from './cleaning';
+import { extractMetadata, type CheerioRoot } from './extraction';
+import { findExtractor, genericExtractor } from './extractors';
+import { extractMarkdownContent, MARKDOWN_EXTRACTOR, readMarkdownSource } from './markdown';
+import type { PageCache } from './page-cache';
 
 export interface ContentAnalysis {
   url: string;
@@ -15,10 +24,37 @@ export interface ContentAnalysis {
   mainContentSelector: string;
 }
 
-async function fetchWithRetry(url: string): Promise<Response> {
+/**
+ * Options controlling where page HTML is read from.
+ */
+export interface PageFetchOptions {
+  /**
+   * Directory of saved HTML pages keyed by URL path. When set, pages are read from this directory
+   * instead of being fetched, e.g. `/photoshop/guides/` is read from `photoshop/guides/index.html`.
+   */
+  contentDir?: string;
+  /**
+   * Directory holding local checkouts of the docs repositories. When set, pages are extracted from the
+   * Markdown source their `githubblobpath` points to, and from the HTML when no source is found or the
+   * rendered page has content the source can't leave out (see `fetchPageContent`).
+   */
+  markdownRoot?: string;
+  /**
+   * Cache of fetched pages. When set, pages are fetched with conditional requests and unchanged pages are
+   * read from the cache.
+   */
+  cache?: PageCache;
+  /** Selectors of the page parts removed before extraction (defaults to `DEFAULT_CLEANING_RULES`) */
+  cleaning?: CleaningRules;
+  /** Whether to print the elements each cleaning rule removed from each page */
+  debugCleaning?: boolean;
+}
+
+async function fetchWithRetry(url: string, headers: Record<string, string> = {}): Promise<Response> {
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
+    const response = await fetch(url, { headers });
+    // A 304 answers a conditional request and is handled by the caller
+    if (!response.ok && response.status !== 304) {
       if (response.status === 404) {
         // Quietly skip 404s by throwing a skip error
         throw {
@@ -30,8 +66,8 @@ async function fetchWithRetry(url: string): Promise<Response> {
       // Only retry non-404 errors
       return await retry(
         async () => {
-          const retryResponse = await fetch(url);
-          if (!retryResponse.ok) {
+          const retryResponse = await fetch(url, { headers });
+          if (!retryResponse.ok && retryResponse.status !== 304) {
             throw new Error(`HTTP error! status: ${retryResponse.status}`);
           }
           return retryResponse;
@@ -58,600 +94,224 @@ async function fetchWithRetry(url: string): Promise<Response> {
 }
 
 /**
- * Comprehensive content cleaning function that properly handles HTML removal,
- * duplicate text detection, and text normalization in a single pass.
+ * Reads a page from a directory of saved HTML instead of the network. The URL path is looked up as
+ * `<path>.html`, `<path>/index.html` and `<path>` (in that order), and a missing page is reported with the
+ * same skip error as a 404 so offline runs behave like online ones.
  *
- * @param html - Raw HTML or text content to clean
- * @returns Clean, normalized text content
+ * @param url - The page URL; only its path is used
+ * @param contentDir - The directory holding the saved pages
+ * @returns A Response wrapping the saved HTML
  */
-const cleanContent = (html: string): string => {
-  if (!html) return '';
-
-  // Step 1: Remove complete elements that are never useful content
-  let content = html
-    // Remove scripts, styles, SVGs, and other non-content elements completely
-    .replace(/<(script|style|noscript|iframe|object|embed|svg)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
-    // Remove comments
-    .replace(/<!--[\s\S]*?-->/g, ' ')
-    // Remove specific UI elements with their content
-    .replace(/<nav[^>]*>[\s\S]*?<\/nav>/gi, ' ')
-    .replace(/<header[^>]*>[\s\S]*?<\/header>/gi, ' ')
-    .replace(/<footer[^>]*>[\s\S]*?<\/footer>/gi, ' ')
-    .replace(/<aside[^>]*>[\s\S]*?<\/aside>/gi, ' ')
-    .replace(/<form[^>]*>[\s\S]*?<\/form>/gi, ' ')
-    // Remove elements with UI-related classes or roles
-    .replace(
-      /<[^>]*(?:class|id)="[^"]*(?:menu|navigation|sidebar|toolbar|breadcrumb|pagination)[^"]*"[^>]*>[\s\S]*?<\/[^>]*>/gi,
-      ' '
-    )
-    .replace(/<[^>]*role="(?:navigation|complementary|banner|dialog)"[^>]*>[\s\S]*?<\/[^>]*>/gi, ' ');
-
-  // Step 1.5: Clean up special data attributes (like data-slots)
-  content = content
-    // Remove data-slots attributes that appear in text
-    .replace(/data-slots=\w+,\s*\w+/g, '')
-    // Remove other common data attributes that might appear in text
-    .replace(/data-\w+=["'][^"']*["']/g, '');
-
-  // Step 2: Preserve content but remove HTML tags
-  content = content
-    // First convert some elements to text patterns we want to preserve
-    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, _level, text) => `\n\n${text.trim()}\n\n`)
-    .replace(/<p[^>]*>([\s\S]*?)<\/p>/gi, (_, text) => `${text.trim()}\n\n`)
-    .replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, (_, text) => `• ${text.trim()}\n`)
-    .replace(/<tr[^>]*>([\s\S]*?)<\/tr>/gi, (_, text) => `${text.trim()}\n`)
-    .replace(/<br\s*\/?>/gi, '\n')
-    // Then remove all remaining HTML tags but keep their content
-    .replace(/<[^>]+>/g, ' ');
-
-  // Step 3: Decode HTML entities
-  content = content
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&#x2F;/g, '/')
-    .replace(/&[a-z0-9]+;/gi, ' '); // Handle any other entities
-
-  // Step 4: Normalize whitespace and improve text structure
-  content = content
-    // Normalize newlines
-    .replace(/\r\n?/g, '\n')
-    // Ensure consistent spacing around punctuation
-    .replace(/\s+([.,;:!?)])/g, '$1')
-    .replace(/([({])\s+/g, '$1')
-    // Normalize multiple spaces and newlines
-    .replace(/[ \t]+/g, ' ')
-    .replace(/\n{3,}/g, '\n\n')
-    .trim();
-
-  // Step 5: Split into sentences for deduplication
-  const sentences = content.split(/(?<=[.!?])\s+/);
-  const uniqueSentences: string[] = [];
-  const seen = new Set<string>();
-
-  for (const sentence of sentences) {
-    // Skip very short sentences or common UI text
-    const trimmed = sentence.trim();
-    if (trimmed.length < 10 || /^(click|view|learn more|see more|read more|next|previous)$/i.test(trimmed)) {
+async function readLocalPage(url: string, contentDir: string): Promise<Response> {
+  const root = toLocalPath(contentDir);
+  const pathname = decodeURIComponent(new URL(url).pathname).replace(/\/+$/, '');
+  const candidates = pathname ? [`${pathname}.html`, join(pathname, 'index.html'), pathname] : ['index.html'];
+
+  for (const candidate of candidates) {
+    const filePath = resolve(root, `.${sep}${candidate}`);
+
+    // Never read outside of the content directory
+    if (filePath !== root && !filePath.startsWith(root + sep)) {
       continue;
     }
 
-    // Normalize the sentence for comparison (lowercase, remove punctuation)
-    const normalized = trimmed.toLowerCase().replace(/[.,;:!?()[\]{}'"]/g, '');
-
-    // Skip if it's a duplicate or close variant
-    if (seen.has(normalized)) continue;
-
-    // Check for significant overlap with existing sentences
-    let isDuplicate = false;
-    for (const existing of seen) {
-      // If sentences are very similar (>80% overlap), consider it a duplicate
-      if (normalized.length > 20 && existing.length > 20) {
-        if (
-          normalized.includes(existing.substring(0, Math.floor(existing.length * 0.8))) ||
-          existing.includes(normalized.substring(0, Math.floor(normalized.length * 0.8)))
-        ) {
-          isDuplicate = true;
-          break;
-        }
-      }
+    try {
+      const html = await readFile(filePath, 'utf8');
+      return new Response(html, { status: 200, headers: { 'content-type': 'text/html' } });
+    } catch {
+      // Try the next candidate
     }
+  }
 
-    if (!isDuplicate) {
-      seen.add(normalized);
-      uniqueSentences.push(trimmed);
-    }
+  throw {
+    type: 'skip',
+    reason: '404',
+    message: `Page not found: ${url}`,
+  };
+}
+
+/**
+ * Fetches a page with a conditional request when a cached copy exists, reusing the cached copy if the server
+ * reports it as not modified and caching the page otherwise.
+ */
+async function fetchCached(url: string, cache: PageCache): Promise<Response> {
+  const cached = await cache.get(url);
+  const response = await fetchWithRetry(url, cache.getConditionalHeaders(cached));
+
+  if (response.status === 304 && cached) {
+    return cache.reuse(cached);
   }
 
-  // Step 6: Join unique sentences and do final cleanup
-  return (
-    uniqueSentences
-      .join(' ')
-      // Remove duplicate adjacent words (e.g., "the the")
-      .replace(/\b(\w+)\s+\1\b/gi, '$1')
-      // Remove common UI text that might have survived previous filters
-      .replace(/\b(click here|tap here|learn more|read more|view more|see details)\b/gi, '')
-      // Final whitespace cleanup
-      .replace(/\s+/g, ' ')
-      .trim()
-  );
-};
+  return response.ok ? cache.store(url, response) : response;
+}
 
 /**
- * Normalizes a heading by removing excess whitespace and unwanted characters.
+ * Loads a page's HTML from the configured source: a local directory of saved pages, or the network through
+ * the page cache when one is configured.
  */
-const normalizeHeading = (heading: string): string => {
-  if (!heading) return '';
-
-  return heading
-    .replace(/\s+/g, ' ')
-    .replace(/^[-–—•*]+\s*/, '') // Remove leading bullets or dashes
-    .replace(/\s*[-–—•*]+$/, '') // Remove trailing bullets or dashes
-    .trim();
-};
+function loadPage(url: string, options: PageFetchOptions): Promise<Response> {
+  if (options.contentDir) {
+    return readLocalPage(url, options.contentDir);
+  }
+  return options.cache ? fetchCached(url, options.cache) : fetchWithRetry(url);
+}
 
 /**
- * Extracts metadata from meta tags in the HTML document.
+ * Reads the canonical URL a page declares with `<link rel="canonical">`. Only the canonical path and query
+ * are used; the origin stays that of the page, since pages are fetched from the configured base URL rather
+ * than the host the canonical link names.
  *
  * @param $ - Cheerio instance containing the parsed HTML
- * @returns Object containing extracted metadata key-value pairs
+ * @param url - The URL the page was fetched from
+ * @returns The canonical URL, or undefined if the page declares none or declares itself
  */
-const extractMetadata = ($: CheerioRoot): Record<string, string> => {
-  const metadata: Record<string, string> = {};
-
-  // Process meta tags
-  $('meta').each(function (this: Element) {
-    const $el = $(this);
-    const name = $el.attr('name') || $el.attr('property');
-    const content = $el.attr('content');
+function getCanonicalUrl($: CheerioRoot, url: string): string | undefined {
+  const href = $('link[rel~="canonical"]').first().attr('href')?.trim();
+  if (!href) {
+    return undefined;
+  }
 
-    if (name && content) {
-      metadata[name] = content.trim();
+  try {
+    const canonical = new URL(href, url);
+    if (!/^https?:$/.test(canonical.protocol)) {
+      return undefined;
     }
-  });
 
-  // Add important metadata fields with fallbacks
-  metadata['source'] = metadata['source'] || '';
-  metadata['pathprefix'] = metadata['pathprefix'] || '';
-  metadata['githubblobpath'] = metadata['githubblobpath'] || '';
-  metadata['template'] = metadata['template'] || 'documentation';
-
-  // Extract Open Graph metadata
-  metadata['og_title'] = metadata['og:title'] || '';
-  metadata['og_description'] = metadata['og:description'] || '';
-  metadata['og_image'] = metadata['og:image'] || '';
-
-  // Add last modified date if available
-  const lastModified = metadata['last-modified'] || $('meta[name="last-modified"]').attr('content');
-  if (lastModified) {
-    metadata['lastModified'] = lastModified;
-  } else {
-    // Use current date as fallback
-    metadata['lastModified'] = new Date().toISOString();
+    const page = new URL(url);
+    const canonicalUrl = new URL(`${canonical.pathname}${canonical.search}`, page.origin).toString();
+    return normalizeUrl(canonicalUrl) !== normalizeUrl(removeFragmentFromUrl(url)) ? canonicalUrl : undefined;
+  } catch {
+    return undefined;
   }
+}
 
-  return metadata;
-};
+// Robots directives that take a value after a colon, as opposed to a user agent naming the crawler the
+// directives after it apply to
+const VALUE_DIRECTIVES = new Set(['unavailable_after', 'max-snippet', 'max-image-preview', 'max-video-preview']);
 
 /**
- * Extracts content segments from an HTML element, organizing content by headings.
- * Uses a more robust, simplified approach to ensure more accurate content association.
+ * Checks whether a list of robots directives, e.g. `noindex, nofollow`, keeps a page out of search. Directives
+ * scoped to a crawler, as in `googlebot: noindex`, address that crawler only and are ignored.
  *
- * @param $ - Cheerio instance
- * @param $root - Root cheerio element to extract segments from
- * @returns Array of ContentSegment objects
+ * @param directives - The content of a `robots` meta tag or an `X-Robots-Tag` header
+ * @returns True if the directives include `noindex` or `none` for all crawlers
  */
-const extractSegments = ($: CheerioRoot, $root: ReturnType<CheerioRoot>): ContentSegment[] => {
-  const segments: ContentSegment[] = [];
-
-  // First, create a clean clone of the content for processing
-  const $content = $root.clone();
-
-  // Remove elements that aren't content
-  $content
-    .find(
-      'nav, header, footer, .navigation, .menu, .sidebar, script, style, noscript, iframe, svg, form, button, [role="navigation"], [role="banner"], [aria-hidden="true"]'
-    )
-    .remove();
-
-  // Detect the type of page based on content structure
-  const isDocumentationPage =
-    $content.find('.markdown-body, .docs-container, .documentation, [data-slots], article, .article').length > 0;
-  const hasSections = $content.find('section').length > 3; // Multiple sections usually indicates a structured page
-
-  // Find all headings in the document and their positions
-  const headings: Array<{ heading: string; level: number; $element: ReturnType<typeof $> }> = [];
-
-  $content.find('h1, h2, h3, h4, h5, h6').each(function (this: Element) {
-    const $heading = $(this);
-    const level = parseInt($heading.prop('tagName').substring(1), 10);
-    const text = normalizeHeading($heading.text());
-
-    // Skip empty, duplicate, or navigation-like headings
-    if (
-      !text ||
-      headings.some((h) => h.heading === text) ||
-      /^(?:navigation|menu|links|related|see also|quick links|resources|tools|more|get started)$/i.test(text)
-    ) {
-      return;
-    }
-
-    headings.push({
-      heading: text,
-      level,
-      $element: $heading,
-    });
-  });
-
-  // If we found no headings, return an empty array
-  if (headings.length === 0) {
-    return segments;
-  }
-
-  // Map to track headings we've already processed to avoid duplicates
-  const processedHeadings = new Set<string>();
-
-  // Special handling for documentation pages with links
-  if (isDocumentationPage) {
-    // First, process the main heading and introduction content
-    if (headings.length > 0 && headings[0].level === 1) {
-      const mainHeading = headings[0];
-      let introContent = '';
-
-      // Gather introduction content (everything until the next heading)
-      let $nextElement = mainHeading.$element.next();
-      while ($nextElement.length && !$nextElement.is('h1, h2, h3, h4, h5, h6')) {
-        if (!$nextElement.is('script, style, iframe, button, form, nav, aside')) {
-          // Add to intro content
-          introContent += $nextElement.text() + ' ';
-        }
-
-        $nextElement = $nextElement.next();
-      }
-
-      // Clean and add the intro segment
-      const cleanedIntro = cleanContent(introContent);
-      if (cleanedIntro && cleanedIntro.length >= 50) {
-        segments.push({
-          heading: mainHeading.heading,
-          content: cleanedIntro,
-          level: mainHeading.level,
-        });
-
-        processedHeadings.add(mainHeading.heading);
-      }
+function hasNoindex(directives: string): boolean {
+  let scoped = false;
+  for (const part of directives.split(',')) {
+    let directive = part.trim().toLowerCase();
+    const agent = /^([\w-]+)\s*:\s*(.*)$/.exec(directive);
+    if (agent && !VALUE_DIRECTIVES.has(agent[1])) {
+      scoped = true;
+      directive = agent[2];
     }
-
-    // Then process links and other structured content as separate segments
-    if ($content.find('a').length > 5) {
-      // If the page has several links
-      // Find all sections that contain links with text
-      const processedLinkTexts = new Set<string>(); // Track processed link texts to avoid duplication
-
-      $content.find('a').each(function (this: Element) {
-        const $link = $(this);
-        const $linkParent = $link.parent();
-        const linkText = $link.text().trim();
-
-        // Skip navigation links and already processed links
-        if (
-          $linkParent.is('nav') ||
-          $linkParent.closest('nav').length ||
-          linkText.length < 10 ||
-          processedLinkTexts.has(linkText)
-        ) {
-          return;
-        }
-
-        // Mark this link as processed
-        processedLinkTexts.add(linkText);
-
-        // Find the nearest heading for this link
-        let linkHeading = null;
-        let $currentElement = $link;
-
-        // Look up for the nearest heading
-        while ($currentElement.length && !linkHeading) {
-          $currentElement = $currentElement.prev();
-
-          if ($currentElement.is('h1, h2, h3, h4, h5, h6')) {
-            linkHeading = normalizeHeading($currentElement.text());
-            break;
-          }
-        }
-
-        // If no heading found above, look for the previous heading in the document
-        if (!linkHeading) {
-          for (let i = headings.length - 1; i >= 0; i--) {
-            if ($link.index() > headings[i].$element.index()) {
-              linkHeading = headings[i].heading;
-              break;
-            }
-          }
-        }
-
-        // If still no heading, use the first heading or a default
-        if (!linkHeading && headings.length > 0) {
-          linkHeading = headings[0].heading;
-        }
-
-        if (linkHeading) {
-          // Get surrounding text content
-          const $contextParent = $link.closest('p, div, section, article');
-          let contextContent = '';
-
-          if ($contextParent.length) {
-            contextContent = cleanContent($contextParent.text());
-          } else {
-            // If no context parent, get a reasonable context from siblings
-            const $prev = $link.prev();
-            const $next = $link.next();
-
-            contextContent = ($prev.text() + ' ' + $link.text() + ' ' + $next.text()).trim();
-            contextContent = cleanContent(contextContent);
-          }
-
-          // Only add if we have meaningful content
-          if (contextContent && contextContent.length >= 50) {
-            // Check if we already have this heading in a segment
-            const existingSegmentIndex = segments.findIndex((s) => s.heading === linkHeading);
-
-            if (existingSegmentIndex >= 0) {
-              // If the content doesn't already exist in this segment, add it
-              if (!segments[existingSegmentIndex].content.includes(contextContent)) {
-                segments[existingSegmentIndex].content += ' ' + contextContent;
-              }
-            } else {
-              // Find the level of this heading
-              const headingObj = headings.find((h) => h.heading === linkHeading);
-
-              segments.push({
-                heading: linkHeading,
-                content: contextContent,
-                level: headingObj ? headingObj.level : 2, // Default to h2 if not found
-              });
-
-              processedHeadings.add(linkHeading);
-            }
-          }
-        }
-      });
+    if (!scoped && (directive === 'noindex' || directive === 'none')) {
+      return true;
     }
   }
+  return false;
+}
 
-  // Process the remaining headings in a traditional way
-  for (let i = 0; i < headings.length; i++) {
-    const current = headings[i];
-
-    // Skip if we've already processed this heading
-    if (processedHeadings.has(current.heading)) {
-      continue;
-    }
-
-    // Mark this heading as processed
-    processedHeadings.add(current.heading);
-
-    let contentElements = [];
-
-    // Get all elements between this heading and the next
-    let $nextElement = current.$element.next();
-    while (
-      $nextElement.length &&
-      (!$nextElement.is('h1, h2, h3, h4, h5, h6') || headings.every((h) => !h.$element.is($nextElement)))
-    ) {
-      // Skip elements that are likely not content
-      if (!$nextElement.is('script, style, iframe, button, form, nav, aside')) {
-        contentElements.push($nextElement.clone());
-      }
-
-      $nextElement = $nextElement.next();
-    }
-
-    // Create a container to hold all the content
-    const $container = $('<div>');
-    contentElements.forEach(($el) => $container.append($el));
-
-    // Clean the content text
-    const contentText = cleanContent($container.text());
-
-    // Only add the segment if it has substantial content
-    if (contentText && contentText.length >= 30) {
-      segments.push({
-        heading: current.heading,
-        content: contentText,
-        level: current.level,
-      });
-    }
+/**
+ * Checks whether a page asks to be left out of search, with a `robots` meta tag, an `X-Robots-Tag` header
+ * or the `hide-from-search` meta flag set by the docs theme.
+ *
+ * @param metadata - The page's metadata as read by `extractMetadata`
+ * @param response - The response the page was read from
+ * @returns The directive that excludes the page, or undefined if the page may be indexed
+ */
+function getNoindexDirective(metadata: Record<string, string>, response: Response): string | undefined {
+  if (hasNoindex(metadata['robots'] || '')) {
+    return 'meta robots';
   }
-
-  // Handle case where there's content before the first heading
-  if (headings.length > 0 && segments.length > 0) {
-    const firstHeadingPos = $content.find('*').index(headings[0].$element);
-
-    if (firstHeadingPos > 2) {
-      // Has substantial content before first heading
-      const $preHeadingContent = $('<div>');
-      let $current = $content.children().first();
-
-      while ($current.length && !$current.is(headings[0].$element)) {
-        if (!$current.is('script, style, iframe, button, form, nav, aside')) {
-          $preHeadingContent.append($current.clone());
-        }
-        $current = $current.next();
-      }
-
-      const preHeadingText = cleanContent($preHeadingContent.text());
-
-      if (preHeadingText && preHeadingText.length >= 50) {
-        // Check if we already have a segment with the first heading
-        const firstHeadingSegmentIndex = segments.findIndex((s) => s.heading === headings[0].heading);
-
-        if (firstHeadingSegmentIndex >= 0) {
-          // Combine the pre-heading content with the existing segment
-          segments[firstHeadingSegmentIndex].content =
-            preHeadingText + ' ' + segments[firstHeadingSegmentIndex].content;
-        } else {
-          // If there's significant content before the first heading, add it as a segment
-          // with a unique prefix to avoid duplication
-          segments.unshift({
-            heading: segments[0].heading,
-            content: preHeadingText,
-            level: segments[0].level,
-          });
-        }
-      }
-    }
+  if (hasNoindex(response.headers.get('x-robots-tag') || '')) {
+    return 'X-Robots-Tag';
   }
 
-  // Special handling for sections that might contain meaningful structured content
-  if (hasSections) {
-    $content.find('section').each(function (this: Element) {
-      const $section = $(this);
-
-      // Skip if this is a navigation, header, or footer section
-      if (
-        $section.is('[role="navigation"], [role="banner"], [role="contentinfo"]') ||
-        $section.hasClass('navigation') ||
-        $section.hasClass('footer') ||
-        $section.hasClass('header')
-      ) {
-        return;
-      }
-
-      // Try to find a heading within this section
-      let sectionHeading = null;
-      let headingLevel = 2; // Default level if no heading found
-
-      const $sectionHeading = $section.find('h1, h2, h3, h4, h5, h6').first();
-      if ($sectionHeading.length) {
-        sectionHeading = normalizeHeading($sectionHeading.text());
-        headingLevel = parseInt($sectionHeading.prop('tagName').substring(1), 10);
-      }
-
-      // If no heading in section, look for other identifiers like strong text or class names
-      if (!sectionHeading) {
-        const $strong = $section.find('strong').first();
-        if ($strong.length) {
-          sectionHeading = normalizeHeading($strong.text());
-        } else {
-          // Try to use section class name as heading
-          const className = $section.attr('class');
-          if (className) {
-            const mainClass = className.split(' ')[0].replace(/-/g, ' ');
-            if (mainClass && mainClass.length > 3) {
-              sectionHeading = normalizeHeading(mainClass);
-            }
-          }
-        }
-      }
-
-      // If we found a heading and it's not already processed
-      if (sectionHeading && !processedHeadings.has(sectionHeading)) {
-        // Get the content of this section excluding any navigation elements
-        const $sectionContent = $section.clone();
-        $sectionContent.find('nav, .navigation, [role="navigation"]').remove();
-
-        const sectionText = cleanContent($sectionContent.text());
-
-        // Only add if we have meaningful content
-        if (sectionText && sectionText.length >= 50) {
-          segments.push({
-            heading: sectionHeading,
-            content: sectionText,
-            level: headingLevel,
-          });
-
-          processedHeadings.add(sectionHeading);
-        }
-      }
-    });
+  const hideFromSearch = metadata['hide-from-search'];
+  if (hideFromSearch !== undefined && !/^(?:false|no|0)$/i.test(hideFromSearch)) {
+    return 'hide-from-search';
   }
 
-  // Ensure unique segments by combining any with the same heading
-  const uniqueSegments: ContentSegment[] = [];
-  const segmentsByHeading = new Map<string, ContentSegment>();
-
-  segments.forEach((segment) => {
-    if (segmentsByHeading.has(segment.heading)) {
-      // Combine content with existing segment
-      const existing = segmentsByHeading.get(segment.heading)!;
-      existing.content = `${existing.content} ${segment.content}`.trim();
-    } else {
-      segmentsByHeading.set(segment.heading, { ...segment });
-    }
-  });
-
-  // Convert map back to array
-  segmentsByHeading.forEach((segment) => uniqueSegments.push(segment));
-
-  return uniqueSegments;
-};
+  return undefined;
+}
 
 /**
+ * Fetches a page and extracts its metadata, headings, segments and cleaned main content. The content is
+ * read by the extractor registered for the page's template, URL or markup (see `findExtractor`), or from the
+ * page's Markdown source when a Markdown root is configured and no dedicated extractor applies. Pages with
+ * `data-search-ignore` regions or elements removed by custom cleaning rules are read from the HTML instead,
+ * since their Markdown source still has that content.
+ *
+ * Pages that opt out of search are reported with a `noindex` skip error, which carries the canonical URL the
+ * page declares, if any. Elements marked with `data-search-ignore` and elements matched by the cleaning rules are
+ * removed before the content is extracted.
  *
+ * @param url - The URL of the page to process
+ * @param options - Where to read the page from (defaults to the network) and how to clean it
+ * @returns The structured page content
  */
-export async function fetchPageContent(url: string): Promise<PageContent> {
+export async function fetchPageContent(url: string, options: PageFetchOptions = {}): Promise<PageContent> {
   try {
-    const response = await fetchWithRetry(url);
+    const response = await loadPage(url, options);
     const html = await response.text();
-    const $ = cheerio.load(html);
+    const $ = load(html);
 
     // Extract metadata
     const metadata = extractMetadata($);
+    const language = normalizeLanguage($('html').attr('lang'));
+    const canonicalUrl = getCanonicalUrl($, url);
+
+    const noindex = getNoindexDirective(metadata, response);
+    if (noindex) {
+      throw {
+        type: 'skip',
+        reason: 'noindex',
+        message: `Excluded from search by ${noindex}: ${url}`,
+        // Records of the page are keyed on its canonical URL, so that is the URL to delete them by
+        canonicalUrl,
+      };
+    }
 
-    // Find main content container
-    const $main = $('main').length
-      ? $('main')
-      : $('article').length
-        ? $('article')
-        : $('.content').length
-          ? $('.content')
-          : $('#content').length
-            ? $('#content')
-            : $('body');
-
-    // Extract title with better fallbacks
-    const title =
-      $('title').text().trim() || $('h1').first().text().trim() || metadata['og:title'] || metadata['og_title'] || '';
-
-    // Extract headings, filtering out empty ones
-    const headings = $main
-      .find('h1, h2, h3, h4, h5, h6')
-      .map((_, el) => normalizeHeading($(el).text()))
-      .get()
-      .filter((heading) => heading.length > 0);
-
-    // Extract segments
-    const segments = extractSegments($, $main);
-
-    // Get main content with template data removed
-    const mainContent = cleanContent($main.html() || '');
-
-    // Get description with better fallbacks
-    const description =
-      metadata['description'] ||
-      metadata['og:description'] ||
-      metadata['og_description'] ||
-      cleanContent($main.find('p').first().text()) ||
-      mainContent.slice(0, 200) ||
-      '';
-
-    // Track content structure
-    const structure = {
-      hasHeroSection: $main.find('.herosimple').length > 0,
-      hasDiscoverBlocks: $main.find('.discoverblock').length > 0,
-      contentTypes: Array.from(
-        new Set(
-          $main
-            .find('[class]')
-            .map((_, el) => $(el).attr('class'))
-            .get()
-        )
-      ),
-    };
+    // Parts of the page marked by authors as not searchable never reach the extractors
+    const $ignored = $('[data-search-ignore]').not('[data-search-ignore="false"]');
+    const hasIgnoredRegions = $ignored.length > 0;
+    $ignored.remove();
+
+    // Remove site chrome such as navigation and sidebars so extractors only see the page's content
+    const cleaning = cleanDocument($, options.cleaning || DEFAULT_CLEANING_RULES);
+    if (options.debugCleaning) {
+      printCleaningReport(url, cleaning);
+    }
+
+    // Extract the content with the extractor registered for the page's template, path or markup,
+    // falling back to the Markdown source and then the generic extractor when it finds nothing it handles
+    const loadResource = (resourceUrl: string): Promise<Response> => loadPage(resourceUrl, options);
+    const extractor = findExtractor(url, metadata, $);
+    let extractorName = extractor.name;
+    let extracted = extractor === genericExtractor ? null : await extractor.extract($, metadata, url, loadResource);
+
+    // Pages without a dedicated extractor are read from their Markdown source when it is available. The source
+    // still holds the regions marked with data-search-ignore and whatever custom cleaning rules remove, so pages
+    // with either are read from the cleaned HTML instead; the default rules only remove site chrome, which the
+    // source doesn't have
+    const hasCustomRemovals = cleaning.some(
+      ({ selector, removed }) => removed.length > 0 && !DEFAULT_CLEANING_RULES.remove.includes(selector)
+    );
+    if (!extracted && options.markdownRoot && !hasIgnoredRegions && !hasCustomRemovals) {
+      const markdown = await readMarkdownSource(metadata['githubblobpath'], options.markdownRoot);
+      if (markdown !== null) {
+        extracted = extractMarkdownContent(markdown, metadata, $('title').text().trim());
+        extractorName = MARKDOWN_EXTRACTOR;
+      }
+    }
+
+    if (!extracted) {
+      extracted = (await genericExtractor.extract($, metadata, url, loadResource))!;
+      extractorName = genericExtractor.name;
+    }
+    const { title, headings, headingLevels, segments, codeSamples, operations, mainContent, description, structure } =
+      extracted;
 
     // Log warnings or errors for failed fetches but don't fail the entire process
     if (!response) {
@@ -700,13 +360,14 @@ export async function fetchPageContent(url: string): Promise<PageContent> {
     }
 
     // Check if we found meaningful content (only warn for non-nav pages)
-    if (mainContent.trim().length < 100) {
+    if (mainContent.trim().length < 100 && !operations?.length) {
       // Only warn about no content if it's not a navigation page
       if (!url.endsWith('/nav')) {
         console.warn(`No meaningful content found for ${url}`);
       }
       return {
         url,
+        canonicalUrl,
         title,
         content: '',
         mainContent: '',
@@ -714,35 +375,77 @@ export async function fetchPageContent(url: string): Promise<PageContent> {
         segments: [],
         metadata,
         headings,
+        headingLevels,
+        language,
+        extractor: extractorName,
         structure,
       };
     }
 
     return {
       url,
+      canonicalUrl,
       title,
       mainContent,
       content: mainContent || '', // Ensure content is always defined
       description,
       segments,
+      codeSamples,
+      operations,
       headings,
+      headingLevels,
       metadata,
+      language,
+      extractor: extractorName,
       structure,
     };
   } catch (error) {
+    if (error && typeof error === 'object' && 'type' in error) {
+      throw error; // Skip errors are reported by the caller
+    }
     console.error(`Error fetching content for ${url}:`, error);
     throw error;
   }
 }
 
+/**
+ * Fetches a page and returns the absolute URLs of every link on it, without fragments.
+ *
+ * @param url - The URL of the page to read links from
+ * @param options - Where to read the page from (defaults to the network)
+ * @returns The unique link targets found on the page
+ */
+export async function fetchPageLinks(url: string, options: PageFetchOptions = {}): Promise<string[]> {
+  const response = await loadPage(url, options);
+  const $ = load(await response.text());
+
+  const links = new Set<string>();
+  $('a[href]').each((_, element) => {
+    const href = $(element).attr('href');
+    if (!href || /^(?:mailto|tel|javascript):/i.test(href)) {
+      return;
+    }
+
+    try {
+      const link = new URL(href, url);
+      link.hash = '';
+      links.add(link.toString());
+    } catch {
+      // Ignore malformed links
+    }
+  });
+
+  return Array.from(links);
+}
+
 /**
  *
  */
-export async function analyzeContent(url: string): Promise<ContentAnalysis> {
+export async function analyzeContent(url: string, options: PageFetchOptions = {}): Promise<ContentAnalysis> {
   try {
-    const response = await fetchWithRetry(url);
+    const response = await loadPage(url, options);
     const html = await response.text();
-    const $ = cheerio.load(html);
+    const $ = load(html);
 
     // Analyze potential main content containers
     const containers = [
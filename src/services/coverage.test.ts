@@ -0,0 +1,182 @@
+import type { CoverageReport } from './coverage';
+import { addUnmatchedUrl, buildMappingPatch, mergeCoverageReports, suggestIndices } from './coverage';
+import { ProductMappingService } from './product-mapping';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+const baseUrl = 'https://developer.adobe.com';
+
+const productMappingService = new ProductMappingService();
+await productMappingService.initialize(
+  JSON.stringify([
+    {
+      productName: 'Express',
+      productIndices: [
+        { indexName: 'Express', indexPathPrefix: '/express/add-ons' },
+        { indexName: 'express-2', indexPathPrefix: '/express/embed-sdk' },
+      ],
+    },
+  ])
+);
+const isExcluded = (path: string): boolean => productMappingService.shouldExcludePath(path);
+
+/**
+ * Builds a coverage report holding the given unmatched URLs.
+ */
+const report = (paths: string[], overrides: Partial<CoverageReport> = {}): CoverageReport => {
+  const unmatchedPrefixes: CoverageReport['unmatchedPrefixes'] = [];
+  paths.forEach((path) => addUnmatchedUrl(unmatchedPrefixes, `${baseUrl}${path}`));
+  return {
+    createdAt: '2026-10-19T00:00:00.000Z',
+    total: paths.length,
+    matched: 0,
+    skipped: 0,
+    unmatched: paths.length,
+    disallowed: 0,
+    skippedByRule: {},
+    prefixes: [],
+    unmatchedPrefixes,
+    ...overrides,
+  };
+};
+
+const suggestions = (coverage: CoverageReport): string =>
+  JSON.stringify(
+    coverage.unmatchedPrefixes.map(({ pathPrefix, suggestedIndex, conflictsWith }) => [
+      pathPrefix,
+      suggestedIndex,
+      conflictsWith,
+    ])
+  );
+
+// Simple tests for the proposed indices
+console.log('Testing suggestIndices function:');
+
+const single = report([
+  '/commerce/guide',
+  '/Commerce/guide',
+  '/express/guide',
+  '/express/api',
+  '/express/tools/',
+  '/nav/a',
+  '/nav/b',
+  '/Commerce/api',
+  '/lightroom/',
+  '/commerce/api',
+]);
+suggestIndices(single.unmatchedPrefixes, productMappingService.getUniqueIndices(), isExcluded);
+check(
+  suggestions(single) ===
+    JSON.stringify([
+      ['/express', 'express-3', 'express'],
+      ['/commerce', 'commerce', null],
+      ['/Commerce', 'commerce-2', 'commerce'],
+      ['/nav', null, null],
+      ['/lightroom', null, null],
+    ]),
+  `Names taken by an existing index or an earlier suggestion, in any case, get a numeric suffix → ${suggestions(single)}`
+);
+check(
+  JSON.stringify(single.unmatchedPrefixes.find(({ pathPrefix }) => pathPrefix === '/express')?.examples) ===
+    JSON.stringify([`${baseUrl}/express/guide`, `${baseUrl}/express/api`, `${baseUrl}/express/tools/`]),
+  'Each prefix keeps its first URLs as examples'
+);
+
+console.log('\nTesting mergeCoverageReports function:');
+
+const first = report(['/express/guide', '/express/api', '/lightroom/a'], {
+  matched: 2,
+  total: 5,
+  skippedByRule: { '/**/drafts/*': 1 },
+  prefixes: [
+    {
+      productName: 'Express',
+      indexName: 'Express',
+      pathPrefix: '/express/add-ons',
+      matched: 2,
+      examples: [`${baseUrl}/express/add-ons/a`, `${baseUrl}/express/add-ons/b`],
+    },
+  ],
+});
+const second = report(['/express/api', '/express/tools', '/lightroom/b'], {
+  matched: 3,
+  total: 6,
+  skipped: 1,
+  disallowed: 1,
+  skippedByRule: { '/**/drafts/*': 2, '/**/nav': 1 },
+  prefixes: [
+    {
+      productName: 'Express',
+      indexName: 'Express',
+      pathPrefix: '/express/add-ons',
+      matched: 2,
+      examples: [`${baseUrl}/express/add-ons/b`, `${baseUrl}/express/add-ons/c`],
+    },
+    {
+      productName: 'Express',
+      indexName: 'express-2',
+      pathPrefix: '/express/embed-sdk',
+      matched: 1,
+      examples: [`${baseUrl}/express/embed-sdk/`],
+    },
+  ],
+});
+const firstBefore = JSON.stringify(first);
+
+const merged = mergeCoverageReports([first, second], productMappingService.getUniqueIndices(), isExcluded);
+check(
+  merged.total === 11 &&
+    merged.matched === 5 &&
+    merged.unmatched === 6 &&
+    merged.skipped === 1 &&
+    merged.disallowed === 1 &&
+    JSON.stringify(merged.skippedByRule) === JSON.stringify({ '/**/drafts/*': 3, '/**/nav': 1 }),
+  'Counts of every source are added up'
+);
+check(
+  JSON.stringify(merged.prefixes.map(({ indexName, matched }) => [indexName, matched])) ===
+    JSON.stringify([
+      ['Express', 4],
+      ['express-2', 1],
+    ]) &&
+    JSON.stringify(merged.prefixes[0]?.examples) ===
+      JSON.stringify([`${baseUrl}/express/add-ons/a`, `${baseUrl}/express/add-ons/b`, `${baseUrl}/express/add-ons/c`]),
+  'Rules are combined, with their examples kept once'
+);
+check(
+  suggestions(merged) ===
+    JSON.stringify([
+      ['/express', 'express-3', 'express'],
+      ['/lightroom', 'lightroom', null],
+    ]),
+  `Indices are proposed for the combined URLs → ${suggestions(merged)}`
+);
+check(JSON.stringify(first) === firstBefore, 'The source reports are left as they were');
+
+console.log('\nTesting buildMappingPatch function:');
+
+const patch = buildMappingPatch(
+  report(['/developer-tools_kit/a', '/developer-tools_kit/b', '/express/a', '/express/b', '/single/'])
+);
+check(patch.length === 0, 'Reports without suggestions propose nothing');
+
+const suggested = report(['/developer-tools_kit/a', '/developer-tools_kit/b', '/express/a', '/express/b', '/single/']);
+suggestIndices(suggested.unmatchedPrefixes, productMappingService.getUniqueIndices(), isExcluded);
+check(
+  JSON.stringify(buildMappingPatch(suggested)) ===
+    JSON.stringify([
+      {
+        productName: 'Developer Tools Kit',
+        productIndices: [{ indexName: 'developer-tools_kit', indexPathPrefix: '/developer-tools_kit' }],
+      },
+      { productName: 'Express', productIndices: [{ indexName: 'express-3', indexPathPrefix: '/express' }] },
+    ]),
+  `Each suggested index becomes a product named after its prefix → ${JSON.stringify(buildMappingPatch(suggested))}`
+);
+
+console.log('\nDone!');
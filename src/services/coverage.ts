@@ -0,0 +1,205 @@
+import type { ProductIndexMapping } from '../types/index';
+
+// Example URLs kept per prefix
+const MAX_EXAMPLES = 3;
+
+/**
+ * How many sitemap URLs one product index rule receives.
+ */
+export interface PrefixCoverage {
+  productName: string;
+  indexName: string;
+  /** The index path prefix of the rule, without a trailing slash */
+  pathPrefix: string;
+  /** Number of URLs the rule wins */
+  matched: number;
+  /** The first few URLs it wins */
+  examples: string[];
+}
+
+/**
+ * Sitemap URLs under one top-level path that no rule matches.
+ */
+export interface UnmatchedPrefix {
+  /** The first path segment, e.g. `/express` */
+  pathPrefix: string;
+  /** Number of URLs under the prefix that no rule matches */
+  unmatched: number;
+  /** The first few of those URLs */
+  examples: string[];
+  /** The index proposed for the prefix, or null if it isn't worth one (a single URL) */
+  suggestedIndex: string | null;
+  /** The name the suggestion would have had if no existing index used it */
+  conflictsWith: string | null;
+}
+
+/**
+ * Machine-readable results of matching sitemap URLs against the product mapping.
+ */
+export interface CoverageReport {
+  createdAt: string;
+  total: number;
+  matched: number;
+  skipped: number;
+  unmatched: number;
+  disallowed: number;
+  /** URLs skipped by each exclusion rule; per-index rules are keyed as "index: pattern" */
+  skippedByRule: Record<string, number>;
+  /** Every rule of the active indices, in mapping order */
+  prefixes: PrefixCoverage[];
+  /** Unmatched URLs grouped by first path segment, most URLs first */
+  unmatchedPrefixes: UnmatchedPrefix[];
+}
+
+/**
+ * Keeps a URL as an example unless enough examples are kept already.
+ *
+ * @param examples - The examples kept so far.
+ * @param url - The URL to keep.
+ */
+export function addExample(examples: string[], url: string): void {
+  if (examples.length < MAX_EXAMPLES && !examples.includes(url)) {
+    examples.push(url);
+  }
+}
+
+/**
+ * Records an unmatched URL under its first path segment.
+ *
+ * @param unmatchedPrefixes - The groups of unmatched URLs so far.
+ * @param url - The unmatched sitemap URL.
+ */
+export function addUnmatchedUrl(unmatchedPrefixes: UnmatchedPrefix[], url: string): void {
+  const segments = new URL(url).pathname.split('/').filter(Boolean);
+  if (segments.length === 0) {
+    return;
+  }
+
+  const pathPrefix = `/${segments[0]}`;
+  let group = unmatchedPrefixes.find((candidate) => candidate.pathPrefix === pathPrefix);
+  if (!group) {
+    group = { pathPrefix, unmatched: 0, examples: [], suggestedIndex: null, conflictsWith: null };
+    unmatchedPrefixes.push(group);
+  }
+  group.unmatched++;
+  addExample(group.examples, url);
+}
+
+/**
+ * Sorts the unmatched prefixes by URL count and proposes an index for each prefix with more than one URL,
+ * named after the prefix. Names are compared case-insensitively with the existing indices and with each
+ * other, and a taken name gets a numeric suffix (`express-2`).
+ *
+ * @param unmatchedPrefixes - The groups of unmatched URLs, updated in place.
+ * @param existingIndices - The index names already in the mapping, from getUniqueIndices().
+ * @param isExcluded - Whether the exclusion rules cover a prefix, in which case nothing is proposed for it.
+ */
+export function suggestIndices(
+  unmatchedPrefixes: UnmatchedPrefix[],
+  existingIndices: Set<string>,
+  isExcluded: (path: string) => boolean
+): void {
+  unmatchedPrefixes.sort((a, b) => b.unmatched - a.unmatched);
+
+  const taken = new Set(Array.from(existingIndices, (name) => name.toLowerCase()));
+  for (const group of unmatchedPrefixes) {
+    group.suggestedIndex = null;
+    group.conflictsWith = null;
+    if (group.unmatched < 2 || isExcluded(group.pathPrefix)) {
+      continue;
+    }
+
+    const name = group.pathPrefix.slice(1).toLowerCase();
+    let suggestion = name;
+    for (let suffix = 2; taken.has(suggestion); suffix++) {
+      suggestion = `${name}-${suffix}`;
+    }
+    taken.add(suggestion);
+    group.suggestedIndex = suggestion;
+    group.conflictsWith = suggestion !== name ? name : null;
+  }
+}
+
+/**
+ * Combines the coverage reports of several sitemap sources into one. URLs listed by several sources are
+ * counted once per source, like the analysis of each source counts them.
+ *
+ * @param reports - The reports to combine, at least one.
+ * @param existingIndices - The index names already in the mapping, for the merged suggestions.
+ * @param isExcluded - Whether the exclusion rules cover a prefix.
+ * @returns The combined report.
+ */
+export function mergeCoverageReports(
+  reports: CoverageReport[],
+  existingIndices: Set<string>,
+  isExcluded: (path: string) => boolean
+): CoverageReport {
+  const [first, ...rest] = reports;
+  const merged: CoverageReport = {
+    ...first,
+    skippedByRule: { ...first.skippedByRule },
+    prefixes: first.prefixes.map((prefix) => ({ ...prefix, examples: [...prefix.examples] })),
+    unmatchedPrefixes: first.unmatchedPrefixes.map((group) => ({ ...group, examples: [...group.examples] })),
+  };
+
+  for (const report of rest) {
+    merged.total += report.total;
+    merged.matched += report.matched;
+    merged.skipped += report.skipped;
+    merged.unmatched += report.unmatched;
+    merged.disallowed += report.disallowed;
+    for (const [rule, count] of Object.entries(report.skippedByRule)) {
+      merged.skippedByRule[rule] = (merged.skippedByRule[rule] || 0) + count;
+    }
+
+    for (const prefix of report.prefixes) {
+      const existing = merged.prefixes.find(
+        (candidate) =>
+          candidate.productName === prefix.productName &&
+          candidate.indexName === prefix.indexName &&
+          candidate.pathPrefix === prefix.pathPrefix
+      );
+      if (existing) {
+        existing.matched += prefix.matched;
+        prefix.examples.forEach((url) => addExample(existing.examples, url));
+      } else {
+        merged.prefixes.push({ ...prefix, examples: [...prefix.examples] });
+      }
+    }
+
+    for (const group of report.unmatchedPrefixes) {
+      const existing = merged.unmatchedPrefixes.find((candidate) => candidate.pathPrefix === group.pathPrefix);
+      if (existing) {
+        existing.unmatched += group.unmatched;
+        group.examples.forEach((url) => addExample(existing.examples, url));
+      } else {
+        merged.unmatchedPrefixes.push({ ...group, examples: [...group.examples] });
+      }
+    }
+  }
+
+  suggestIndices(merged.unmatchedPrefixes, existingIndices, isExcluded);
+  return merged;
+}
+
+/**
+ * Builds the product mapping entries that add the suggested indices, in the format of `product-index-map.json`.
+ * Each suggestion becomes a product of its own, named after the prefix, for the doc owner to rename or move
+ * under an existing product before proposing it to the mapping repository.
+ *
+ * @param report - The coverage report holding the suggestions.
+ * @returns The entries to append to the product mapping.
+ */
+export function buildMappingPatch(report: CoverageReport): ProductIndexMapping[] {
+  return report.unmatchedPrefixes
+    .filter((group) => group.suggestedIndex !== null)
+    .map((group) => ({
+      productName: group.pathPrefix
+        .slice(1)
+        .split(/[-_]/)
+        .filter(Boolean)
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' '),
+      productIndices: [{ indexName: group.suggestedIndex!, indexPathPrefix: group.pathPrefix }],
+    }));
+}
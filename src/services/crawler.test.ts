@@ -0,0 +1,107 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { crawlSite, getCrawlSeeds } from './crawler';
+import { ProductMappingService } from './product-mapping';
+import { parseRobotsTxt } from './robots';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+const baseUrl = 'https://developer.adobe.com';
+const links = (hrefs: string[]): string =>
+  `<html><body>${hrefs.map((href) => `<a href="${href}">${href}</a>`).join('')}</body></html>`;
+
+const dir = await mkdtemp(join(tmpdir(), 'crawler-test-'));
+
+try {
+  // Simple tests for the link-discovery crawl
+  console.log('Testing crawlSite:');
+
+  const contentDir = join(dir, 'pages');
+  await mkdir(join(contentDir, 'ps'), { recursive: true });
+  await writeFile(
+    join(contentDir, 'ps', 'index.html'),
+    links([
+      '/ps/a',
+      'b#section',
+      'https://example.com/ps/external',
+      '/ps/logo.png',
+      '/ps/drafts/page',
+      '/ps/private/page',
+      '/ps/gone',
+      'mailto:docs@example.com',
+    ])
+  );
+  await writeFile(join(contentDir, 'ps', 'a.html'), links(['/ps/deep', '/ps/b/']));
+  await writeFile(join(contentDir, 'ps', 'b.html'), links(['/ps/a']));
+  await writeFile(join(contentDir, 'ps', 'deep.html'), links(['/ps/deeper']));
+  await writeFile(join(contentDir, 'ps', 'deeper.html'), links([]));
+
+  const productMappingService = new ProductMappingService();
+  const sitemapUrls = [{ loc: 'https://www.adobe.com/ps/' }, { loc: `${baseUrl}/ps/a` }];
+  const options = {
+    maxDepth: 2,
+    maxPages: 100,
+    concurrency: 2,
+    pageOptions: { contentDir },
+    robots: parseRobotsTxt('User-agent: *\nDisallow: /ps/private/', 'adp-search-indexer'),
+  };
+
+  const result = await crawlSite([`${baseUrl}/ps/`], sitemapUrls, productMappingService, baseUrl, options);
+  check(
+    JSON.stringify(result.missing) ===
+      JSON.stringify([
+        { url: `${baseUrl}/ps/b`, foundOn: `${baseUrl}/ps/`, depth: 1 },
+        { url: `${baseUrl}/ps/deep`, foundOn: `${baseUrl}/ps/a`, depth: 2 },
+      ]),
+    `Pages the sitemap doesn't list are reported with the page linking to them → ${JSON.stringify(result.missing)}`
+  );
+  check(
+    result.crawled === 5 && result.notFound === 1 && result.failed === 0 && !result.truncated,
+    `External, static, excluded and disallowed links are not followed, nor links past the maximum depth → ${result.crawled} crawled, ${result.notFound} not found`
+  );
+
+  const truncated = await crawlSite([`${baseUrl}/ps/`], sitemapUrls, productMappingService, baseUrl, {
+    ...options,
+    maxPages: 2,
+  });
+  check(
+    truncated.crawled === 2 && truncated.truncated,
+    `The crawl stops at the page limit → ${truncated.crawled} crawled`
+  );
+
+  console.log('\nTesting getCrawlSeeds:');
+
+  await productMappingService.initialize(
+    JSON.stringify([
+      {
+        productName: 'Photoshop',
+        productIndices: [
+          { indexName: 'photoshop', indexPathPrefix: '/ps/' },
+          { indexName: 'photoshop-api', indexPathPrefix: '/ps/api/' },
+        ],
+      },
+      { productName: 'Creative Cloud', productIndices: [{ indexName: 'cc', indexPathPrefix: '/ps/' }] },
+    ])
+  );
+  check(
+    JSON.stringify(getCrawlSeeds('mapping', sitemapUrls, productMappingService, baseUrl)) ===
+      JSON.stringify([`${baseUrl}/ps/`, `${baseUrl}/ps/api/`]),
+    'Mapping seeds are the path prefixes on the base URL, each once'
+  );
+  check(
+    JSON.stringify(getCrawlSeeds('sitemap', sitemapUrls, productMappingService, baseUrl)) ===
+      JSON.stringify(sitemapUrls.map(({ loc }) => loc)),
+    'Sitemap seeds are the sitemap URLs'
+  );
+} finally {
+  await rm(dir, { recursive: true, force: true });
+}
+
+console.log('\nDone!');
@@ -0,0 +1,252 @@
+import chalk from 'chalk';
+
+import type { SitemapUrl } from '../types/index';
+import { TaskQueue } from '../utils/queue';
+
+import { fetchPageLinks, type PageFetchOptions } from './content';
+import { ProductMappingService } from './product-mapping';
+import { isAllowedByRobots, type RobotsTxt } from './robots';
+
+/**
+ * Where the crawler starts: the URLs listed in the sitemap, or the path prefixes of the product mapping.
+ */
+export type CrawlSeedSource = 'sitemap' | 'mapping';
+
+/**
+ * Options for a link-discovery crawl.
+ */
+export interface CrawlOptions {
+  /** Maximum number of link hops to follow from the seed pages */
+  maxDepth: number;
+  /** Maximum number of pages to fetch before stopping */
+  maxPages: number;
+  /** Maximum number of concurrent page fetches */
+  concurrency: number;
+  /** Whether to log each page as it is crawled */
+  verbose?: boolean;
+  /** Where to read pages from (defaults to the network) */
+  pageOptions?: PageFetchOptions;
+  /** Optional robots.txt rules; disallowed links are not followed */
+  robots?: RobotsTxt;
+}
+
+/**
+ * A page reached by the crawler that the sitemap does not list.
+ */
+export interface MissingPage {
+  /** The URL of the page, on the base URL */
+  url: string;
+  /** The page the link was first found on (undefined for seed pages) */
+  foundOn?: string;
+  /** The number of link hops from the nearest seed page */
+  depth: number;
+}
+
+/**
+ * Results of a link-discovery crawl.
+ */
+export interface CrawlResult {
+  /** Number of pages fetched */
+  crawled: number;
+  /** Number of linked pages that returned 404 */
+  notFound: number;
+  /** Number of pages that failed to load for other reasons */
+  failed: number;
+  /** Whether the crawl stopped early because it reached `maxPages` */
+  truncated: boolean;
+  /** Pages found by following links that the sitemap doesn't list */
+  missing: MissingPage[];
+}
+
+// Links to these files are never pages worth indexing
+const NON_PAGE_EXTENSIONS =
+  /\.(?:png|jpe?g|gif|svg|webp|ico|pdf|zip|gz|tgz|json|ya?ml|xml|txt|csv|js|css|mp4|mov|woff2?)$/i;
+
+/**
+ * Builds the key used to compare crawled pages with sitemap entries. Only the path matters, because the
+ * sitemap host may differ from the base URL that pages are fetched from.
+ */
+const pageKey = (pathname: string): string => pathname.replace(/\/+$/, '') || '/';
+
+/**
+ * Crawls in-site links starting from seed pages to find pages that are missing from the sitemap.
+ *
+ * Pages are fetched from the base URL (like the indexer does), one depth level at a time. Links are
+ * followed only when they stay on the base URL (or a seed) host, are not excluded by
+ * `shouldExcludePath` or robots.txt and don't point at static files.
+ *
+ * @param seeds - The URLs to start crawling from.
+ * @param sitemapUrls - The sitemap entries to compare discovered pages against.
+ * @param productMappingService - The ProductMappingService instance used to decide on URL exclusions.
+ * @param baseUrl - The base URL pages are fetched from.
+ * @param options - Crawl depth, limits and concurrency.
+ * @returns The crawl results, including pages the sitemap doesn't list.
+ */
+export async function crawlSite(
+  seeds: string[],
+  sitemapUrls: SitemapUrl[],
+  productMappingService: ProductMappingService,
+  baseUrl: string,
+  options: CrawlOptions
+): Promise<CrawlResult> {
+  const { maxDepth, maxPages, verbose = false, pageOptions = {}, robots } = options;
+  const queue = new TaskQueue(options.concurrency);
+
+  const inSiteHosts = new Set([new URL(baseUrl).host]);
+  const listedPages = new Set<string>();
+  sitemapUrls.forEach(({ loc }) => {
+    try {
+      listedPages.add(pageKey(new URL(loc).pathname));
+    } catch {
+      // Invalid sitemap URLs are reported by analyzeSitemap
+    }
+  });
+
+  const result: CrawlResult = { crawled: 0, notFound: 0, failed: 0, truncated: false, missing: [] };
+
+  // Pages already queued, keyed by path, so each page is fetched once
+  const seen = new Set<string>();
+  let level: { pathname: string; foundOn?: string }[] = [];
+
+  const enqueue = (url: string, foundOn?: string): void => {
+    let link: URL;
+    try {
+      link = new URL(url);
+    } catch {
+      return;
+    }
+
+    if (!/^https?:$/.test(link.protocol) || !inSiteHosts.has(link.host) || NON_PAGE_EXTENSIONS.test(link.pathname)) {
+      return;
+    }
+
+    const key = pageKey(link.pathname);
+    if (
+      seen.has(key) ||
+      productMappingService.shouldExcludePath(link.pathname) ||
+      !isAllowedByRobots(robots, link.pathname + link.search)
+    ) {
+      return;
+    }
+
+    seen.add(key);
+    level.push({ pathname: link.pathname, foundOn });
+  };
+
+  for (const seed of seeds) {
+    inSiteHosts.add(new URL(seed).host);
+  }
+  seeds.forEach((seed) => enqueue(seed));
+
+  for (let depth = 0; depth <= maxDepth && level.length > 0; depth++) {
+    const current = level;
+    level = [];
+
+    if (verbose) {
+      console.log(`\nCrawling depth ${depth}: ${current.length} pages`);
+    }
+
+    await queue.addBatch(
+      current.map(({ pathname, foundOn }) => async () => {
+        if (result.crawled >= maxPages) {
+          result.truncated = true;
+          return;
+        }
+        result.crawled++;
+
+        const pageUrl = new URL(pathname, baseUrl).toString();
+        let links: string[];
+        try {
+          links = await fetchPageLinks(pageUrl, pageOptions);
+        } catch (error) {
+          if (error && typeof error === 'object' && 'reason' in error && error.reason === '404') {
+            result.notFound++;
+          } else {
+            result.failed++;
+            if (verbose) {
+              console.warn(`Failed to crawl ${pageUrl}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          }
+          return;
+        }
+
+        if (!listedPages.has(pageKey(pathname))) {
+          result.missing.push({ url: pageUrl, foundOn, depth });
+        }
+
+        if (depth < maxDepth) {
+          links.forEach((link) => enqueue(link, pageUrl));
+        }
+      })
+    );
+  }
+
+  result.missing.sort((a, b) => a.url.localeCompare(b.url));
+  return result;
+}
+
+/**
+ * Builds the list of crawl seed URLs from the chosen source.
+ *
+ * @param source - Whether to seed from the sitemap URLs or from the product mapping path prefixes.
+ * @param sitemapUrls - The sitemap entries, used when seeding from the sitemap.
+ * @param productMappingService - The product mappings, used when seeding from mapping prefixes.
+ * @param baseUrl - The base URL that mapping prefixes are resolved against.
+ * @returns The seed URLs.
+ */
+export function getCrawlSeeds(
+  source: CrawlSeedSource,
+  sitemapUrls: SitemapUrl[],
+  productMappingService: ProductMappingService,
+  baseUrl: string
+): string[] {
+  if (source === 'mapping') {
+    const prefixes = new Set(
+      productMappingService
+        .getProductMappings()
+        .flatMap((product) => product.productIndices.map((index) => index.indexPathPrefix))
+    );
+    return Array.from(prefixes).map((prefix) => new URL(prefix, baseUrl).toString());
+  }
+
+  return sitemapUrls.map(({ loc }) => loc);
+}
+
+/**
+ * Prints the pages found by the crawler that the sitemap doesn't list, grouped by the index they would map to.
+ *
+ * @param result - The crawl results.
+ * @param productMappingService - The ProductMappingService instance used to resolve each page's index.
+ */
+export function printCrawlReport(result: CrawlResult, productMappingService: ProductMappingService): void {
+  console.log(`\n${chalk.bold('Crawl Report')}`);
+  console.log(
+    `Crawled ${chalk.cyan(result.crawled)} pages, found ${chalk.yellow(result.missing.length)} not in sitemap`
+  );
+
+  if (result.notFound > 0 || result.failed > 0) {
+    console.log(`Issues: ${result.notFound} linked pages not found, ${result.failed} failed`);
+  }
+  if (result.truncated) {
+    console.log(chalk.yellow('Crawl stopped early after reaching the page limit'));
+  }
+
+  if (result.missing.length === 0) {
+    return;
+  }
+
+  const byIndex = new Map<string, MissingPage[]>();
+  for (const page of result.missing) {
+    const match = productMappingService.findBestMatch(new URL(page.url).pathname);
+    const indexName = match ? match.indexName : '(no mapping)';
+    byIndex.set(indexName, [...(byIndex.get(indexName) || []), page]);
+  }
+
+  console.log('\nPages missing from the sitemap:');
+  for (const [indexName, pages] of byIndex) {
+    console.log(`  ${chalk.cyan(indexName)} (${pages.length})`);
+    pages.forEach((page) => {
+      console.log(`    • ${page.url} ${page.foundOn ? `(linked from ${page.foundOn})` : '(crawl seed)'}`);
+    });
+  }
+}
@@ -0,0 +1,114 @@
+import { DEFAULT_EXCLUSION_RULES, loadExclusionRules } from './exclusions';
+import { ProductMappingService } from './product-mapping';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+// The list the default rules replaced, checked the way paths used to be checked against it
+const EXCLUDED_PATHS = [
+  '/nav/',
+  '/nav$',
+  '/fragments/',
+  '/blocks/',
+  '/drafts/',
+  '/tools/',
+  '/tools/sidekick/',
+  '/internal/',
+  '/test/',
+  '/assets/',
+  '/_reference/',
+  '/github-actions-test/',
+];
+
+const wasExcluded = (path: string): boolean => {
+  const normalizedPath = path.replace(/\/$/, '');
+  return EXCLUDED_PATHS.some((excludedPath) =>
+    excludedPath === '/nav$' ? normalizedPath.endsWith('/nav') : normalizedPath.includes(excludedPath)
+  );
+};
+
+// Simple tests for the default exclusion rules
+console.log('Testing the default exclusion rules:');
+
+const paths = [
+  '/nav',
+  '/nav/',
+  '/photoshop/nav',
+  '/photoshop/nav/',
+  '/photoshop/nav/links',
+  '/photoshop/navigation/',
+  '/fragments/header',
+  '/express/fragments/footer/',
+  '/express/fragments/',
+  '/blocks/cards',
+  '/drafts/new-page/',
+  '/tools/sidekick/',
+  '/tools/',
+  '/internal/roadmap',
+  '/photoshop/test/',
+  '/photoshop/test/page',
+  '/photoshop/test/page/',
+  '/photoshop/testing/',
+  '/photoshop/test-content/page',
+  '/assets/images/logo.png',
+  '/photoshop/assets/',
+  '/commerce/_reference/graphql',
+  '/github-actions-test/page/',
+  '/photoshop/guides/',
+  '/',
+];
+
+const productMappingService = new ProductMappingService();
+for (const path of paths) {
+  const expected = wasExcluded(path);
+  const result = productMappingService.shouldExcludePath(path);
+  check(
+    result === expected,
+    `"${path}" → ${result ? 'excluded' : 'kept'} ${result !== expected ? `(expected ${expected ? 'excluded' : 'kept'})` : ''}`
+  );
+}
+
+console.log('\nTesting loadExclusionRules function:');
+
+const ruleCases = [
+  {
+    name: 'Patterns extend the defaults',
+    json: '{ "exclude": ["/**/test-content"], "indices": { "photoshop": ["/photoshop/uxp"] } }',
+    expected: {
+      exclude: [...DEFAULT_EXCLUSION_RULES.exclude, '/**/test-content'],
+      indices: { photoshop: ['/photoshop/uxp'] },
+    },
+  },
+  {
+    name: 'Patterns replace the defaults',
+    json: '{ "exclude": ["/**/test"], "extendDefaults": false }',
+    expected: { exclude: ['/**/test'], indices: {} },
+  },
+  {
+    name: 'Invalid patterns are rejected',
+    json: '{ "exclude": ["regex:(unclosed"] }',
+    expected: 'Invalid path pattern "regex:(unclosed"',
+  },
+  { name: 'Unknown keys are rejected', json: '{ "excludes": ["/test"] }', expected: 'Unrecognized key' },
+];
+
+for (const test of ruleCases) {
+  let result: unknown;
+  try {
+    result = await loadExclusionRules(test.json);
+  } catch (error) {
+    result = error instanceof Error ? error.message : String(error);
+  }
+
+  const passed =
+    typeof test.expected === 'string'
+      ? typeof result === 'string' && result.includes(test.expected)
+      : JSON.stringify(result) === JSON.stringify(test.expected);
+  check(passed, `${test.name} ${!passed ? `→ ${JSON.stringify(result)}` : ''}`);
+}
+
+console.log('\nDone!');
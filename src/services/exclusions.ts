@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+import type { ExclusionRules } from '../types/index';
+import { isValidPathPattern } from '../utils/path-pattern';
+import { loadJsonResource } from '../utils/resource';
+
+/**
+ * The rules used unless configured otherwise: navigation and fragment pages, drafts, tooling, internal and
+ * test content, wherever they appear in a path. Only the pages under the content folders are skipped, so a
+ * page such as `/photoshop/test/` stays indexed; navigation pages are skipped themselves.
+ */
+export const DEFAULT_EXCLUSION_RULES: ExclusionRules = {
+  exclude: [
+    '/**/nav',
+    '/**/fragments/*',
+    '/**/blocks/*',
+    '/**/drafts/*',
+    '/**/tools/*',
+    '/**/internal/*',
+    '/**/test/*',
+    '/**/assets/*',
+    '/**/_reference/*',
+    '/**/github-actions-test/*',
+  ],
+  indices: {},
+};
+
+/**
+ * Schema of a list of glob or `regex:` path patterns.
+ */
+export const pathPatternsSchema = z.array(
+  z
+    .string()
+    .min(1)
+    .refine(isValidPathPattern, (pattern) => ({ message: `Invalid path pattern "${pattern}"` }))
+);
+
+const exclusionRulesSchema = z
+  .object({
+    exclude: pathPatternsSchema.default([]),
+    indices: z.record(pathPatternsSchema).default({}),
+    // Add the global patterns to the default rules, or replace the default rules with them
+    extendDefaults: z.boolean().default(true),
+  })
+  .strict()
+  .transform(({ exclude, indices, extendDefaults }) => ({
+    exclude: extendDefaults ? [...DEFAULT_EXCLUSION_RULES.exclude, ...exclude] : exclude,
+    indices,
+  }));
+
+/**
+ * Loads the exclusion rules for a run.
+ *
+ * The rules are a JSON object `{ exclude?, indices?, extendDefaults? }` given inline or as the URL or local path
+ * of a JSON file. `exclude` lists glob or `regex:` patterns skipped for every index and is added to
+ * {@link DEFAULT_EXCLUSION_RULES}, or replaces them when `extendDefaults` is false. `indices` maps index names
+ * to the patterns left out of that index only.
+ *
+ * @param location - Inline JSON, or the URL or path of a JSON file
+ * @returns The validated rules
+ * @throws An error if the rules can't be read or are invalid
+ */
+export async function loadExclusionRules(location: string): Promise<ExclusionRules> {
+  return loadJsonResource(location, exclusionRulesSchema, 'exclusion rules');
+}
@@ -0,0 +1,133 @@
+import { load } from 'cheerio';
+
+import { extractTable, extractText, getTableKind } from './extraction';
+
+// Simple tests for table extraction
+console.log('Testing getTableKind function:');
+
+const kindCases = [
+  { headers: ['Error code', 'Message'], expected: 'error-code' },
+  { headers: ['Status', 'Description'], expected: 'error-code' },
+  { headers: ['Parameter', 'Type', 'Description'], expected: 'parameter' },
+  { headers: ['Name', 'Required'], expected: 'parameter' },
+  { headers: ['Name', 'Version'], expected: 'generic' },
+  { headers: ['Feature', 'Description'], expected: 'generic' },
+  { headers: [], expected: 'generic' },
+];
+
+kindCases.forEach((test) => {
+  const result = getTableKind(test.headers);
+  const passed = result === test.expected;
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${JSON.stringify(test.headers)} → "${result}"`);
+});
+
+console.log('\nTesting extractTable function:');
+
+const tableCases = [
+  {
+    name: 'Headers from <thead>',
+    html: `<table>
+      <thead><tr><th>Parameter</th><th>Type</th><th>Description</th></tr></thead>
+      <tbody>
+        <tr><td>assetId</td><td>string</td><td>The  asset
+          to read</td></tr>
+        <tr><td></td><td></td><td></td></tr>
+        <tr><td>limit</td><td>number</td></tr>
+      </tbody>
+    </table>`,
+    expected: {
+      kind: 'parameter',
+      headers: ['Parameter', 'Type', 'Description'],
+      rows: [
+        { Parameter: 'assetId', Type: 'string', Description: 'The asset to read' },
+        { Parameter: 'limit', Type: 'number', Description: '' },
+      ],
+    },
+  },
+  {
+    name: 'Headers from a first row of <th> cells',
+    html: '<table><tr><th>Code</th><th></th></tr><tr><td>404</td><td>Not found</td></tr></table>',
+    expected: {
+      kind: 'error-code',
+      headers: ['Code', 'Column 2'],
+      rows: [{ Code: '404', 'Column 2': 'Not found' }],
+    },
+  },
+  {
+    name: 'Nested table rows stay in their cell',
+    html: `<table><thead><tr><th>Option</th><th>Values</th></tr></thead><tbody>
+      <tr><td>mode</td><td><table><thead><tr><th>Value</th></tr></thead> <tr><td>fast</td></tr></table></td></tr>
+    </tbody></table>`,
+    expected: {
+      kind: 'generic',
+      headers: ['Option', 'Values'],
+      rows: [{ Option: 'mode', Values: 'Value fast' }],
+    },
+  },
+  {
+    name: 'Layout table without headers',
+    html: '<table><tr><td>Left</td><td>Right</td></tr></table>',
+    expected: null,
+  },
+  {
+    name: 'Table with headers only',
+    html: '<table><thead><tr><th>Name</th><th>Type</th></tr></thead></table>',
+    expected: null,
+  },
+];
+
+tableCases.forEach((test) => {
+  const $ = load(test.html);
+  const result = extractTable($, $('table').first());
+  const passed = JSON.stringify(result) === JSON.stringify(test.expected);
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${test.name} ${!passed ? `→ ${JSON.stringify(result)}` : ''}`);
+});
+
+const $nested = load('<table><tr><th>Outer</th></tr><tr><td><table><tr><th>Inner</th></tr></table></td></tr></table>');
+const nestedResult = extractTable($nested, $nested('table table'));
+if (nestedResult !== null) {
+  process.exitCode = 1;
+}
+console.log(`${nestedResult === null ? '✅' : '❌'} A nested table is not extracted on its own`);
+
+console.log('\nTesting extractText function:');
+
+const textCases = [
+  {
+    name: 'Repeated list items are kept',
+    html: '<ul><li>Yes</li><li>Yes</li><li>No</li></ul>',
+    expected: '• Yes • Yes • No',
+  },
+  {
+    name: 'Repeated table cells are kept',
+    html: '<table><tr><td>Yes</td></tr><tr><td>Yes</td></tr></table>',
+    expected: 'Yes Yes',
+  },
+  {
+    name: 'Call-to-action links and buttons are left out',
+    html: '<p>Edit PSD files.</p><p><a href="/more">Learn more</a></p><button> Next </button>',
+    expected: 'Edit PSD files.',
+  },
+  {
+    name: 'Call-to-action words in text are kept',
+    html: '<h2>Next</h2><p>Previous</p><p><a href="/steps">Next steps</a></p>',
+    expected: 'Next Previous Next steps',
+  },
+];
+
+textCases.forEach((test) => {
+  const result = extractText(load(test.html)('body'));
+  const passed = result === test.expected;
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${test.name} ${!passed ? `→ "${result}"` : ''}`);
+});
+
+console.log('\nDone!');
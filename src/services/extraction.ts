@@ -0,0 +1,710 @@
+import { load } from 'cheerio';
+import { isTag, isText, type AnyNode, type Element } from 'domhandler';
+
+import type { CodeSample, ContentSegment, ContentTable, ContentTableKind } from '../types/index';
+import { detectCodeLanguage } from '../utils/code-language';
+
+export type CheerioRoot = ReturnType<typeof load>;
+
+// Elements whose text is never content. Code blocks are indexed separately as code samples
+const NON_CONTENT_ELEMENTS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'iframe',
+  'object',
+  'embed',
+  'svg',
+  'pre',
+]);
+
+// Elements that start a new line of text
+const BLOCK_ELEMENTS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'dd',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'section',
+  'summary',
+  'table',
+  'tr',
+  'ul',
+]);
+
+// Link and button labels that are only a call to action
+const UI_TEXT =
+  /^(?:click|click here|tap here|view|view more|learn more|see more|see details|read more|next|previous)$/i;
+
+const isCallToAction = (label: string): boolean => UI_TEXT.test(label.replace(/[\s\u00a0]+/g, ' ').trim());
+
+const nodeText = (nodes: AnyNode[]): string =>
+  nodes.map((node) => (isText(node) ? node.data : isTag(node) ? nodeText(node.children) : '')).join('');
+
+const collectText = (nodes: AnyNode[], parts: string[]): void => {
+  for (const node of nodes) {
+    if (isText(node)) {
+      parts.push(node.data);
+    } else if (isTag(node) && !NON_CONTENT_ELEMENTS.has(node.tagName)) {
+      if (node.tagName === 'br') {
+        parts.push('\n');
+        continue;
+      }
+      // Links and buttons such as "Learn more" say nothing about the page; the same words in text are kept
+      if ((node.tagName === 'a' || node.tagName === 'button') && isCallToAction(nodeText(node.children))) {
+        continue;
+      }
+
+      const isBlock = BLOCK_ELEMENTS.has(node.tagName);
+      parts.push(
+        node.tagName === 'li' ? '\n• ' : isBlock ? '\n' : node.tagName === 'td' || node.tagName === 'th' ? ' ' : ''
+      );
+      collectText(node.children, parts);
+      if (isBlock) {
+        parts.push('\n');
+      }
+    }
+  }
+};
+
+/**
+ * Normalizes extracted text: collapses whitespace, drops empty lines and joins the lines into a single line of
+ * text. Repeated lines are kept, since table cells and list items often repeat legitimately.
+ *
+ * @param text - Text content, with line breaks between blocks
+ * @returns Clean, normalized text content
+ */
+export const cleanText = (text: string): string => {
+  if (!text) return '';
+
+  const lines: string[] = [];
+  for (const rawLine of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine
+      // Remove data-slots declarations that appear in text
+      .replace(/data-slots=\w+,\s*\w+/g, '')
+      .replace(/[\s\u00a0]+/g, ' ')
+      .trim();
+
+    if (line && line !== '•') {
+      lines.push(line);
+    }
+  }
+
+  return (
+    lines
+      .join(' ')
+      // Ensure consistent spacing around punctuation
+      .replace(/\s+([.,;:!?)])/g, '$1')
+      .replace(/([({])\s+/g, '$1')
+  );
+};
+
+/**
+ * Reads the text of elements, skipping scripts, styles, code blocks and call-to-action links and buttons (such
+ * as "Learn more"), with list items and block elements kept apart so their text doesn't run together.
+ *
+ * @param $el - The elements to read
+ * @returns Clean, normalized text content
+ */
+export const extractText = ($el: ReturnType<CheerioRoot>): string => {
+  const parts: string[] = [];
+  // The cheerio typings describe older node types than the domhandler nodes it returns
+  collectText($el.toArray() as unknown as AnyNode[], parts);
+  return cleanText(parts.join(''));
+};
+
+/**
+ * Cleans an HTML fragment down to its text content (see {@link extractText}).
+ *
+ * @param html - HTML fragment to clean
+ * @returns Clean, normalized text content
+ */
+export const cleanContent = (html: string): string => {
+  if (!html) return '';
+
+  const $ = load(html);
+  return extractText($('body'));
+};
+
+/**
+ * Normalizes a heading by removing excess whitespace and unwanted characters.
+ */
+export const normalizeHeading = (heading: string): string => {
+  if (!heading) return '';
+
+  return heading
+    .replace(/\s+/g, ' ')
+    .replace(/^[-–—•*]+\s*/, '') // Remove leading bullets or dashes
+    .replace(/\s*[-–—•*]+$/, '') // Remove trailing bullets or dashes
+    .trim();
+};
+
+/**
+ * Extracts metadata from meta tags in the HTML document.
+ *
+ * @param $ - Cheerio instance containing the parsed HTML
+ * @returns Object containing extracted metadata key-value pairs
+ */
+export const extractMetadata = ($: CheerioRoot): Record<string, string> => {
+  const metadata: Record<string, string> = {};
+
+  // Process meta tags
+  $('meta').each(function (this: Element) {
+    const $el = $(this);
+    const name = $el.attr('name') || $el.attr('property');
+    const content = $el.attr('content');
+
+    if (name && content) {
+      metadata[name] = content.trim();
+    }
+  });
+
+  // Add important metadata fields with fallbacks
+  metadata['source'] = metadata['source'] || '';
+  metadata['pathprefix'] = metadata['pathprefix'] || '';
+  metadata['githubblobpath'] = metadata['githubblobpath'] || '';
+  metadata['template'] = metadata['template'] || 'documentation';
+
+  // Extract Open Graph metadata
+  metadata['og_title'] = metadata['og:title'] || '';
+  metadata['og_description'] = metadata['og:description'] || '';
+  metadata['og_image'] = metadata['og:image'] || '';
+
+  // Add last modified date if available
+  const lastModified = metadata['last-modified'] || $('meta[name="last-modified"]').attr('content');
+  if (lastModified) {
+    metadata['lastModified'] = lastModified;
+  } else {
+    // Use current date as fallback
+    metadata['lastModified'] = new Date().toISOString();
+  }
+
+  return metadata;
+};
+
+/**
+ * Extracts content segments from an HTML element, organizing content by headings.
+ * Uses a more robust, simplified approach to ensure more accurate content association.
+ *
+ * @param $ - Cheerio instance
+ * @param $root - Root cheerio element to extract segments from
+ * @returns Array of ContentSegment objects
+ */
+export const extractSegments = ($: CheerioRoot, $root: ReturnType<CheerioRoot>): ContentSegment[] => {
+  const segments: ContentSegment[] = [];
+
+  // First, create a clean clone of the content for processing
+  const $content = $root.clone();
+
+  // Remove elements that aren't text; site chrome was removed from the page by the cleaning rules
+  $content.find('script, style, noscript, iframe, svg, pre, button').remove();
+
+  // Detect the type of page based on content structure
+  const isDocumentationPage =
+    $content.find('.markdown-body, .docs-container, .documentation, [data-slots], article, .article').length > 0;
+  const hasSections = $content.find('section').length > 3; // Multiple sections usually indicates a structured page
+
+  // Find all headings in the document and their positions
+  const headings: Array<{ heading: string; level: number; $element: ReturnType<typeof $> }> = [];
+
+  $content.find('h1, h2, h3, h4, h5, h6').each(function (this: Element) {
+    const $heading = $(this);
+    const level = parseInt($heading.prop('tagName').substring(1), 10);
+    const text = normalizeHeading($heading.text());
+
+    // Skip empty, duplicate, or navigation-like headings
+    if (
+      !text ||
+      headings.some((h) => h.heading === text) ||
+      /^(?:navigation|menu|links|related|see also|quick links|resources|tools|more|get started)$/i.test(text)
+    ) {
+      return;
+    }
+
+    headings.push({
+      heading: text,
+      level,
+      $element: $heading,
+    });
+  });
+
+  // If we found no headings, return an empty array
+  if (headings.length === 0) {
+    return segments;
+  }
+
+  // Map to track headings we've already processed to avoid duplicates
+  const processedHeadings = new Set<string>();
+
+  // Special handling for documentation pages with links
+  if (isDocumentationPage) {
+    // First, process the main heading and introduction content
+    if (headings.length > 0 && headings[0].level === 1) {
+      const mainHeading = headings[0];
+      let introContent = '';
+
+      // Gather introduction content (everything until the next heading)
+      let $nextElement = mainHeading.$element.next();
+      while ($nextElement.length && !$nextElement.is('h1, h2, h3, h4, h5, h6')) {
+        if (!$nextElement.is('script, style, iframe, button, form, nav, aside')) {
+          // Add to intro content
+          introContent += $nextElement.text() + ' ';
+        }
+
+        $nextElement = $nextElement.next();
+      }
+
+      // Clean and add the intro segment
+      const cleanedIntro = cleanText(introContent);
+      if (cleanedIntro && cleanedIntro.length >= 50) {
+        segments.push({
+          heading: mainHeading.heading,
+          content: cleanedIntro,
+          level: mainHeading.level,
+        });
+
+        processedHeadings.add(mainHeading.heading);
+      }
+    }
+
+    // Then process links and other structured content as separate segments
+    if ($content.find('a').length > 5) {
+      // If the page has several links
+      // Find all sections that contain links with text
+      const processedLinkTexts = new Set<string>(); // Track processed link texts to avoid duplication
+
+      $content.find('a').each(function (this: Element) {
+        const $link = $(this);
+        const $linkParent = $link.parent();
+        const linkText = $link.text().trim();
+
+        // Skip navigation links and already processed links
+        if (
+          $linkParent.is('nav') ||
+          $linkParent.closest('nav').length ||
+          linkText.length < 10 ||
+          processedLinkTexts.has(linkText)
+        ) {
+          return;
+        }
+
+        // Mark this link as processed
+        processedLinkTexts.add(linkText);
+
+        // Find the nearest heading for this link
+        let linkHeading = null;
+        let $currentElement = $link;
+
+        // Look up for the nearest heading
+        while ($currentElement.length && !linkHeading) {
+          $currentElement = $currentElement.prev();
+
+          if ($currentElement.is('h1, h2, h3, h4, h5, h6')) {
+            linkHeading = normalizeHeading($currentElement.text());
+            break;
+          }
+        }
+
+        // If no heading found above, look for the previous heading in the document
+        if (!linkHeading) {
+          for (let i = headings.length - 1; i >= 0; i--) {
+            if ($link.index() > headings[i].$element.index()) {
+              linkHeading = headings[i].heading;
+              break;
+            }
+          }
+        }
+
+        // If still no heading, use the first heading or a default
+        if (!linkHeading && headings.length > 0) {
+          linkHeading = headings[0].heading;
+        }
+
+        if (linkHeading) {
+          // Get surrounding text content
+          const $contextParent = $link.closest('p, div, section, article');
+          let contextContent = '';
+
+          if ($contextParent.length) {
+            contextContent = extractText($contextParent);
+          } else {
+            // If no context parent, get a reasonable context from siblings
+            const $prev = $link.prev();
+            const $next = $link.next();
+
+            contextContent = ($prev.text() + ' ' + $link.text() + ' ' + $next.text()).trim();
+            contextContent = cleanText(contextContent);
+          }
+
+          // Only add if we have meaningful content
+          if (contextContent && contextContent.length >= 50) {
+            // Check if we already have this heading in a segment
+            const existingSegmentIndex = segments.findIndex((s) => s.heading === linkHeading);
+
+            if (existingSegmentIndex >= 0) {
+              // If the content doesn't already exist in this segment, add it
+              if (!segments[existingSegmentIndex].content.includes(contextContent)) {
+                segments[existingSegmentIndex].content += ' ' + contextContent;
+              }
+            } else {
+              // Find the level of this heading
+              const headingObj = headings.find((h) => h.heading === linkHeading);
+
+              segments.push({
+                heading: linkHeading,
+                content: contextContent,
+                level: headingObj ? headingObj.level : 2, // Default to h2 if not found
+              });
+
+              processedHeadings.add(linkHeading);
+            }
+          }
+        }
+      });
+    }
+  }
+
+  // Process the remaining headings in a traditional way
+  for (let i = 0; i < headings.length; i++) {
+    const current = headings[i];
+
+    // Skip if we've already processed this heading
+    if (processedHeadings.has(current.heading)) {
+      continue;
+    }
+
+    // Mark this heading as processed
+    processedHeadings.add(current.heading);
+
+    let contentElements = [];
+
+    // Get all elements between this heading and the next
+    let $nextElement = current.$element.next();
+    while (
+      $nextElement.length &&
+      (!$nextElement.is('h1, h2, h3, h4, h5, h6') || headings.every((h) => !h.$element.is($nextElement)))
+    ) {
+      // Skip elements that are likely not content
+      if (!$nextElement.is('script, style, iframe, button, form, nav, aside')) {
+        contentElements.push($nextElement.clone());
+      }
+
+      $nextElement = $nextElement.next();
+    }
+
+    // Create a container to hold all the content
+    const $container = $('<div>');
+    contentElements.forEach(($el) => $container.append($el));
+
+    // Clean the content text
+    const contentText = extractText($container);
+
+    // Only add the segment if it has substantial content
+    if (contentText && contentText.length >= 30) {
+      segments.push({
+        heading: current.heading,
+        content: contentText,
+        level: current.level,
+      });
+    }
+  }
+
+  // Handle case where there's content before the first heading
+  if (headings.length > 0 && segments.length > 0) {
+    const firstHeadingPos = $content.find('*').index(headings[0].$element);
+
+    if (firstHeadingPos > 2) {
+      // Has substantial content before first heading
+      const $preHeadingContent = $('<div>');
+      let $current = $content.children().first();
+
+      while ($current.length && !$current.is(headings[0].$element)) {
+        if (!$current.is('script, style, iframe, button, form, nav, aside')) {
+          $preHeadingContent.append($current.clone());
+        }
+        $current = $current.next();
+      }
+
+      const preHeadingText = extractText($preHeadingContent);
+
+      if (preHeadingText && preHeadingText.length >= 50) {
+        // Check if we already have a segment with the first heading
+        const firstHeadingSegmentIndex = segments.findIndex((s) => s.heading === headings[0].heading);
+
+        if (firstHeadingSegmentIndex >= 0) {
+          // Combine the pre-heading content with the existing segment
+          segments[firstHeadingSegmentIndex].content =
+            preHeadingText + ' ' + segments[firstHeadingSegmentIndex].content;
+        } else {
+          // If there's significant content before the first heading, add it as a segment
+          // with a unique prefix to avoid duplication
+          segments.unshift({
+            heading: segments[0].heading,
+            content: preHeadingText,
+            level: segments[0].level,
+          });
+        }
+      }
+    }
+  }
+
+  // Special handling for sections that might contain meaningful structured content
+  if (hasSections) {
+    $content.find('section').each(function (this: Element) {
+      const $section = $(this);
+
+      // Skip if this is a navigation, header, or footer section
+      if (
+        $section.is('[role="navigation"], [role="banner"], [role="contentinfo"]') ||
+        $section.hasClass('navigation') ||
+        $section.hasClass('footer') ||
+        $section.hasClass('header')
+      ) {
+        return;
+      }
+
+      // Try to find a heading within this section
+      let sectionHeading = null;
+      let headingLevel = 2; // Default level if no heading found
+
+      const $sectionHeading = $section.find('h1, h2, h3, h4, h5, h6').first();
+      if ($sectionHeading.length) {
+        sectionHeading = normalizeHeading($sectionHeading.text());
+        headingLevel = parseInt($sectionHeading.prop('tagName').substring(1), 10);
+      }
+
+      // If no heading in section, look for other identifiers like strong text or class names
+      if (!sectionHeading) {
+        const $strong = $section.find('strong').first();
+        if ($strong.length) {
+          sectionHeading = normalizeHeading($strong.text());
+        } else {
+          // Try to use section class name as heading
+          const className = $section.attr('class');
+          if (className) {
+            const mainClass = className.split(' ')[0].replace(/-/g, ' ');
+            if (mainClass && mainClass.length > 3) {
+              sectionHeading = normalizeHeading(mainClass);
+            }
+          }
+        }
+      }
+
+      // If we found a heading and it's not already processed
+      if (sectionHeading && !processedHeadings.has(sectionHeading)) {
+        // Get the content of this section excluding any navigation elements
+        const $sectionContent = $section.clone();
+        $sectionContent.find('nav, .navigation, [role="navigation"]').remove();
+
+        const sectionText = extractText($sectionContent);
+
+        // Only add if we have meaningful content
+        if (sectionText && sectionText.length >= 50) {
+          segments.push({
+            heading: sectionHeading,
+            content: sectionText,
+            level: headingLevel,
+          });
+
+          processedHeadings.add(sectionHeading);
+        }
+      }
+    });
+  }
+
+  // Ensure unique segments by combining any with the same heading
+  const uniqueSegments: ContentSegment[] = [];
+  const segmentsByHeading = new Map<string, ContentSegment>();
+
+  segments.forEach((segment) => {
+    if (segmentsByHeading.has(segment.heading)) {
+      // Combine content with existing segment
+      const existing = segmentsByHeading.get(segment.heading)!;
+      existing.content = `${existing.content} ${segment.content}`.trim();
+    } else {
+      segmentsByHeading.set(segment.heading, { ...segment });
+    }
+  });
+
+  // Convert map back to array
+  segmentsByHeading.forEach((segment) => uniqueSegments.push(segment));
+
+  // Attach each table to the segment of the heading it appears under
+  if (uniqueSegments.length > 0) {
+    let currentSegment = uniqueSegments[0];
+
+    $content.find('h1, h2, h3, h4, h5, h6, table').each(function (this: Element) {
+      const $el = $(this);
+
+      if (!$el.is('table')) {
+        currentSegment = segmentsByHeading.get(normalizeHeading($el.text())) || currentSegment;
+        return;
+      }
+
+      const table = extractTable($, $el);
+      if (table) {
+        currentSegment.tables = [...(currentSegment.tables || []), table];
+      }
+    });
+  }
+
+  return uniqueSegments;
+};
+
+/**
+ * Determines what a table lists from its headers: error codes when the first column is a code or status,
+ * parameters when the first column names a field and another column gives its type, description, default
+ * or whether it is required.
+ *
+ * @param headers - The column headers
+ * @returns The kind of table
+ */
+export const getTableKind = (headers: string[]): ContentTableKind => {
+  const [first = '', ...others] = headers;
+
+  if (/\b(?:error|status|code)s?\b/i.test(first)) {
+    return 'error-code';
+  }
+
+  if (
+    /\b(?:param(?:eter)?|name|field|option|property|argument|attribute|key|header)s?\b/i.test(first) &&
+    others.some((header) => /\b(?:type|description|required|default)\b/i.test(header))
+  ) {
+    return 'parameter';
+  }
+
+  return 'generic';
+};
+
+/**
+ * Reads an HTML table into header-keyed rows. The headers come from the `<thead>` row, or from the first
+ * row when it only has `<th>` cells; tables without headers (usually layout tables) and nested tables are
+ * ignored.
+ *
+ * @param $ - Cheerio instance
+ * @param $table - The table element
+ * @returns The table, or null if it has no headers or no rows
+ */
+export const extractTable = ($: CheerioRoot, $table: ReturnType<CheerioRoot>): ContentTable | null => {
+  if ($table.parents('table').length > 0) {
+    return null;
+  }
+
+  const cellTexts = ($row: ReturnType<CheerioRoot>): string[] =>
+    $row
+      .children('th, td')
+      .map((_, cell) => $(cell).text().replace(/\s+/g, ' ').trim())
+      .get();
+
+  // Only rows of this table, not of tables nested in its cells
+  const $rows = $table.children('thead, tbody, tfoot').children('tr').add($table.children('tr'));
+  const $headerRow = $table.children('thead').children('tr').first();
+  const $firstRow = $rows.first();
+
+  let $header = $headerRow;
+  if (!$header.length && $firstRow.children('th').length > 0 && $firstRow.children('td').length === 0) {
+    $header = $firstRow;
+  }
+  if (!$header.length) {
+    return null;
+  }
+
+  const headers = cellTexts($header).map((header, index) => header || `Column ${index + 1}`);
+
+  const rows: Array<Record<string, string>> = [];
+  $rows.each(function (this: Element) {
+    const $row = $(this);
+    if ($row.is($header)) {
+      return;
+    }
+
+    const cells = cellTexts($row);
+    if (cells.every((cell) => !cell)) {
+      return;
+    }
+
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = cells[index] || '';
+    });
+    rows.push(row);
+  });
+
+  return rows.length > 0 ? { kind: getTableKind(headers), headers, rows } : null;
+};
+
+/**
+ * Extracts the code blocks (`<pre>` elements) from an HTML element, each with its detected language and
+ * the heading it appears under. Identical code blocks are only returned once.
+ *
+ * @param $ - Cheerio instance
+ * @param $root - Root cheerio element to extract code blocks from
+ * @param fallbackHeading - Heading used for code blocks that appear before any heading
+ * @returns Array of CodeSample objects in document order
+ */
+export const extractCodeSamples = (
+  $: CheerioRoot,
+  $root: ReturnType<CheerioRoot>,
+  fallbackHeading: string
+): CodeSample[] => {
+  const samples: CodeSample[] = [];
+  const seen = new Set<string>();
+  let heading = fallbackHeading;
+  let level = 1;
+
+  // Headings and code blocks are visited in document order, so the last heading seen encloses the block
+  $root.find('h1, h2, h3, h4, h5, h6, pre').each(function (this: Element) {
+    const $el = $(this);
+
+    if (!$el.is('pre')) {
+      const text = normalizeHeading($el.text());
+      if (text && $el.closest('pre').length === 0) {
+        heading = text;
+        level = parseInt($el.prop('tagName').substring(1), 10);
+      }
+      return;
+    }
+
+    // Skip code blocks nested in another code block or in navigation
+    if ($el.parents('pre, nav, [role="navigation"]').length > 0) {
+      return;
+    }
+
+    const $code = $el.find('code').first();
+    const code = ($code.length ? $code.text() : $el.text()).replace(/^\n+|\s+$/g, '');
+    if (code.trim().length < 10 || seen.has(code)) {
+      return;
+    }
+    seen.add(code);
+
+    samples.push({
+      heading,
+      level,
+      code,
+      language: detectCodeLanguage(code, $code.attr('class'), $el.attr('class')),
+    });
+  });
+
+  return samples;
+};
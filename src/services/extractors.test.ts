@@ -0,0 +1,100 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { load } from 'cheerio';
+
+import { fetchPageContent } from './content';
+import { extractFromContainer, findExtractor, genericExtractor, registerExtractor } from './extractors';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+const baseUrl = 'https://developer.adobe.com';
+
+registerExtractor({
+  name: 'changelog',
+  templates: ['changelog'],
+  // Leaves pages without release notes to the generic extractor
+  extract: ($, metadata) => ($('.release').length ? extractFromContainer($, $('.release'), metadata) : null),
+});
+registerExtractor({
+  name: 'tutorial',
+  urlPatterns: [/^\/[^/]+\/tutorials\//],
+  extract: ($, metadata) => extractFromContainer($, $('main'), metadata),
+});
+registerExtractor({ name: 'faq', matches: ($) => $('.faq').length > 0, extract: () => null });
+
+// Simple tests for finding the extractor of a page
+console.log('Testing findExtractor function:');
+
+const faqPage = load('<html><body><main class="faq"></main></body></html>');
+const plainPage = load('<html><body><main></main></body></html>');
+
+const cases = [
+  {
+    name: 'Templates come first',
+    url: `${baseUrl}/ps/tutorials/`,
+    template: 'changelog',
+    $: faqPage,
+    expected: 'changelog',
+  },
+  { name: 'URL patterns come before markup', url: `${baseUrl}/ps/tutorials/`, $: faqPage, expected: 'tutorial' },
+  { name: 'Markup is recognized last', url: `${baseUrl}/ps/guides/`, $: faqPage, expected: 'faq' },
+  { name: 'Built-in extractors are registered', url: `${baseUrl}/ps/api/`, template: 'redoc', expected: 'openapi' },
+  { name: 'Other pages get the generic extractor', url: `${baseUrl}/ps/guides/`, $: plainPage, expected: 'generic' },
+  { name: 'Invalid URLs are matched by template', url: 'not a url', template: 'changelog', expected: 'changelog' },
+  { name: 'Invalid URLs fall back to the generic extractor', url: 'not a url', expected: 'generic' },
+];
+
+for (const test of cases) {
+  const result = findExtractor(test.url, test.template ? { template: test.template } : {}, test.$).name;
+  check(result === test.expected, `${test.name} → ${result}`);
+}
+
+registerExtractor({ name: 'tutorial', templates: ['tutorial'], extract: () => null });
+check(
+  findExtractor(`${baseUrl}/ps/tutorials/`, {}, faqPage).name === 'faq' &&
+    findExtractor(`${baseUrl}/ps/`, { template: 'tutorial' }).name === 'tutorial',
+  'Registering an extractor under an existing name replaces it'
+);
+
+console.log('\nTesting extraction with registered extractors:');
+
+const dir = await mkdtemp(join(tmpdir(), 'extractors-test-'));
+
+try {
+  const contentDir = join(dir, 'pages');
+  await mkdir(join(contentDir, 'ps'), { recursive: true });
+  const page = (body: string): string => `<html>
+  <head><title>Release notes</title><meta name="template" content="changelog"></head>
+  <body><nav>Products</nav>${body}</body>
+</html>`;
+  await writeFile(
+    join(contentDir, 'ps', 'releases.html'),
+    page('<div class="release"><h2>Version 2.0</h2><p>Adds support for smart object replacement.</p></div>')
+  );
+  const notice =
+    'There are no releases yet. Subscribe to the Photoshop API newsletter to hear about the first one as soon as it ships.';
+  await writeFile(join(contentDir, 'ps', 'no-releases.html'), page(`<main><p>${notice}</p></main>`));
+
+  const releases = await fetchPageContent(`${baseUrl}/ps/releases`, { contentDir });
+  check(
+    releases.extractor === 'changelog' && releases.headings.join() === 'Version 2.0',
+    `Pages are read by the extractor registered for them → ${releases.extractor}`
+  );
+
+  const noReleases = await fetchPageContent(`${baseUrl}/ps/no-releases`, { contentDir });
+  check(
+    noReleases.extractor === genericExtractor.name && noReleases.mainContent === notice,
+    `Pages an extractor leaves are read by the generic extractor → ${noReleases.extractor}`
+  );
+} finally {
+  await rm(dir, { recursive: true, force: true });
+}
+
+console.log('\nDone!');
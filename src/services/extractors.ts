@@ -0,0 +1,192 @@
+import type { PageContent } from '../types/index';
+
+import { extractCodeSamples, extractSegments, extractText, normalizeHeading, type CheerioRoot } from './extraction';
+import { openApiExtractor } from './openapi';
+
+/**
+ * The parts of a page's content produced by an extractor. Metadata, language and the extractor name
+ * are filled in by `fetchPageContent`.
+ */
+export type ExtractedContent = Pick<
+  PageContent,
+  | 'title'
+  | 'description'
+  | 'mainContent'
+  | 'segments'
+  | 'codeSamples'
+  | 'operations'
+  | 'headings'
+  | 'headingLevels'
+  | 'structure'
+>;
+
+/**
+ * Loads a resource a page refers to (such as a linked spec file) from the same source as the page.
+ */
+export type ResourceLoader = (url: string) => Promise<Response>;
+
+/**
+ * Extracts the searchable content of a page.
+ */
+export interface ContentExtractor {
+  /** Unique name of the extractor, stored on every record it produces */
+  name: string;
+  /** Values of the `template` meta tag this extractor handles */
+  templates?: string[];
+  /** URL paths this extractor handles, for pages without a distinctive template */
+  urlPatterns?: RegExp[];
+  /** Recognizes pages by their markup, checked after templates and URL patterns */
+  matches?($: CheerioRoot, metadata: Record<string, string>): boolean;
+  /**
+   * Extracts the content of a page.
+   *
+   * @param $ - Cheerio instance containing the parsed HTML
+   * @param metadata - The page's metadata as read by `extractMetadata`
+   * @param url - The URL of the page
+   * @param loadResource - Loads resources the page refers to
+   * @returns The content, or null to leave the page to {@link genericExtractor}
+   */
+  extract(
+    $: CheerioRoot,
+    metadata: Record<string, string>,
+    url: string,
+    loadResource: ResourceLoader
+  ): ExtractedContent | null | Promise<ExtractedContent | null>;
+}
+
+/**
+ * Reads title, headings, segments, code samples, description and structure from a page's main content
+ * container.
+ *
+ * @param $ - Cheerio instance containing the parsed HTML
+ * @param $main - The main content container
+ * @param metadata - The page's metadata
+ * @returns The extracted content
+ */
+export function extractFromContainer(
+  $: CheerioRoot,
+  $main: ReturnType<CheerioRoot>,
+  metadata: Record<string, string>
+): ExtractedContent {
+  // Extract title with better fallbacks
+  const title =
+    $('title').text().trim() || $('h1').first().text().trim() || metadata['og:title'] || metadata['og_title'] || '';
+
+  // Extract headings and their levels, filtering out empty ones
+  const outline = $main
+    .find('h1, h2, h3, h4, h5, h6')
+    .map((_, el) => ({
+      heading: normalizeHeading($(el).text()),
+      level: parseInt($(el).prop('tagName').substring(1), 10),
+    }))
+    .get()
+    .filter(({ heading }) => heading.length > 0);
+  const headings = outline.map(({ heading }) => heading);
+  const headingLevels = outline.map(({ level }) => level);
+
+  // Extract segments
+  const segments = extractSegments($, $main);
+
+  // Extract code blocks, which are left out of the segments and main content
+  const codeSamples = extractCodeSamples($, $main, headings[0] || title);
+
+  // Get the text of the main content
+  const mainContent = extractText($main);
+
+  // Get description with better fallbacks
+  const description =
+    metadata['description'] ||
+    metadata['og:description'] ||
+    metadata['og_description'] ||
+    extractText($main.find('p').first()) ||
+    mainContent.slice(0, 200) ||
+    '';
+
+  // Track content structure
+  const structure = {
+    hasHeroSection: $main.find('.herosimple').length > 0,
+    hasDiscoverBlocks: $main.find('.discoverblock').length > 0,
+    contentTypes: Array.from(
+      new Set(
+        $main
+          .find('[class]')
+          .map((_, el) => $(el).attr('class'))
+          .get()
+      )
+    ),
+  };
+
+  return { title, headings, headingLevels, segments, codeSamples, mainContent, description, structure };
+}
+
+/**
+ * The fallback extractor: reads the first of `main`, `article`, `.content` and `#content` (or the body)
+ * and segments it by headings.
+ */
+export const genericExtractor: ContentExtractor = {
+  name: 'generic',
+  extract($, metadata) {
+    // Find main content container
+    const $main = $('main').length
+      ? $('main')
+      : $('article').length
+        ? $('article')
+        : $('.content').length
+          ? $('.content')
+          : $('#content').length
+            ? $('#content')
+            : $('body');
+
+    return extractFromContainer($, $main, metadata);
+  },
+};
+
+const extractors: ContentExtractor[] = [openApiExtractor];
+
+/**
+ * Registers an extractor. Extractors are matched in registration order, by template first, URL pattern
+ * second and markup last; registering an extractor with the name of an existing one replaces it.
+ *
+ * @param extractor - The extractor to register
+ */
+export function registerExtractor(extractor: ContentExtractor): void {
+  const existing = extractors.findIndex(({ name }) => name === extractor.name);
+  if (existing >= 0) {
+    extractors[existing] = extractor;
+  } else {
+    extractors.push(extractor);
+  }
+}
+
+/**
+ * Finds the extractor for a page.
+ *
+ * @param url - The URL of the page
+ * @param metadata - The page's metadata, including its `template`
+ * @param $ - Cheerio instance containing the parsed HTML, for extractors that recognize pages by markup
+ * @returns The first extractor registered for the page's template, else the first whose URL pattern
+ * matches the page path, else the first that recognizes the page's markup, else {@link genericExtractor}
+ */
+export function findExtractor(url: string, metadata: Record<string, string>, $?: CheerioRoot): ContentExtractor {
+  const template = metadata['template'];
+  const byTemplate = extractors.find((extractor) => template && extractor.templates?.includes(template));
+  if (byTemplate) {
+    return byTemplate;
+  }
+
+  let pathname = '';
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    // Invalid URLs are only matched by template and markup
+  }
+
+  const byPath = extractors.find(
+    (extractor) => pathname && extractor.urlPatterns?.some((pattern) => pattern.test(pathname))
+  );
+  if (byPath) {
+    return byPath;
+  }
+
+  return ($ && extractors.find((extractor) => extractor.matches?.($, metadata))) || genericExtractor;
+}
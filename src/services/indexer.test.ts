@@ -0,0 +1,144 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import type { AlgoliaRecord } from '../types/algolia';
+import type { SitemapUrl } from '../types/index';
+
+import { AlgoliaService } from './algolia';
+import { ContentIndexer } from './indexer';
+import { ProductMappingService } from './product-mapping';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+const PARAGRAPH =
+  'The Photoshop API lets you automate edits to PSD files in the cloud, from applying presets to replacing smart objects.';
+
+const page = (title: string, head = ''): string => `<html>
+  <head><title>${title}</title>${head}</head>
+  <body><main><h1>${title}</h1><p>${PARAGRAPH}</p></main></body>
+</html>`;
+
+const baseUrl = 'https://developer.adobe.com';
+const dir = await mkdtemp(join(tmpdir(), 'indexer-test-'));
+const cwd = process.cwd();
+
+/**
+ * Runs the indexer over pages read from disk, from a directory of its own, and returns what it would save to
+ * Algolia along with what it printed.
+ */
+const runIndexer = async (
+  name: string,
+  pages: Record<string, string>,
+  paths: string[]
+): Promise<{ records: AlgoliaRecord[]; excludedByIndex: Map<string, string[]>; output: string[] }> => {
+  const runDir = join(dir, name);
+  for (const [path, html] of Object.entries(pages)) {
+    await mkdir(join(runDir, 'pages', path, '..'), { recursive: true });
+    await writeFile(join(runDir, 'pages', `${path}.html`), html);
+  }
+  const mappingPath = join(runDir, 'product-index-map.json');
+  await writeFile(
+    mappingPath,
+    JSON.stringify([
+      {
+        productName: 'Photoshop',
+        productIndices: [
+          { indexName: 'photoshop', indexPathPrefix: '/ps' },
+          { indexName: 'photoshop-legacy', indexPathPrefix: '/old' },
+        ],
+      },
+    ])
+  );
+
+  const saved = { records: [] as AlgoliaRecord[], excludedByIndex: new Map<string, string[]>() };
+  const output: string[] = [];
+  const log = console.log;
+  process.chdir(runDir);
+  console.log = (...args: unknown[]) => output.push(args.join(' '));
+  try {
+    const productMappingService = new ProductMappingService();
+    await productMappingService.initialize(mappingPath);
+    const algolia = new AlgoliaService({ appId: 'test', apiKey: 'test' }, productMappingService);
+    algolia.saveRecords = async (records, excludedByIndex) => {
+      Object.assign(saved, { records, excludedByIndex });
+      return [];
+    };
+
+    const indexer = new ContentIndexer(mappingPath, baseUrl, algolia, 1, true, { contentDir: join(runDir, 'pages') });
+    await indexer.run(paths.map((path): SitemapUrl => ({ loc: `${baseUrl}${path}` })));
+  } finally {
+    console.log = log;
+    process.chdir(cwd);
+  }
+
+  return { ...saved, output };
+};
+
+try {
+  // Simple tests for canonical URLs and aliases
+  console.log('Testing alias collapsing:');
+
+  const canonical = `<link rel="canonical" href="${baseUrl}/ps/guide">`;
+  const moved = `<link rel="canonical" href="${baseUrl}/ps/moved">`;
+  const { records, output } = await runIndexer(
+    'aliases',
+    {
+      'ps/old-guide': page('Guide', canonical),
+      'ps/guide': page('Guide', canonical),
+      'ps/guide-copy': page('Guide', canonical),
+      'ps/other': page('Other'),
+      // Two aliases of a page that isn't in the sitemap
+      'ps/moved-a': page('Moved', moved),
+      'ps/moved-b': page('Moved', moved),
+    },
+    // The alias comes before its canonical page
+    ['/ps/old-guide', '/ps/guide', '/ps/guide-copy', '/ps/other', '/ps/moved-a', '/ps/moved-b']
+  );
+
+  const pageUrls = [...new Set(records.map((record) => record.url))].sort();
+  check(
+    JSON.stringify(pageUrls) === JSON.stringify([`${baseUrl}/ps/guide`, `${baseUrl}/ps/moved`, `${baseUrl}/ps/other`]),
+    `Aliases are indexed once, under the canonical URL → ${JSON.stringify(pageUrls)}`
+  );
+  check(
+    output.some((line) => line.includes('Alias groups: 2 (4 alias URLs indexed under their canonical URL)')),
+    'The canonical page is not counted as an alias'
+  );
+  check(
+    output.includes(`  • ${baseUrl}/ps/guide ← ${baseUrl}/ps/old-guide, ${baseUrl}/ps/guide-copy`),
+    'The alias group lists the aliases only'
+  );
+
+  console.log('\nTesting noindex pages:');
+
+  const noindex = '<meta name="robots" content="noindex">';
+  const excluded = await runIndexer(
+    'noindex',
+    {
+      'ps/hidden': page('Hidden', noindex),
+      // An old path of a page that moved to another index
+      'old/hidden': page('Hidden', `${noindex}<link rel="canonical" href="${baseUrl}/ps/hidden-page">`),
+      'ps/visible': page('Visible'),
+    },
+    ['/ps/hidden', '/old/hidden', '/ps/visible']
+  );
+  check(
+    JSON.stringify([...excluded.excludedByIndex]) ===
+      JSON.stringify([['photoshop', [`${baseUrl}/ps/hidden`, `${baseUrl}/ps/hidden-page`]]]),
+    `Noindex pages are reported under the index of their canonical URL → ${JSON.stringify([...excluded.excludedByIndex])}`
+  );
+  check(
+    JSON.stringify(excluded.records.map((record) => record.url)) === JSON.stringify([`${baseUrl}/ps/visible`]),
+    'Noindex pages get no records'
+  );
+} finally {
+  await rm(dir, { recursive: true, force: true });
+}
+
+console.log('\nDone!');
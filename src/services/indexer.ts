@@ -5,13 +5,17 @@ import { join } from 'node:path';
 import chalk from 'chalk';
 
 import type { AlgoliaRecord } from '../types/algolia';
-import type { SitemapUrl, PageContent } from '../types/index';
+import type { CleaningRules, ExclusionRules, SitemapUrl, PageContent, SitemapSource } from '../types/index';
 import { ensureDir } from '../utils/ensure-dir';
+import { detectLanguage } from '../utils/locale';
 import { TaskQueue } from '../utils/queue';
+import { getPageUrl, normalizeUrl } from '../utils/url';
 
 import { AlgoliaService } from './algolia';
-import { fetchPageContent, shouldSegmentContent } from './content';
+import { fetchPageContent, shouldSegmentContent, type PageFetchOptions } from './content';
+import type { PageCache } from './page-cache';
 import { ProductMappingService } from './product-mapping';
+import { getSitemapPriority } from './sitemap';
 
 interface IndexingStats {
   total: number;
@@ -20,6 +24,19 @@ interface IndexingStats {
   failed: number;
   noMapping: number;
   byIndex: Map<string, number>;
+  bySource: Map<string, SourceStats>;
+  /** The URLs processed for each canonical URL; entries with several URLs are alias groups */
+  canonicalGroups: Map<string, string[]>;
+  /** URLs left out because the page opts out of search (noindex) */
+  excluded: number;
+  /** The excluded URLs by the index their records would belong to, so those records can be deleted */
+  excludedByIndex: Map<string, string[]>;
+}
+
+interface SourceStats {
+  urls: number;
+  records: number;
+  issues: number;
 }
 
 interface IndexedContent {
@@ -33,6 +50,34 @@ interface IndexInfo {
   productName: string;
 }
 
+/**
+ * Optional settings for a ContentIndexer run.
+ */
+export interface ContentIndexerOptions {
+  /** Directory of saved HTML pages to read instead of fetching pages from the network */
+  contentDir?: string;
+  /** Directory of docs repository checkouts to read each page's Markdown source from */
+  markdownRoot?: string;
+  /** Cache of fetched pages to revalidate with conditional requests */
+  cache?: PageCache;
+  /** Selectors of the page parts removed before extraction */
+  cleaning?: CleaningRules;
+  /** Whether to print the elements each cleaning rule removes from each page */
+  debugCleaning?: boolean;
+  /** Sitemap sources of the run; URLs tagged with a source are fetched from its base URL */
+  sources?: SitemapSource[];
+  /** Rules for the paths that are never indexed, instead of the built-in rules */
+  exclusions?: ExclusionRules;
+}
+
+/**
+ * Returns the objectID of the single record saved for a page that isn't segmented. Like the objectIDs of
+ * segment records, it is the hash of the normalized page URL.
+ */
+export function getPageObjectId(content: Pick<PageContent, 'url' | 'canonicalUrl'>): string {
+  return createHash('md5').update(getPageUrl(content)).digest('hex');
+}
+
 /**
  *
  */
@@ -46,12 +91,21 @@ export class ContentIndexer {
   private recordsByIndex: Map<string, AlgoliaRecord[]>;
   private baseUrl: string;
   private algolia: AlgoliaService;
+  private _pageOptions: PageFetchOptions;
+  private _sourceBaseUrls: Map<string, string>;
 
   /**
    *
    */
-  constructor(mappingUrl: string, baseUrl: string, algolia: AlgoliaService, concurrency = 5, verbose = false) {
-    this.productMapping = new ProductMappingService(verbose);
+  constructor(
+    mappingUrl: string,
+    baseUrl: string,
+    algolia: AlgoliaService,
+    concurrency = 5,
+    verbose = false,
+    options: ContentIndexerOptions = {}
+  ) {
+    this.productMapping = new ProductMappingService(verbose, options.exclusions);
     this.queue = new TaskQueue(concurrency);
     this.verbose = verbose;
     this.outputDir = join(process.cwd(), 'indexed-content');
@@ -62,11 +116,25 @@ export class ContentIndexer {
       failed: 0,
       noMapping: 0,
       byIndex: new Map(),
+      bySource: new Map(),
+      canonicalGroups: new Map(),
+      excluded: 0,
+      excludedByIndex: new Map(),
     };
     this.mappingUrl = mappingUrl;
     this.recordsByIndex = new Map();
     this.baseUrl = baseUrl;
     this.algolia = algolia;
+    this._pageOptions = {
+      contentDir: options.contentDir,
+      markdownRoot: options.markdownRoot,
+      cache: options.cache,
+      cleaning: options.cleaning,
+      debugCleaning: options.debugCleaning,
+    };
+    this._sourceBaseUrls = new Map(
+      (options.sources || []).flatMap((source) => (source.baseUrl ? [[source.name, source.baseUrl]] : []))
+    );
   }
 
   /**
@@ -97,32 +165,93 @@ export class ContentIndexer {
     }
   }
 
+  private _updateSourceStats(url: SitemapUrl, records: number, issue = false): void {
+    if (!url.sourceName) {
+      return;
+    }
+
+    const stats = this.stats.bySource.get(url.sourceName) || { urls: 0, records: 0, issues: 0 };
+    stats.urls++;
+    stats.records += records;
+    if (issue) {
+      stats.issues++;
+    }
+    this.stats.bySource.set(url.sourceName, stats);
+  }
+
+  private _updateExcludedStats(url: SitemapUrl, pageUrl: string): void {
+    this.stats.excluded++;
+
+    const mappedIndex = this.productMapping.getIndexForUrl(pageUrl);
+    if (mappedIndex) {
+      const indexName = this.algolia.getLocaleIndexName(mappedIndex.indexName, detectLanguage(url.loc, url.alternates));
+      this.stats.excludedByIndex.set(indexName, [...(this.stats.excludedByIndex.get(indexName) || []), pageUrl]);
+    }
+
+    if (this.verbose) {
+      console.log(`⊘ ${pageUrl} (noindex)`);
+    }
+  }
+
   /**
    *
    */
   async processUrl(url: SitemapUrl): Promise<void> {
+    // Transform URL to use our base URL (or the base URL of the URL's source)
+    const baseUrl = (url.sourceName && this._sourceBaseUrls.get(url.sourceName)) || this.baseUrl;
+    let transformedUrl = url.loc;
+
     try {
-      // Transform URL to use our base URL
       const urlObj = new URL(url.loc);
-      const transformedUrl = new URL(urlObj.pathname, this.baseUrl).toString();
+      transformedUrl = new URL(urlObj.pathname, baseUrl).toString();
+
+      const content = await fetchPageContent(transformedUrl, this._pageOptions);
 
-      const content = await fetchPageContent(transformedUrl);
-      const indexInfo = this.productMapping.getIndexForUrl(transformedUrl);
+      // Pages reachable under several paths are indexed once, under their canonical URL
+      const canonicalUrl = getPageUrl({ url: transformedUrl, canonicalUrl: content.canonicalUrl });
+      const group = this.stats.canonicalGroups.get(canonicalUrl);
+      this.stats.canonicalGroups.set(canonicalUrl, [...(group || []), transformedUrl]);
+      if (group) {
+        if (this.verbose) {
+          console.log(`↪ ${transformedUrl} (already indexed as ${canonicalUrl})`);
+        }
+        this._updateSourceStats(url, 0);
+        this.updateProcessedCount();
+        return;
+      }
 
-      if (!indexInfo) {
+      const mappedIndex = this.productMapping.getIndexForUrl(canonicalUrl);
+
+      if (!mappedIndex) {
         this.updateStats(null);
+        this._updateSourceStats(url, 0, true);
         return;
       }
 
-      // Update content URL to use our base URL
-      content.url = transformedUrl;
+      // Update content URL to use our base URL; records describe the canonical page, whichever of its URLs came first
+      content.url = normalizeUrl(transformedUrl) === canonicalUrl ? transformedUrl : canonicalUrl;
+
+      // The sitemap hreflang wins over <html lang> and the path prefix
+      content.language = detectLanguage(url.loc, url.alternates, content.language);
+      const indexInfo: IndexInfo = {
+        ...mappedIndex,
+        indexName: this.algolia.getLocaleIndexName(mappedIndex.indexName, content.language),
+      };
 
       // Determine if content should be segmented - pass lastmod
       if (shouldSegmentContent(content)) {
-        const records = this.algolia.createRecord(content, url.lastmod);
+        const records = this.algolia.createRecord(content, url.lastmod, getSitemapPriority(url));
         await this.addRecordsToIndex(records, indexInfo);
+        this._updateSourceStats(url, records.length);
       } else {
-        await this.indexContent(content, indexInfo, url.lastmod);
+        await this.indexContent(content, indexInfo, url.lastmod, getSitemapPriority(url));
+
+        // Code blocks, table rows and API operations get their own records even when the page isn't segmented
+        const extraRecords = this.algolia.createStructuredRecords(content, url.lastmod, getSitemapPriority(url));
+        if (extraRecords.length > 0) {
+          await this.addRecordsToIndex(extraRecords, indexInfo);
+        }
+        this._updateSourceStats(url, 1 + extraRecords.length);
       }
 
       if (this.verbose) {
@@ -133,50 +262,93 @@ export class ContentIndexer {
       this.updateProcessedCount();
     } catch (error) {
       if (error && typeof error === 'object' && 'type' in error && (error as { type: string }).type === 'skip') {
+        // Pages that opt out of search aren't issues, but their existing records must go
+        if ((error as { reason?: string }).reason === 'noindex') {
+          const { canonicalUrl } = error as { canonicalUrl?: string };
+          this._updateExcludedStats(url, getPageUrl({ url: transformedUrl, canonicalUrl }));
+          this._updateSourceStats(url, 0);
+          this.updateProcessedCount();
+          return;
+        }
+
         this.updateStats(null, new Error((error as { message?: string }).message || 'Skip error'));
+        this._updateSourceStats(url, 0, true);
         return;
       }
 
       // Only log errors in verbose mode unless it's a critical error
       console.error(`Failed to process ${url.loc}:`, error);
       this.updateStats(null, error instanceof Error ? error : new Error(String(error)));
+      this._updateSourceStats(url, 0, true);
     }
   }
 
   /**
+   * Processes sitemap entries through the task queue.
    *
+   * Accepts either an array or an async iterable such as a sitemap stream. With a stream, each URL is
+   * queued as soon as it is parsed, so fetching pages starts before the whole sitemap has been read. The
+   * next URL is only read once the queue has room for it, so memory stays bounded however long the sitemap
+   * is. URLs with a higher sitemap priority are processed first.
    */
-  async processUrls(urls: SitemapUrl[]): Promise<void> {
+  async processUrls(urls: SitemapUrl[] | AsyncIterable<SitemapUrl>): Promise<void> {
     // In verbose mode, show the queue configuration
     if (this.verbose) {
       console.log(`\nProcessing URLs with concurrency: ${this.queue.concurrency}`);
     }
 
-    // Track total progress
+    // Track total progress (the total is unknown up front when streaming)
     let processed = 0;
-    const total = urls.length;
-
-    // Add progress reporting to log every 10% of progress
-    const progressStep = Math.max(1, Math.floor(total / 10));
-
-    const tasks = urls.map((url) => async () => {
-      await this.processUrl(url);
-
-      // Increment the processed counter
-      processed++;
-
-      // Report progress only in verbose mode
-      if (this.verbose && processed % progressStep === 0) {
-        const percent = Math.floor((processed / total) * 100);
-        console.log(`Progress: ${processed}/${total} URLs processed (${percent}%)`);
-      }
-    });
+    const total = Array.isArray(urls) ? urls.length : undefined;
+
+    // Add progress reporting to log every 10% of progress, or every 100 URLs when streaming
+    const progressStep = total !== undefined ? Math.max(1, Math.floor(total / 10)) : 100;
+
+    // Sort arrays up front so the first pages to start are also the most important ones
+    const ordered = Array.isArray(urls)
+      ? [...urls].sort((a, b) => getSitemapPriority(b) - getSitemapPriority(a))
+      : urls;
+
+    // Only the queued and running tasks are kept; the first failure is rethrown once they have settled
+    const inFlight = new Set<Promise<void>>();
+    let failure: { error: unknown } | undefined;
+
+    for await (const url of ordered) {
+      // Keep up to one waiting task per slot, so priorities still order the URLs read ahead
+      await this.queue.waitForCapacity(this.queue.concurrency);
+
+      const task: Promise<void> = this.queue
+        .add(async () => {
+          await this.processUrl(url);
+
+          // Increment the processed counter
+          processed++;
+
+          // Report progress only in verbose mode
+          if (this.verbose && processed % progressStep === 0) {
+            if (total !== undefined) {
+              const percent = Math.floor((processed / total) * 100);
+              console.log(`Progress: ${processed}/${total} URLs processed (${percent}%)`);
+            } else {
+              console.log(`Progress: ${processed} URLs processed`);
+            }
+          }
+        }, getSitemapPriority(url))
+        .catch((error: unknown) => {
+          failure ??= { error };
+        })
+        .finally(() => inFlight.delete(task));
+      inFlight.add(task);
+    }
 
-    await this.queue.addBatch(tasks);
+    await Promise.all(inFlight);
+    if (failure) {
+      throw failure.error;
+    }
   }
 
   private async saveAllRecords(): Promise<void> {
-    if (this.recordsByIndex.size === 0) {
+    if (this.recordsByIndex.size === 0 && this.stats.excludedByIndex.size === 0) {
       return;
     }
 
@@ -194,7 +366,7 @@ export class ContentIndexer {
       }
 
       // Get actual indexing results from Algolia
-      const results = await this.algolia.saveRecords(allRecords);
+      const results = await this.algolia.saveRecords(allRecords, this.stats.excludedByIndex);
 
       // Reset current counts and update based on actual results
       this.stats.success = 0;
@@ -257,6 +429,10 @@ export class ContentIndexer {
       console.log(`Processed: ${this.stats.total} URLs`);
       console.log(`Generated: ${totalRecords} records`);
 
+      if (this.stats.excluded > 0) {
+        console.log(`Excluded (noindex): ${this.stats.excluded} URLs`);
+      }
+
       if (this.stats.success > 0) {
         console.log(`Updated in Algolia: ${this.stats.success} records`);
         console.log('\nBy index:');
@@ -284,6 +460,9 @@ export class ContentIndexer {
       console.log(`${chalk.bold('Final Summary')}`);
       console.log(`Processed ${chalk.cyan(this.stats.total)} URLs, generated ${chalk.cyan(totalRecords)} records`);
       console.log(`Updated ${chalk.green(this.stats.success)} records in Algolia`);
+      if (this.stats.excluded > 0) {
+        console.log(`Excluded ${chalk.cyan(this.stats.excluded)} URLs marked noindex`);
+      }
 
       // Only show issues if there are any
       const totalIssues = this.stats.notFound + this.stats.noMapping + this.stats.failed;
@@ -293,16 +472,53 @@ export class ContentIndexer {
         );
       }
     }
+
+    // Show which URLs were collapsed into a single canonical page; every URL but the canonical one is an alias
+    const aliasGroups = Array.from(this.stats.canonicalGroups)
+      .filter(([, urls]) => urls.length > 1)
+      .map(([canonicalUrl, urls]) => ({
+        canonicalUrl,
+        aliases: urls.filter((pageUrl) => normalizeUrl(pageUrl) !== canonicalUrl),
+      }));
+    if (aliasGroups.length > 0) {
+      const aliasCount = aliasGroups.reduce((sum, group) => sum + group.aliases.length, 0);
+      console.log(
+        `\nAlias groups: ${chalk.cyan(aliasGroups.length)} (${aliasCount} alias URLs indexed under their canonical URL)`
+      );
+      if (this.verbose) {
+        for (const { canonicalUrl, aliases } of aliasGroups) {
+          console.log(`  • ${canonicalUrl} ← ${aliases.join(', ')}`);
+        }
+      }
+    }
+
+    // Show how many pages were reused rather than downloaded again
+    const cacheStats = this._pageOptions.cache?.stats;
+    if (cacheStats && cacheStats.hits + cacheStats.misses > 0) {
+      console.log(
+        `\nPage cache: ${chalk.green(cacheStats.hits)} not modified, ${cacheStats.misses} downloaded (${cacheStats.stored} cached)`
+      );
+    }
+
+    // Break the results down per sitemap source when the run had several
+    if (this.stats.bySource.size > 1) {
+      console.log('\nBy source:');
+      for (const [name, stats] of this.stats.bySource) {
+        console.log(`  • ${chalk.cyan(name)}: ${stats.urls} URLs, ${stats.records} records, ${stats.issues} issues`);
+      }
+    }
   }
 
   /**
    *
    */
-  async run(urls: SitemapUrl[]): Promise<void> {
+  async run(urls: SitemapUrl[] | AsyncIterable<SitemapUrl>): Promise<void> {
     try {
       await this.initialize();
 
-      if (this.verbose) {
+      if (!Array.isArray(urls)) {
+        console.log(`\n${chalk.bold('Processing')} URLs as they are streamed from the sitemap`);
+      } else if (this.verbose) {
         console.log(`\nProcessing ${urls.length} URLs...`);
       } else {
         console.log(`\n${chalk.bold('Processing')} ${chalk.cyan(urls.length)} URLs from sitemap`);
@@ -321,7 +537,12 @@ export class ContentIndexer {
     }
   }
 
-  private async indexContent(content: PageContent, indexInfo: IndexInfo, lastmod?: string): Promise<void> {
+  private async indexContent(
+    content: PageContent,
+    indexInfo: IndexInfo,
+    lastmod?: string,
+    priority?: number
+  ): Promise<void> {
     try {
       // Determine the best title to use
       const title =
@@ -333,9 +554,9 @@ export class ContentIndexer {
 
       // Create the Algolia record
       const record: AlgoliaRecord = {
-        objectID: createHash('md5').update(content.url).digest('hex'),
-        url: content.url,
-        path: new URL(content.url).pathname,
+        objectID: getPageObjectId(content),
+        url: content.canonicalUrl || content.url,
+        path: new URL(content.canonicalUrl || content.url).pathname,
         indexName: indexInfo.indexName,
         title,
         description: content.description || content.metadata?.['og_description'] || '',
@@ -346,8 +567,11 @@ export class ContentIndexer {
         topics: Array.isArray(content.metadata?.['topics']) ? content.metadata['topics'] : [],
         lastModified: content.metadata?.['lastModified'] || lastmod || new Date().toISOString(),
         sourceLastmod: lastmod,
+        priority,
+        language: content.language,
+        extractor: content.extractor,
         indexedAt: new Date().toISOString(),
-        hierarchy: this.buildHierarchy(content.url, content.headings),
+        hierarchy: this.buildHierarchy(content.canonicalUrl || content.url, content.headings),
         metadata: {
           keywords: Array.isArray(content.metadata?.['keywords'])
             ? content.metadata['keywords'].join(',')
@@ -0,0 +1,136 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { lintProductMapping } from './mapping-lint';
+import { ProductMappingService } from './product-mapping';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+const dir = await mkdtemp(join(tmpdir(), 'mapping-lint-test-'));
+
+// Writes a mapping to disk and loads it the way a run does
+const loadMapping = async (mapping: unknown): Promise<ProductMappingService> => {
+  const mappingPath = join(dir, 'product-index-map.json');
+  await writeFile(mappingPath, JSON.stringify(mapping));
+  const productMappingService = new ProductMappingService();
+  await productMappingService.initialize(mappingPath);
+  return productMappingService;
+};
+
+try {
+  // Simple tests for the product mapping schema
+  console.log('Testing the product mapping schema:');
+
+  const schemaCases = [
+    {
+      name: 'A valid mapping loads',
+      mapping: [
+        {
+          productName: 'Photoshop',
+          productIndices: [
+            { indexName: 'photoshop', indexPathPrefix: '/photoshop', exclude: ['/photoshop/uxp'], priority: 1 },
+          ],
+        },
+      ],
+      expected: null,
+    },
+    {
+      name: 'An empty index name is rejected',
+      mapping: [{ productName: 'Photoshop', productIndices: [{ indexName: '', indexPathPrefix: '/photoshop' }] }],
+      expected: '0.productIndices.0.indexName',
+    },
+    {
+      name: 'A missing prefix is rejected',
+      mapping: [{ productName: 'Photoshop', productIndices: [{ indexName: 'photoshop' }] }],
+      expected: '0.productIndices.0.indexPathPrefix: Required',
+    },
+    {
+      name: 'An invalid pattern is rejected',
+      mapping: [
+        {
+          productName: 'Photoshop',
+          productIndices: [{ indexName: 'photoshop', indexPathPrefix: '/photoshop', include: ['regex:(unclosed'] }],
+        },
+      ],
+      expected: '0.productIndices.0.include.0',
+    },
+    { name: 'A mapping that is not a list is rejected', mapping: { photoshop: '/photoshop' }, expected: 'mappings' },
+  ];
+
+  for (const test of schemaCases) {
+    let result: string | null = null;
+    try {
+      await loadMapping(test.mapping);
+    } catch (error) {
+      result = error instanceof Error ? error.message : String(error);
+    }
+
+    const passed = test.expected === null ? result === null : !!result?.includes(test.expected);
+    check(passed, `${test.name} ${!passed ? `→ ${result}` : ''}`);
+  }
+
+  console.log('\nTesting lintProductMapping function:');
+
+  const productMappingService = await loadMapping([
+    {
+      productName: 'Photoshop',
+      productIndices: [
+        { indexName: 'photoshop', indexPathPrefix: '/photoshop' },
+        { indexName: 'photoshop-uxp', indexPathPrefix: '/photoshop/uxp/' },
+        { indexName: 'photoshop-api', indexPathPrefix: '/photoshop/api', exclude: ['/photoshop/api/v1'] },
+        { indexName: 'photoshop-old', indexPathPrefix: '/photoshop/' },
+      ],
+    },
+    {
+      productName: 'Express',
+      productIndices: [
+        { indexName: 'express', indexPathPrefix: 'express' },
+        { indexName: 'Photoshop', indexPathPrefix: '/express/photoshop' },
+        { indexName: 'express-addons', indexPathPrefix: '/express/add-ons' },
+      ],
+    },
+  ]);
+
+  const report = lintProductMapping(
+    productMappingService,
+    ['/photoshop/guides/', '/photoshop/uxp/', '/photoshop/api/v1/', '/express/photoshop/'].map((path) => ({
+      loc: `https://developer.adobe.com${path}`,
+    }))
+  );
+  const issues = report.issues.map((issue) => `${issue.type} ${issue.indexName}`);
+
+  const expectedIssues = [
+    'duplicate-index-name Photoshop',
+    'shadowed-prefix photoshop-old',
+    'missing-leading-slash express',
+    'overlapping-prefix photoshop-uxp',
+    'overlapping-prefix photoshop-api',
+    'unmatched-prefix photoshop-api',
+    'unmatched-prefix express-addons',
+  ];
+
+  check(
+    JSON.stringify(issues) === JSON.stringify(expectedIssues),
+    `Issues → ${JSON.stringify(issues)} ${JSON.stringify(issues) !== JSON.stringify(expectedIssues) ? `(expected ${JSON.stringify(expectedIssues)})` : ''}`
+  );
+  check(
+    report.checked === 7 && report.sitemapUrls === 4 && report.counts.error === 3 && report.counts.warning === 4,
+    `${report.checked} entries checked against ${report.sitemapUrls} URLs, ${report.counts.error} errors, ${report.counts.warning} warnings`
+  );
+
+  const withoutSitemap = lintProductMapping(productMappingService);
+  check(
+    withoutSitemap.sitemapUrls === null && !withoutSitemap.issues.some((issue) => issue.type === 'unmatched-prefix'),
+    'Rules are not checked against the sitemap when no sitemap is given'
+  );
+} finally {
+  await rm(dir, { recursive: true, force: true });
+}
+
+console.log('\nDone!');
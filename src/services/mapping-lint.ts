@@ -0,0 +1,254 @@
+import chalk from 'chalk';
+
+import type { ProductIndex, SitemapUrl } from '../types/index';
+import { findMatchingPattern } from '../utils/path-pattern';
+
+import type { ProductMappingService, RuleMatch } from './product-mapping';
+
+/**
+ * How serious a mapping problem is. Errors point at entries that can never match or that mix up indices;
+ * warnings point at entries that work but may not do what their author expects.
+ */
+export type MappingIssueSeverity = 'error' | 'warning';
+
+/**
+ * The checks run by {@link lintProductMapping}.
+ */
+export type MappingIssueType =
+  | 'duplicate-index-name'
+  | 'missing-leading-slash'
+  | 'shadowed-prefix'
+  | 'overlapping-prefix'
+  | 'unmatched-prefix';
+
+/**
+ * A problem found with a single entry of the product mapping.
+ */
+export interface MappingIssue {
+  /** Which check found the problem */
+  type: MappingIssueType;
+  /** How serious the problem is */
+  severity: MappingIssueSeverity;
+  /** The product the entry belongs to */
+  productName: string;
+  /** The index of the entry */
+  indexName: string;
+  /** The path prefix of the entry */
+  indexPathPrefix: string;
+  /** A description of the problem */
+  message: string;
+}
+
+/**
+ * Results of linting a product mapping.
+ */
+export interface MappingLintReport {
+  /** Number of index entries checked */
+  checked: number;
+  /** Number of sitemap URLs the prefixes were matched against, or null when no sitemap was checked */
+  sitemapUrls: number | null;
+  /** Number of issues per severity */
+  counts: Record<MappingIssueSeverity, number>;
+  /** The issues found, in check order */
+  issues: MappingIssue[];
+}
+
+interface MappingEntry extends ProductIndex {
+  productName: string;
+  /** The prefix the way findBestMatch compares it, without a trailing slash */
+  prefix: string;
+  segments: number;
+}
+
+const SEVERITIES: Record<MappingIssueType, MappingIssueSeverity> = {
+  'duplicate-index-name': 'error',
+  'missing-leading-slash': 'error',
+  'shadowed-prefix': 'error',
+  'overlapping-prefix': 'warning',
+  'unmatched-prefix': 'warning',
+};
+
+const TITLES: Record<MappingIssueType, string> = {
+  'duplicate-index-name': 'Index names used by several products',
+  'missing-leading-slash': 'Prefixes without a leading slash',
+  'shadowed-prefix': 'Prefixes shadowed by an earlier entry',
+  'overlapping-prefix': 'Prefixes nested under another index',
+  'unmatched-prefix': 'Rules matching no sitemap URL',
+};
+
+const matchesPrefix = (path: string, prefix: string): boolean => path === prefix || path.startsWith(`${prefix}/`);
+
+/**
+ * Checks a product mapping for entries that don't route pages where their author expects: index names claimed
+ * by more than one product, path prefixes without a leading slash (which never match), prefixes listed more
+ * than once, prefixes nested under another index's prefix, and, when sitemap URLs are given, rules that no
+ * sitemap URL ends up in.
+ *
+ * The prefix checks only judge rules that match by prefix alone; rules with include or exclude patterns or a
+ * priority are checked against the sitemap with {@link ProductMappingService.evaluateRules}, like indexing does.
+ *
+ * @param productMapping - The service holding the product mapping to check.
+ * @param urls - Optional sitemap entries to match the prefixes against.
+ * @returns The issues found, with counts per severity.
+ */
+export function lintProductMapping(productMapping: ProductMappingService, urls?: SitemapUrl[]): MappingLintReport {
+  const entries: MappingEntry[] = productMapping.getProductMappings().flatMap(({ productName, productIndices }) =>
+    productIndices.map((index) => {
+      const prefix = index.indexPathPrefix.replace(/\/$/, '');
+      return { ...index, productName, prefix, segments: prefix.split('/').filter(Boolean).length };
+    })
+  );
+  const report: MappingLintReport = {
+    checked: entries.length,
+    sitemapUrls: urls ? urls.length : null,
+    counts: { error: 0, warning: 0 },
+    issues: [],
+  };
+
+  const addIssue = (type: MappingIssueType, entry: MappingEntry, message: string): void => {
+    const severity = SEVERITIES[type];
+    const { productName, indexName, indexPathPrefix } = entry;
+    report.issues.push({ type, severity, productName, indexName, indexPathPrefix, message });
+    report.counts[severity]++;
+  };
+
+  // Index names are compared case-insensitively, like --index-filter does
+  const productsByIndex = new Map<string, string>();
+  for (const entry of entries) {
+    const owner = productsByIndex.get(entry.indexName.toLowerCase());
+    if (owner === undefined) {
+      productsByIndex.set(entry.indexName.toLowerCase(), entry.productName);
+    } else if (owner !== entry.productName) {
+      addIssue('duplicate-index-name', entry, `Index ${entry.indexName} already belongs to product ${owner}`);
+    }
+  }
+
+  // Only rules without patterns or a priority can be judged by their prefix alone
+  const isPrefixOnly = (entry: MappingEntry): boolean => !entry.include && !entry.exclude && !entry.priority;
+
+  // Entries that can take part in matching, i.e. have a prefix findBestMatch can ever match
+  const routable: MappingEntry[] = [];
+  for (const entry of entries) {
+    if (!entry.include && !entry.indexPathPrefix.startsWith('/')) {
+      addIssue(
+        'missing-leading-slash',
+        entry,
+        `Never matches: URL paths start with "/", try "/${entry.indexPathPrefix}"`
+      );
+      continue;
+    }
+
+    const earlier = isPrefixOnly(entry)
+      ? routable.find((other) => isPrefixOnly(other) && other.prefix === entry.prefix)
+      : undefined;
+    if (earlier) {
+      addIssue(
+        'shadowed-prefix',
+        entry,
+        earlier.indexName === entry.indexName
+          ? `Listed again for index ${earlier.indexName}`
+          : `Never matches: ${earlier.indexPathPrefix} is already mapped to index ${earlier.indexName}`
+      );
+      continue;
+    }
+
+    routable.push(entry);
+  }
+
+  // A parent that excludes the nested prefix already hands those URLs over on purpose
+  for (const entry of routable.filter((candidate) => !candidate.include)) {
+    const parents = routable.filter(
+      (other) =>
+        other !== entry &&
+        !other.include &&
+        other.indexName !== entry.indexName &&
+        other.segments < entry.segments &&
+        matchesPrefix(entry.prefix, other.prefix) &&
+        !(other.exclude && findMatchingPattern(entry.prefix, other.exclude))
+    );
+    if (parents.length > 0) {
+      const parent = parents.reduce((best, other) => (other.segments > best.segments ? other : best));
+      addIssue(
+        'overlapping-prefix',
+        entry,
+        `Nested under ${parent.indexPathPrefix} (index ${parent.indexName}); URLs under it go to ${entry.indexName}`
+      );
+    }
+  }
+
+  if (urls) {
+    // How many URLs each rule matches, and which rules win at least one
+    const getKey = ({
+      productName,
+      indexName,
+      pathPrefix,
+    }: Pick<RuleMatch, 'productName' | 'indexName' | 'pathPrefix'>): string =>
+      `${productName}\n${indexName}\n${pathPrefix}`;
+    const matched = new Map<string, number>();
+    const won = new Set<string>();
+
+    for (const url of urls) {
+      let path: string;
+      try {
+        path = new URL(url.loc).pathname;
+      } catch {
+        continue;
+      }
+      if (productMapping.shouldExcludePath(path)) {
+        continue;
+      }
+
+      // Rules are told apart by product, index and prefix, which shadowed duplicates share with their original
+      const { matches } = productMapping.evaluateRules(path.replace(/\/$/, ''));
+      matches.forEach((match) => matched.set(getKey(match), (matched.get(getKey(match)) || 0) + 1));
+      if (matches.length > 0) {
+        won.add(getKey(matches[0]));
+      }
+    }
+
+    for (const entry of routable) {
+      const key = getKey({ ...entry, pathPrefix: entry.prefix });
+      const count = matched.get(key) || 0;
+      if (count === 0) {
+        addIssue('unmatched-prefix', entry, 'No sitemap URL matches this rule');
+      } else if (!won.has(key)) {
+        addIssue('unmatched-prefix', entry, `All ${count} sitemap URLs it matches go to rules that rank higher`);
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Prints a mapping lint report grouped by check.
+ *
+ * @param report - The lint results.
+ * @param verbose - Whether to list every affected entry instead of the first few per check.
+ */
+export function printMappingLintReport(report: MappingLintReport, verbose = false): void {
+  console.log(`\n${chalk.bold('Product Mapping Lint')}`);
+  console.log(
+    `Checked ${chalk.cyan(report.checked)} index entries: ${chalk.red(`${report.counts.error} errors`)}, ` +
+      `${chalk.yellow(`${report.counts.warning} warnings`)}`
+  );
+  if (report.sitemapUrls === null) {
+    console.log('No sitemap configured, so prefixes were not matched against sitemap URLs');
+  }
+
+  const byType = new Map<MappingIssueType, MappingIssue[]>();
+  report.issues.forEach((issue) => byType.set(issue.type, [...(byType.get(issue.type) || []), issue]));
+
+  for (const [type, issues] of byType) {
+    const color = SEVERITIES[type] === 'error' ? chalk.red : chalk.yellow;
+    console.log(`\n  ${color(`[${SEVERITIES[type]}]`)} ${TITLES[type]} (${issues.length})`);
+
+    const shown = verbose ? issues : issues.slice(0, 5);
+    shown.forEach((issue) =>
+      console.log(`    • ${issue.indexPathPrefix} → ${issue.indexName} (${issue.productName}) - ${issue.message}`)
+    );
+    if (shown.length < issues.length) {
+      console.log(`    ... and ${issues.length - shown.length} more (use --verbose to list all)`);
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { resolve } from 'node:path';
+
+import { extractMarkdownContent, getMarkdownCandidates, parseFrontmatter } from './markdown';
+
+// Simple tests for Markdown sources
+console.log('Testing getMarkdownCandidates function:');
+
+const root = resolve('/srv/docs');
+
+const candidateCases = [
+  {
+    githubBlobPath: 'https://github.com/AdobeDocs/photoshop-api-docs/blob/main/src/pages/index.md',
+    expected: [`${root}/photoshop-api-docs/src/pages/index.md`, `${root}/src/pages/index.md`],
+  },
+  {
+    githubBlobPath: 'https://github.com/AdobeDocs/express-docs/blob/main/src/pages/my%20page.md?plain=1#L4',
+    expected: [`${root}/express-docs/src/pages/my page.md`, `${root}/src/pages/my page.md`],
+  },
+  { githubBlobPath: 'src/pages/guides/index.md', expected: [`${root}/src/pages/guides/index.md`] },
+  { githubBlobPath: '/src/pages/index.md', expected: [`${root}/src/pages/index.md`] },
+  { githubBlobPath: '../../etc/passwd', expected: [] },
+  { githubBlobPath: 'src/../../secrets.md', expected: [] },
+  {
+    githubBlobPath: 'https://github.com/AdobeDocs/repo/blob/main/..%2F..%2F..%2Fetc%2Fpasswd',
+    expected: [],
+  },
+  { githubBlobPath: 'https://example.com/src/pages/index.md', expected: [] },
+  { githubBlobPath: '  ', expected: [] },
+];
+
+candidateCases.forEach((test) => {
+  const result = getMarkdownCandidates(test.githubBlobPath, root);
+  const passed = JSON.stringify(result) === JSON.stringify(test.expected);
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(
+    `${passed ? '✅' : '❌'} "${test.githubBlobPath}" → ${JSON.stringify(result)} ${!passed ? `(expected ${JSON.stringify(test.expected)})` : ''}`
+  );
+});
+
+console.log('\nTesting parseFrontmatter function:');
+
+const frontmatterCases = [
+  {
+    name: 'YAML frontmatter',
+    markdown: '---\ntitle: Getting started\nkeywords:\n  - api\n---\n# Body\n',
+    expected: { data: { title: 'Getting started', keywords: ['api'] }, body: '# Body\n' },
+  },
+  {
+    name: 'CRLF line endings',
+    markdown: '---\r\ntitle: Windows\r\n---\r\nBody',
+    expected: { data: { title: 'Windows' }, body: 'Body' },
+  },
+  {
+    name: 'Invalid YAML',
+    markdown: '---\ntitle: [unclosed\n---\nBody',
+    expected: { data: {}, body: 'Body' },
+  },
+  { name: 'No frontmatter', markdown: '# Title\n---\n', expected: { data: {}, body: '# Title\n---\n' } },
+];
+
+frontmatterCases.forEach((test) => {
+  const result = parseFrontmatter(test.markdown);
+  const passed = JSON.stringify(result) === JSON.stringify(test.expected);
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${test.name} ${!passed ? `→ ${JSON.stringify(result)}` : ''}`);
+});
+
+console.log('\nTesting extractMarkdownContent function:');
+
+const MARKDOWN = `---
+title: Photoshop API
+keywords:
+  - photoshop
+  - api
+---
+import { Hero } from '@adobe/components';
+
+<Hero slots="heading, text" />
+
+# Overview
+
+The Photoshop API lets you **edit** PSD files with [cloud services](https://example.com) at scale.
+
+## Parameters
+
+| Parameter | Type | Description |
+| --- | --- | --- |
+| \`inputs\` | array | Files to read |
+| mode | string | One of a \\| b |
+
+## Example
+
+\`\`\`js
+const result = await photoshop.run(inputs);
+\`\`\`
+`;
+
+const metadata: Record<string, string> = { title: 'Rendered title', description: 'Rendered description' };
+const content = extractMarkdownContent(MARKDOWN, metadata, 'Fallback');
+
+const extractionChecks = [
+  { name: 'Frontmatter overrides rendered metadata', passed: metadata['title'] === 'Photoshop API' },
+  { name: 'Frontmatter lists are joined', passed: metadata['keywords'] === 'photoshop,api' },
+  { name: 'Title comes from the frontmatter', passed: content.title === 'Photoshop API' },
+  {
+    name: 'Headings and levels',
+    passed:
+      JSON.stringify(content.headings) === JSON.stringify(['Overview', 'Parameters', 'Example']) &&
+      JSON.stringify(content.headingLevels) === JSON.stringify([1, 2, 2]),
+  },
+  {
+    name: 'Links and emphasis keep their text',
+    passed: content.segments[0]?.content.includes('lets you edit PSD files with cloud services at scale'),
+  },
+  {
+    name: 'Tables are read into rows',
+    passed:
+      JSON.stringify(content.segments.find((segment) => segment.heading === 'Parameters')?.tables) ===
+      JSON.stringify([
+        {
+          kind: 'parameter',
+          headers: ['Parameter', 'Type', 'Description'],
+          rows: [
+            { Parameter: 'inputs', Type: 'array', Description: 'Files to read' },
+            { Parameter: 'mode', Type: 'string', Description: 'One of a | b' },
+          ],
+        },
+      ]),
+  },
+  {
+    name: 'Fenced code becomes a code sample',
+    passed:
+      JSON.stringify(content.codeSamples) ===
+      JSON.stringify([
+        { heading: 'Example', level: 2, code: 'const result = await photoshop.run(inputs);', language: 'javascript' },
+      ]),
+  },
+  { name: 'MDX imports are not content', passed: !content.mainContent.includes('@adobe/components') },
+  { name: 'MDX components are recorded', passed: content.structure.hasHeroSection },
+];
+
+extractionChecks.forEach((test) => {
+  if (!test.passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${test.passed ? '✅' : '❌'} ${test.name}`);
+});
+
+console.log('\nDone!');
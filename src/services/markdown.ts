@@ -0,0 +1,297 @@
+import { readFile } from 'node:fs/promises';
+import { resolve, sep } from 'node:path';
+
+import { parse } from 'yaml';
+
+import type { CodeSample, ContentSegment, ContentTable } from '../types/index';
+import { detectCodeLanguage } from '../utils/code-language';
+import { toLocalPath } from '../utils/resource';
+
+import { cleanText, getTableKind, normalizeHeading } from './extraction';
+import type { ExtractedContent } from './extractors';
+
+/**
+ * Name recorded as the extractor of pages read from their Markdown source.
+ */
+export const MARKDOWN_EXTRACTOR = 'markdown';
+
+interface MarkdownSection {
+  heading: string;
+  level: number;
+  lines: string[];
+  tables: ContentTable[];
+}
+
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/**
+ * Lists the local files a `githubblobpath` may refer to under the Markdown root. A blob URL such as
+ * `https://github.com/AdobeDocs/photoshop-api-docs/blob/main/src/pages/index.md` is looked up as
+ * `<root>/photoshop-api-docs/src/pages/index.md` (a directory of checkouts) and then as
+ * `<root>/src/pages/index.md` (a single checkout); plain paths are looked up relative to the root.
+ *
+ * @param githubBlobPath - The page's `githubblobpath` metadata
+ * @param root - The directory holding the docs repository checkouts
+ * @returns The candidate file paths, all inside the root
+ */
+export function getMarkdownCandidates(githubBlobPath: string, root: string): string[] {
+  const rootPath = toLocalPath(root);
+  const location = githubBlobPath.trim().split(/[?#]/)[0];
+  if (!location) {
+    return [];
+  }
+
+  let relativePaths: string[];
+  const blob = location.match(/^https?:\/\/github\.com\/[^/]+\/([^/]+)\/blob\/[^/]+\/(.+)$/i);
+  if (blob) {
+    relativePaths = [`${blob[1]}/${blob[2]}`, blob[2]];
+  } else if (/^[a-z]+:\/\//i.test(location)) {
+    return [];
+  } else {
+    relativePaths = [location];
+  }
+
+  return relativePaths
+    .map((relativePath) => resolve(rootPath, `.${sep}${decodeURIComponent(relativePath)}`))
+    .filter((filePath) => filePath.startsWith(rootPath + sep));
+}
+
+/**
+ * Reads a page's Markdown source from the local checkout of the docs repositories.
+ *
+ * @param githubBlobPath - The page's `githubblobpath` metadata
+ * @param root - The directory holding the docs repository checkouts
+ * @returns The Markdown, or null if the page has no source under the root
+ */
+export async function readMarkdownSource(githubBlobPath: string | undefined, root: string): Promise<string | null> {
+  for (const filePath of getMarkdownCandidates(githubBlobPath || '', root)) {
+    try {
+      return await readFile(filePath, 'utf8');
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Splits YAML frontmatter from a Markdown document.
+ *
+ * @param markdown - The Markdown document
+ * @returns The frontmatter values (empty if there is none or it can't be parsed) and the remaining body
+ */
+export function parseFrontmatter(markdown: string): { data: Record<string, unknown>; body: string } {
+  const match = markdown.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { data: {}, body: markdown };
+  }
+
+  let data: unknown;
+  try {
+    data = parse(match[1]);
+  } catch {
+    data = {};
+  }
+
+  return {
+    data: typeof data === 'object' && data !== null && !Array.isArray(data) ? (data as Record<string, unknown>) : {},
+    body: markdown.substring(match[0].length),
+  };
+}
+
+/**
+ * Reduces a line of Markdown (or MDX) to its text: links and emphasis keep their text, while images,
+ * inline HTML/JSX tags and MDX import/export statements are dropped.
+ */
+const markdownLineToText = (line: string): string => {
+  if (
+    /^\s*(?:import|export)\s/.test(line) ||
+    /^\s*\[[^\]]+\]:\s*\S+/.test(line) ||
+    /^\s*(?:[-*_]\s*){3,}$/.test(line)
+  ) {
+    return '';
+  }
+
+  return line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+    .replace(/(^|[\s(])[*_](\S(?:.*?\S)?)[*_](?=[\s).,;:!?]|$)/g, '$1$2')
+    .replace(/^\s*>\s?/, '')
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '• ')
+    .replace(/\s*\{#[\w-]+\}\s*$/, '');
+};
+
+/**
+ * Splits a Markdown table row into its cells.
+ */
+const splitTableRow = (line: string): string[] =>
+  line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => markdownLineToText(cell.replace(/\\\|/g, '|')).trim());
+
+/**
+ * Extracts a page's content from its Markdown source, producing the same shape as the HTML extractors.
+ * Frontmatter values are merged into the page metadata, taking precedence over the rendered meta tags.
+ *
+ * @param markdown - The Markdown (or MDX) source of the page
+ * @param metadata - The page's metadata read from the rendered HTML; updated with the frontmatter
+ * @param fallbackTitle - Title used when neither the frontmatter nor a level 1 heading names the page
+ * @returns The extracted content
+ */
+export function extractMarkdownContent(
+  markdown: string,
+  metadata: Record<string, string>,
+  fallbackTitle = ''
+): ExtractedContent {
+  const { data, body } = parseFrontmatter(markdown);
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value)) {
+      metadata[key] = value.map(String).join(',');
+    } else if (value !== null && typeof value !== 'object') {
+      metadata[key] = String(value);
+    }
+  }
+
+  const preamble: MarkdownSection = { heading: '', level: 0, lines: [], tables: [] };
+  const sections: MarkdownSection[] = [];
+  const headings: string[] = [];
+  const headingLevels: number[] = [];
+  const codeSamples: CodeSample[] = [];
+  const seenCode = new Set<string>();
+  let current = preamble;
+
+  const lines = body.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code blocks become code samples under the current heading
+    const fence = line.match(/^\s{0,3}(`{3,}|~{3,})\s*([\w#+-]*)/);
+    if (fence) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trimStart().startsWith(fence[1]); i++) {
+        code.push(lines[i]);
+      }
+
+      const text = code.join('\n').replace(/^\n+|\s+$/g, '');
+      if (text.trim().length >= 10 && !seenCode.has(text)) {
+        seenCode.add(text);
+        codeSamples.push({
+          heading: current.heading || fallbackTitle,
+          level: current.level || 1,
+          code: text,
+          language: detectCodeLanguage(text, fence[2] ? `language-${fence[2]}` : undefined),
+        });
+      }
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (heading) {
+      const text = normalizeHeading(markdownLineToText(heading[2]));
+      if (text) {
+        headings.push(text);
+        headingLevels.push(heading[1].length);
+        current = { heading: text, level: heading[1].length, lines: [], tables: [] };
+        sections.push(current);
+      }
+      continue;
+    }
+
+    // Tables are a header row, a separator row and the rows that follow
+    if (line.includes('|') && TABLE_SEPARATOR.test(lines[i + 1] || '') && lines[i + 1].includes('-')) {
+      const headers = splitTableRow(line).map((header, index) => header || `Column ${index + 1}`);
+      const rows: Array<Record<string, string>> = [];
+
+      for (i += 2; i < lines.length && lines[i].includes('|') && lines[i].trim(); i++) {
+        const cells = splitTableRow(lines[i]);
+        const row: Record<string, string> = {};
+        headers.forEach((header, index) => {
+          row[header] = cells[index] || '';
+        });
+        rows.push(row);
+        current.lines.push(cells.join(' '));
+      }
+      i--;
+
+      if (rows.length > 0) {
+        current.tables.push({ kind: getTableKind(headers), headers, rows });
+      }
+      continue;
+    }
+
+    current.lines.push(markdownLineToText(line));
+  }
+
+  const sectionText = (section: MarkdownSection): string => cleanText(section.lines.join('\n'));
+
+  // Combine sections with the same heading, as the HTML extractor does
+  const segmentsByHeading = new Map<string, ContentSegment>();
+  for (const section of sections) {
+    const content = sectionText(section);
+    const existing = segmentsByHeading.get(section.heading);
+
+    if (existing) {
+      existing.content = `${existing.content} ${content}`.trim();
+      if (section.tables.length > 0) {
+        existing.tables = [...(existing.tables || []), ...section.tables];
+      }
+    } else if (content.length >= 30 || section.tables.length > 0) {
+      segmentsByHeading.set(section.heading, {
+        heading: section.heading,
+        content,
+        level: section.level,
+        ...(section.tables.length > 0 && { tables: section.tables }),
+      });
+    }
+  }
+  const segments = Array.from(segmentsByHeading.values());
+
+  // Content before the first heading belongs to the first segment
+  const introduction = sectionText(preamble);
+  if (introduction.length >= 50 && segments.length > 0) {
+    segments[0] = { ...segments[0], content: `${introduction} ${segments[0].content}`.trim() };
+  }
+
+  const mainContent = cleanText(
+    [preamble, ...sections].map((section) => [section.heading, ...section.lines].join('\n')).join('\n\n')
+  );
+  const firstParagraph = body
+    .split(/\n\s*\n/)
+    .map((block) => cleanText(block.split('\n').map(markdownLineToText).join(' ')))
+    .find((text) => text.length >= 50 && !text.startsWith('•'));
+
+  // MDX components stand in for the theme blocks the HTML extractor looks for
+  const components = Array.from(new Set(Array.from(body.matchAll(/<([A-Z]\w*)\b/g), (match) => match[1])));
+
+  return {
+    title:
+      metadata['title'] ||
+      sections.find((section) => section.level === 1)?.heading ||
+      fallbackTitle ||
+      metadata['og_title'] ||
+      '',
+    description:
+      metadata['description'] ||
+      metadata['og:description'] ||
+      metadata['og_description'] ||
+      firstParagraph ||
+      mainContent.slice(0, 200),
+    mainContent,
+    segments,
+    codeSamples,
+    headings,
+    headingLevels,
+    structure: {
+      hasHeroSection: components.some((component) => /Hero$/.test(component)),
+      hasDiscoverBlocks: components.includes('DiscoverBlock'),
+      contentTypes: components,
+    },
+  };
+}
@@ -0,0 +1,129 @@
+import { load } from 'cheerio';
+import { parse } from 'yaml';
+
+import { extractRenderedOperations, parseOpenApiOperations } from './openapi';
+
+// Simple tests for OpenAPI operations
+console.log('Testing parseOpenApiOperations function:');
+
+const OPENAPI_YAML = `
+openapi: 3.0.0
+info:
+  title: Assets API
+  version: 1.0.0
+paths:
+  /v1/assets/{id}:
+    parameters:
+      - $ref: '#/components/parameters/id'
+    get:
+      operationId: getAsset
+      summary: '  Get an asset '
+      tags: [Assets]
+      parameters:
+        - name: fields
+          in: query
+        - $ref: '#/components/parameters/id'
+    delete:
+      summary: Delete an asset
+    x-internal: true
+  /v1/jobs~1status:
+    post:
+      description: Checks the status of jobs
+      parameters:
+        - $ref: '#/components/parameters/limit'
+components:
+  parameters:
+    id:
+      name: id
+      in: path
+    limit:
+      name: limit
+      in: query
+`;
+
+const specCases = [
+  {
+    name: 'OpenAPI 3 spec with $ref parameters',
+    spec: parse(OPENAPI_YAML),
+    expected: [
+      {
+        method: 'GET',
+        path: '/v1/assets/{id}',
+        operationId: 'getAsset',
+        summary: 'Get an asset',
+        parameters: ['id', 'fields'],
+        tags: ['Assets'],
+      },
+      { method: 'DELETE', path: '/v1/assets/{id}', summary: 'Delete an asset', parameters: ['id'], tags: [] },
+      {
+        method: 'POST',
+        path: '/v1/jobs~1status',
+        description: 'Checks the status of jobs',
+        parameters: ['limit'],
+        tags: [],
+      },
+    ],
+  },
+  {
+    name: 'Swagger 2 spec',
+    spec: { swagger: '2.0', paths: { '/pets': { get: { summary: 'List pets', tags: ['pets', 3] } } } },
+    expected: [{ method: 'GET', path: '/pets', summary: 'List pets', parameters: [], tags: ['pets'] }],
+  },
+  { name: 'Document without paths', spec: { openapi: '3.0.0' }, expected: [] },
+  { name: 'Not a spec', spec: 'openapi: 3.0.0', expected: [] },
+];
+
+specCases.forEach((test) => {
+  const result = parseOpenApiOperations(test.spec);
+  const passed = JSON.stringify(result) === JSON.stringify(test.expected);
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${test.name} ${!passed ? `→ ${JSON.stringify(result)}` : ''}`);
+});
+
+console.log('\nTesting extractRenderedOperations function:');
+
+const $ = load(`
+  <div class="opblock-tag-section">
+    <h3 class="opblock-tag" data-tag="Jobs">Jobs</h3>
+    <div class="opblock opblock-post" id="operations-Jobs-createJob">
+      <div class="opblock-summary">
+        <span class="opblock-summary-method">post</span>
+        <span class="opblock-summary-path" data-path="/v1/jobs"><a>/v1/jobs</a></span>
+        <div class="opblock-summary-description">Create a   job</div>
+      </div>
+      <table>
+        <tr><td><div class="parameter__name">body<span>*</span></div></td></tr>
+        <tr><td><div class="parameter__name">body</div></td></tr>
+      </table>
+    </div>
+  </div>
+  <section data-method="get" data-path="/v1/jobs/{id}" data-operation-id="getJob">
+    <span data-param-name="id">Job ID</span>
+  </section>
+  <div class="opblock"><span class="opblock-summary-method">get</span></div>
+`);
+
+const renderedExpected = [
+  {
+    method: 'POST',
+    path: '/v1/jobs',
+    summary: 'Create a job',
+    parameters: ['body'],
+    tags: ['Jobs'],
+    anchor: '#operations-Jobs-createJob',
+  },
+  { method: 'GET', path: '/v1/jobs/{id}', operationId: 'getJob', parameters: ['id'], tags: [] },
+];
+
+const rendered = extractRenderedOperations($);
+const renderedPassed = JSON.stringify(rendered) === JSON.stringify(renderedExpected);
+if (!renderedPassed) {
+  process.exitCode = 1;
+}
+console.log(
+  `${renderedPassed ? '✅' : '❌'} Swagger UI and data-attribute blocks ${!renderedPassed ? `→ ${JSON.stringify(rendered)}` : ''}`
+);
+
+console.log('\nDone!');
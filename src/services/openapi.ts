@@ -0,0 +1,215 @@
+import type { Element } from 'domhandler';
+import { parse } from 'yaml';
+
+import type { ApiOperation } from '../types/index';
+
+import { cleanText, type CheerioRoot } from './extraction';
+import type { ContentExtractor } from './extractors';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Attributes used by Redoc, RapiDoc and Swagger UI embeds to point at the spec they render
+const SPEC_URL_SELECTOR = '[spec-url], [data-spec-url], [data-openapi-url]';
+
+// Links to spec files, followed only on pages whose template marks them as API references
+const SPEC_LINK_PATTERN = /(?:openapi|swagger|api-?spec)[^/]*\.(?:json|ya?ml)(?:[?#].*)?$/i;
+
+type SpecObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is SpecObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Finds the spec file rendered on a page.
+ *
+ * @param $ - Cheerio instance containing the parsed HTML
+ * @param metadata - The page's metadata; an `openAPISpec` value names the spec directly
+ * @param followLinks - Whether plain links to spec files count
+ * @returns The spec location as given in the page, or undefined if none is found
+ */
+function findSpecLocation($: CheerioRoot, metadata: Record<string, string>, followLinks: boolean): string | undefined {
+  const $embed = $(SPEC_URL_SELECTOR).first();
+  const embedded = $embed.attr('spec-url') || $embed.attr('data-spec-url') || $embed.attr('data-openapi-url');
+  if (embedded || metadata['openAPISpec']) {
+    return embedded || metadata['openAPISpec'];
+  }
+
+  if (!followLinks) {
+    return undefined;
+  }
+
+  return $('a[href]')
+    .map((_, el) => $(el).attr('href'))
+    .get()
+    .find((href: string) => SPEC_LINK_PATTERN.test(href));
+}
+
+/**
+ * Resolves a local `$ref` (`#/components/parameters/limit`) within a spec.
+ */
+function resolveRef(spec: SpecObject, value: unknown): unknown {
+  if (!isObject(value) || typeof value['$ref'] !== 'string' || !value['$ref'].startsWith('#/')) {
+    return value;
+  }
+
+  return value['$ref']
+    .substring(2)
+    .split('/')
+    .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((node, part) => (isObject(node) ? node[part] : undefined), spec);
+}
+
+/**
+ * Reads the operations from an OpenAPI 3 or Swagger 2 document.
+ *
+ * @param spec - The parsed spec document
+ * @returns One entry per path and method, in document order
+ */
+export function parseOpenApiOperations(spec: unknown): ApiOperation[] {
+  if (!isObject(spec) || !isObject(spec['paths'])) {
+    return [];
+  }
+
+  const operations: ApiOperation[] = [];
+  const text = (value: unknown): string | undefined => (typeof value === 'string' ? value.trim() : undefined);
+  const parameterNames = (parameters: unknown): string[] =>
+    (Array.isArray(parameters) ? parameters : [])
+      .map((parameter) => resolveRef(spec, parameter))
+      .map((parameter) => (isObject(parameter) && typeof parameter['name'] === 'string' ? parameter['name'] : ''))
+      .filter(Boolean);
+
+  for (const [path, pathItem] of Object.entries(spec['paths'])) {
+    if (!isObject(pathItem)) {
+      continue;
+    }
+
+    const sharedParameters = parameterNames(pathItem['parameters']);
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!isObject(operation)) {
+        continue;
+      }
+
+      operations.push({
+        method: method.toUpperCase(),
+        path,
+        operationId: text(operation['operationId']),
+        summary: text(operation['summary']),
+        description: text(operation['description']),
+        parameters: Array.from(new Set([...sharedParameters, ...parameterNames(operation['parameters'])])),
+        tags: Array.isArray(operation['tags'])
+          ? operation['tags'].filter((tag): tag is string => typeof tag === 'string')
+          : [],
+      });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Reads the operations from endpoint blocks rendered into the page, as produced by Swagger UI
+ * (`.opblock`) or marked up with `data-method` and `data-path` attributes.
+ *
+ * @param $ - Cheerio instance containing the parsed HTML
+ * @returns One entry per rendered endpoint block
+ */
+export function extractRenderedOperations($: CheerioRoot): ApiOperation[] {
+  const operations: ApiOperation[] = [];
+  const text = ($el: ReturnType<CheerioRoot>): string | undefined =>
+    $el.first().text().replace(/\s+/g, ' ').trim() || undefined;
+
+  $('.opblock, [data-method][data-path]').each(function (this: Element) {
+    const $block = $(this);
+    const method = ($block.attr('data-method') || text($block.find('.opblock-summary-method')) || '').toUpperCase();
+    const $path = $block.find('.opblock-summary-path');
+    const path = $block.attr('data-path') || $path.attr('data-path') || text($path);
+
+    if (!method || !path) {
+      return;
+    }
+
+    const tag =
+      $block.attr('data-tag') || $block.closest('.opblock-tag-section').find('.opblock-tag').first().attr('data-tag');
+
+    operations.push({
+      method,
+      path,
+      operationId: $block.attr('data-operation-id') || text($block.find('.opblock-summary-operation-id')),
+      summary: text($block.find('.opblock-summary-description')),
+      description: text($block.find('.opblock-description-wrapper, .opblock-description')),
+      parameters: Array.from(
+        new Set(
+          $block
+            .find('.parameter__name, [data-param-name]')
+            .map((_, el) => $(el).attr('data-param-name') || $(el).contents().first().text().trim())
+            .get()
+            .filter(Boolean)
+        )
+      ),
+      tags: tag ? [tag] : [],
+      anchor: $block.attr('id') ? `#${$block.attr('id')}` : undefined,
+    });
+  });
+
+  return operations;
+}
+
+/**
+ * Extracts API reference pages that render an OpenAPI spec. The operations are read from the spec the
+ * page embeds or links to, or from the endpoint blocks rendered into the page, and are indexed as one
+ * record per operation instead of one large page record. Pages where no operations are found fall back
+ * to the generic extractor.
+ */
+export const openApiExtractor: ContentExtractor = {
+  name: 'openapi',
+  templates: ['openapi', 'api-reference', 'redoc', 'swagger'],
+  matches: ($, metadata) =>
+    !!findSpecLocation($, metadata, false) || $('.opblock, [data-method][data-path]').length > 0,
+  async extract($, metadata, url, loadResource) {
+    let operations: ApiOperation[] = [];
+    let info: SpecObject = {};
+
+    const specLocation = findSpecLocation($, metadata, true);
+    if (specLocation) {
+      try {
+        const specUrl = new URL(specLocation, url).toString();
+        const spec: unknown = parse(await (await loadResource(specUrl)).text());
+        operations = parseOpenApiOperations(spec);
+        info = isObject(spec) && isObject(spec['info']) ? spec['info'] : {};
+      } catch (error) {
+        console.warn(`Could not read OpenAPI spec ${specLocation} for ${url}:`, error);
+      }
+    }
+
+    if (operations.length === 0) {
+      operations = extractRenderedOperations($);
+    }
+
+    if (operations.length === 0) {
+      return null;
+    }
+
+    const title =
+      $('title').text().trim() ||
+      $('h1').first().text().trim() ||
+      String(info['title'] || '') ||
+      metadata['og_title'] ||
+      '';
+    const mainContent = cleanText(
+      typeof info['description'] === 'string' ? info['description'] : $('main p, article p').first().text()
+    );
+
+    return {
+      title,
+      description: metadata['description'] || metadata['og_description'] || mainContent.slice(0, 200),
+      mainContent,
+      segments: [],
+      codeSamples: [],
+      operations,
+      headings: [],
+      structure: { hasHeroSection: false, hasDiscoverBlocks: false, contentTypes: [] },
+    };
+  },
+};
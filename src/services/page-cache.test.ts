@@ -0,0 +1,92 @@
+import { mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { PageCache } from './page-cache';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+const dir = await mkdtemp(join(tmpdir(), 'page-cache-test-'));
+
+try {
+  // Simple tests for the page cache
+  console.log('Testing PageCache:');
+
+  const cache = new PageCache(dir);
+  const baseUrl = 'https://developer.adobe.com';
+  const html = '<html><body><h1>Photoshop API</h1></body></html>';
+
+  const stored = await cache.store(
+    `${baseUrl}/photoshop/`,
+    new Response(html, { headers: { etag: '"v1"', 'content-type': 'text/html' } })
+  );
+  check((await stored.text()) === html, 'The stored response keeps its body');
+  await cache.store(`${baseUrl}/express/`, new Response(html, { headers: { 'last-modified': 'Mon, 05 Oct 2026' } }));
+  await cache.store(`${baseUrl}/uncached/`, new Response(html));
+
+  const files = (await readdir(dir)).sort();
+  check(
+    files.length === 4 && files.filter((file) => file.endsWith('.meta.json')).length === 2,
+    `Each page with a validator is stored as metadata and body → ${JSON.stringify(files)}`
+  );
+
+  const page = await cache.get(`${baseUrl}/photoshop/`);
+  check(
+    page?.body === html && page.etag === '"v1"' && page.headers['content-type'] === 'text/html',
+    'A cached page is read back with its body, validators and headers'
+  );
+  check(
+    JSON.stringify(cache.getConditionalHeaders(page)) === JSON.stringify({ 'If-None-Match': '"v1"' }),
+    'Conditional headers are built from the validators'
+  );
+  check((await cache.get(`${baseUrl}/uncached/`)) === null, 'Pages without validators are not cached');
+
+  const entries = await cache.list();
+  check(
+    JSON.stringify(entries.map((entry) => [entry.url, entry.validator]).sort()) ===
+      JSON.stringify([
+        [`${baseUrl}/express/`, 'last-modified'],
+        [`${baseUrl}/photoshop/`, 'etag'],
+      ]),
+    'Entries are listed with their validators'
+  );
+  check(
+    entries.every((entry) => entry.size > html.length),
+    'Entry sizes include the metadata and the body'
+  );
+
+  // An entry left by an earlier version and one that no run has used for a while
+  await writeFile(
+    join(dir, 'c2f9d2a0b8d3e4f5a6b7c8d9e0f1a2b3.json'),
+    JSON.stringify({ url: `${baseUrl}/legacy/`, body: html })
+  );
+  // Files the cache didn't write, in case the cache directory is shared
+  await writeFile(join(dir, 'notes.html'), html);
+  await writeFile(join(dir, 'package.json'), '{}');
+  const express = entries.find((entry) => entry.url === `${baseUrl}/express/`);
+  const longAgo = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000);
+  await utimes(express?.file || '', longAgo, longAgo);
+
+  const pruned = await cache.prune(30);
+  check(
+    pruned.removed === 2 &&
+      JSON.stringify((await cache.list()).map((entry) => entry.url)) === JSON.stringify([`${baseUrl}/photoshop/`]),
+    `Unused entries and old files are pruned → ${pruned.removed} removed`
+  );
+  check((await readdir(dir)).length === 4, 'Both files of a pruned entry are removed');
+
+  await cache.prune(0);
+  check(
+    JSON.stringify((await readdir(dir)).sort()) === JSON.stringify(['notes.html', 'package.json']),
+    'Pruning with 0 days empties the cache and leaves other files alone'
+  );
+} finally {
+  await rm(dir, { recursive: true, force: true });
+}
+
+console.log('\nDone!');
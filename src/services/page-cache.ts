@@ -0,0 +1,283 @@
+import { createHash } from 'crypto';
+import { readdir, readFile, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { ensureDir } from '../utils/ensure-dir';
+
+// Response headers kept with a cached page, so a reused page reads the same as a downloaded one
+const CACHED_HEADERS = ['content-type', 'x-robots-tag'];
+
+const METADATA_EXTENSION = '.meta.json';
+const BODY_EXTENSION = '.html';
+// The files the cache writes, including the single-file entries of older versions; no other file is ever removed
+const CACHE_FILE = /^[0-9a-f]{32}\.(?:meta\.json|html|json)$/;
+
+/**
+ * A page as stored in the cache.
+ */
+export interface CachedPage {
+  /** The URL the page was fetched from */
+  url: string;
+  /** The ETag the server sent with the page */
+  etag?: string;
+  /** The Last-Modified date the server sent with the page */
+  lastModified?: string;
+  /** Other response headers needed to process the page again */
+  headers: Record<string, string>;
+  /** When the page body was downloaded (ISO 8601) */
+  fetchedAt: string;
+  /** The page HTML */
+  body: string;
+}
+
+/**
+ * What is stored about a page next to its HTML.
+ */
+type CachedPageMetadata = Omit<CachedPage, 'body'>;
+
+/**
+ * Summary of a cache entry, as listed by `cache inspect`.
+ */
+export interface PageCacheEntry {
+  /** The URL of the cached page */
+  url: string;
+  /** The file holding the URL, validators and headers of the page */
+  file: string;
+  /** The file holding the page HTML */
+  bodyFile: string;
+  /** Size of both files in bytes */
+  size: number;
+  /** When the page body was downloaded (ISO 8601) */
+  fetchedAt: string;
+  /** When the entry was last used or revalidated (ISO 8601) */
+  usedAt: string;
+  /** The validator sent on the next request */
+  validator: 'etag' | 'last-modified';
+}
+
+/**
+ * Counts of how pages were served during a run.
+ */
+export interface PageCacheStats {
+  /** Pages the server reported as not modified, reused from the cache */
+  hits: number;
+  /** Pages downloaded, because they changed or weren't cached yet */
+  misses: number;
+  /** Downloaded pages stored in the cache */
+  stored: number;
+}
+
+/**
+ * On-disk cache of fetched pages, used to make conditional requests. Each page is stored with the ETag and
+ * Last-Modified validators the server sent; the next fetch sends them back as `If-None-Match` and
+ * `If-Modified-Since`, and a `304 Not Modified` response is answered with the cached HTML.
+ *
+ * Entries are named by the MD5 hash of the URL: a `.meta.json` file holds the URL, validators and headers, and
+ * an `.html` file holds the page, so listing and pruning the cache never reads page bodies. The metadata file's
+ * modification time records when the entry was last used, which is what `prune` goes by.
+ */
+export class PageCache {
+  private _dir: string;
+  private _verbose: boolean;
+  readonly stats: PageCacheStats = { hits: 0, misses: 0, stored: 0 };
+
+  /**
+   * @param dir - The directory the cache is kept in
+   * @param verbose - Whether to log cache hits and write failures
+   */
+  constructor(dir: string, verbose = false) {
+    this._dir = dir;
+    this._verbose = verbose;
+  }
+
+  private _getMetadataPath(url: string): string {
+    return join(this._dir, `${createHash('md5').update(url).digest('hex')}${METADATA_EXTENSION}`);
+  }
+
+  private _getBodyPath(metadataPath: string): string {
+    return `${metadataPath.slice(0, -METADATA_EXTENSION.length)}${BODY_EXTENSION}`;
+  }
+
+  /**
+   * Reads the cached copy of a page.
+   *
+   * @param url - The URL of the page
+   * @returns The cached page, or null if the page isn't cached or its entry can't be read
+   */
+  async get(url: string): Promise<CachedPage | null> {
+    try {
+      const metadataPath = this._getMetadataPath(url);
+      const metadata = JSON.parse(await readFile(metadataPath, 'utf8')) as CachedPageMetadata;
+      if (metadata.url !== url) {
+        return null;
+      }
+      return { ...metadata, body: await readFile(this._getBodyPath(metadataPath), 'utf8') };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Builds the conditional request headers for a page.
+   *
+   * @param cached - The cached copy of the page, if any
+   * @returns `If-None-Match` and `If-Modified-Since` headers for the validators of the cached copy
+   */
+  getConditionalHeaders(cached: CachedPage | null): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+    return headers;
+  }
+
+  /**
+   * Answers a `304 Not Modified` with the cached copy of a page and marks the entry as used.
+   *
+   * @param cached - The cached copy of the page
+   * @returns A response with the cached HTML and headers
+   */
+  async reuse(cached: CachedPage): Promise<Response> {
+    this.stats.hits++;
+    if (this._verbose) {
+      console.log(`↺ Not modified, using cached copy of ${cached.url}`);
+    }
+
+    const now = new Date();
+    await utimes(this._getMetadataPath(cached.url), now, now).catch(() => undefined);
+
+    return new Response(cached.body, { status: 200, headers: cached.headers });
+  }
+
+  /**
+   * Stores a downloaded page if the server sent a validator for it. The response body is consumed, so the
+   * returned response must be used in its place.
+   *
+   * @param url - The URL of the page
+   * @param response - The successful response the page was downloaded with
+   * @returns A response with the same body, status and headers
+   */
+  async store(url: string, response: Response): Promise<Response> {
+    this.stats.misses++;
+
+    const body = await response.text();
+    const etag = response.headers.get('etag') || undefined;
+    const lastModified = response.headers.get('last-modified') || undefined;
+    const headers: Record<string, string> = {};
+    for (const name of CACHED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) {
+        headers[name] = value;
+      }
+    }
+
+    // Pages without validators can't be revalidated, so there is no point in keeping them
+    if (etag || lastModified) {
+      const metadata: CachedPageMetadata = { url, etag, lastModified, headers, fetchedAt: new Date().toISOString() };
+      try {
+        // The metadata is written last, so an entry is only listed once its body is complete
+        const metadataPath = this._getMetadataPath(url);
+        await ensureDir(this._dir);
+        await writeFile(this._getBodyPath(metadataPath), body);
+        await writeFile(metadataPath, JSON.stringify(metadata));
+        this.stats.stored++;
+      } catch (error) {
+        // A cache that can't be written only costs a download next time
+        if (this._verbose) {
+          console.warn(`Could not cache ${url}:`, error);
+        }
+      }
+    }
+
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+
+  /**
+   * Lists the entries in the cache from their metadata files, without reading the page bodies. Files that
+   * aren't readable cache entries are left out.
+   *
+   * @returns The entries, most recently used first
+   */
+  async list(): Promise<PageCacheEntry[]> {
+    let files: string[];
+    try {
+      files = (await readdir(this._dir)).filter((file) => file.endsWith(METADATA_EXTENSION));
+    } catch {
+      return [];
+    }
+
+    const entries: PageCacheEntry[] = [];
+    for (const file of files) {
+      const filePath = join(this._dir, file);
+      const bodyPath = this._getBodyPath(filePath);
+      try {
+        const [metadata, info, bodyInfo] = await Promise.all([
+          readFile(filePath, 'utf8').then((content) => JSON.parse(content) as CachedPageMetadata),
+          stat(filePath),
+          stat(bodyPath),
+        ]);
+        entries.push({
+          url: metadata.url,
+          file: filePath,
+          bodyFile: bodyPath,
+          size: info.size + bodyInfo.size,
+          fetchedAt: metadata.fetchedAt,
+          usedAt: info.mtime.toISOString(),
+          validator: metadata.etag ? 'etag' : 'last-modified',
+        });
+      } catch {
+        // Not a cache entry
+      }
+    }
+
+    return entries.sort((a, b) => b.usedAt.localeCompare(a.usedAt));
+  }
+
+  /**
+   * Removes entries that haven't been used for a while, along with cache files that aren't part of a readable
+   * entry (such as entries of older versions, which kept the page inside the JSON file). Files the cache didn't
+   * write are left alone, so pointing the cache at a shared directory is safe.
+   *
+   * @param maxAgeDays - Entries unused for longer than this many days are removed; 0 removes every entry
+   * @returns The number of entries and other files removed and the bytes they took up
+   */
+  async prune(maxAgeDays: number): Promise<{ removed: number; bytes: number }> {
+    let files: string[];
+    try {
+      files = (await readdir(this._dir)).filter((file) => CACHE_FILE.test(file));
+    } catch {
+      return { removed: 0, bytes: 0 };
+    }
+
+    // When the entry each file belongs to was last used
+    const usedAt = new Map<string, number>();
+    for (const entry of await this.list()) {
+      const time = new Date(entry.usedAt).getTime();
+      usedAt.set(entry.file, time);
+      usedAt.set(entry.bodyFile, time);
+    }
+
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    let removed = 0;
+    let bytes = 0;
+
+    for (const file of files) {
+      const filePath = join(this._dir, file);
+      const info = await stat(filePath);
+      const entryUsedAt = usedAt.get(filePath);
+      if (info.isFile() && (maxAgeDays <= 0 || entryUsedAt === undefined || entryUsedAt < cutoff)) {
+        await rm(filePath);
+        bytes += info.size;
+        // An entry's body goes with its metadata file and isn't counted again
+        if (!(entryUsedAt !== undefined && file.endsWith(BODY_EXTENSION))) {
+          removed++;
+        }
+      }
+    }
+
+    return { removed, bytes };
+  }
+}
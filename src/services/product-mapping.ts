@@ -1,28 +1,64 @@
-import type { ProductIndexMapping, SitemapUrl } from '../types/index';
-
-const EXCLUDED_PATHS = [
-  '/nav/',
-  '/nav$', // Skip paths ending in /nav
-  '/fragments/',
-  '/blocks/',
-  '/drafts/',
-  '/tools/',
-  '/tools/sidekick/', // Skip all sidekick content
-  '/internal/',
-  '/test/',
-  '/assets/',
-  '/_reference/',
-  '/github-actions-test/', // Skip test content from github actions
-];
+import { z } from 'zod';
+
+import type { ExclusionRules, ProductIndex, ProductIndexMapping, SitemapUrl } from '../types/index';
+import { findMatchingPattern } from '../utils/path-pattern';
+import { loadJsonResource } from '../utils/resource';
+
+import { addExample, addUnmatchedUrl, suggestIndices, type CoverageReport } from './coverage';
+import { DEFAULT_EXCLUSION_RULES, pathPatternsSchema } from './exclusions';
+
+const productIndexMappingSchema = z.array(
+  z.object({
+    productName: z.string().min(1),
+    productIndices: z.array(
+      z.object({
+        indexName: z.string().min(1),
+        indexPathPrefix: z.string().min(1),
+        include: pathPatternsSchema.min(1).optional(),
+        exclude: pathPatternsSchema.optional(),
+        priority: z.number().optional(),
+      })
+    ),
+  })
+);
 
 export interface IndexMatch {
   indexName: string;
   productName: string;
   pathPrefix: string;
+  /** The rule that matched, e.g. `prefix /photoshop` or `include /commerce/*` */
+  rule: string;
   url: string;
   fragment?: string;
 }
 
+/**
+ * A product index rule that applies to a path.
+ */
+export interface RuleMatch {
+  indexName: string;
+  productName: string;
+  /** The index path prefix of the rule, without a trailing slash */
+  pathPrefix: string;
+  /** What matched: the prefix, an include pattern or, for excluded rules, the exclude pattern */
+  rule: string;
+  priority: number;
+  /** Number of segments in the prefix; among rules of equal priority the longest prefix wins */
+  segments: number;
+}
+
+/**
+ * The product index rules evaluated for one path.
+ */
+export interface RuleEvaluation {
+  /** The rules that match, best first */
+  matches: RuleMatch[];
+  /** The rules that would match but exclude the path */
+  excluded: RuleMatch[];
+  /** The rules that would match but belong to indices left out by {@link ProductMappingService.filterIndices} */
+  inactive: RuleMatch[];
+}
+
 interface IndexInfo {
   indexName: string;
   productName: string;
@@ -30,20 +66,23 @@ interface IndexInfo {
 
 /**
  * Service responsible for managing product mappings and matching URL paths to their corresponding product indices.
- * This service loads mapping data from a remote JSON file and provides methods to analyze URLs against product mapping rules.
+ * This service loads mapping data from a remote or local JSON file and provides methods to analyze URLs against product mapping rules.
  */
 export class ProductMappingService {
   private productMappings: ProductIndexMapping[] = [];
   private verbose: boolean;
   private validMatches: Map<string, IndexMatch> = new Map();
   private activeIndices: Set<string> | null = null;
+  private _exclusions: ExclusionRules;
 
   /**
    * Constructs a new ProductMappingService instance.
    * @param verbose - Optional flag to enable verbose logging.
+   * @param exclusions - Optional rules for the paths that are never mapped; defaults to the built-in rules.
    */
-  constructor(verbose = false) {
+  constructor(verbose = false, exclusions: ExclusionRules = DEFAULT_EXCLUSION_RULES) {
     this.verbose = verbose;
+    this._exclusions = exclusions;
   }
 
   /**
@@ -62,6 +101,24 @@ export class ProductMappingService {
     return this.validMatches;
   }
 
+  /**
+   * Retrieves the rules for the paths that are never mapped.
+   * @returns The global and per-index exclusion patterns.
+   */
+  getExclusionRules(): ExclusionRules {
+    return this._exclusions;
+  }
+
+  /**
+   * Finds the global exclusion rule that applies to a URL path.
+   *
+   * @param path - The URL path to check.
+   * @returns The first exclusion pattern matching the path, or undefined if the path isn't excluded.
+   */
+  getExclusionRule(path: string): string | undefined {
+    return findMatchingPattern(path.replace(/\/$/, ''), this._exclusions.exclude);
+  }
+
   /**
    * Determines if a given URL path should be excluded from mapping.
    *
@@ -69,46 +126,27 @@ export class ProductMappingService {
    * @returns True if the path should be excluded, false otherwise.
    */
   shouldExcludePath(path: string): boolean {
-    // First normalize the path
-    const normalizedPath = path.replace(/\/$/, '');
-
-    return EXCLUDED_PATHS.some((excludedPath) => {
-      // Handle exact suffix match for /nav
-      if (excludedPath === '/nav$' && normalizedPath.endsWith('/nav')) {
-        return true;
-      }
-
-      // Handle prefix matches for directories
-      if (excludedPath.endsWith('/')) {
-        return normalizedPath.includes(excludedPath);
-      }
-
-      // Handle exact matches for other patterns
-      return normalizedPath.includes(excludedPath);
-    });
+    return this.getExclusionRule(path) !== undefined;
   }
 
   /**
-   * Initializes the product mappings by fetching data from the provided URL.
+   * Initializes the product mappings from the provided URL or local file.
    *
-   * @param mappingUrl - The URL from which to fetch the product mappings JSON.
+   * @param mappingUrl - The URL or local path of the product mappings JSON.
    * @returns A Promise that resolves when the mappings are successfully loaded.
-   * @throws An error if the fetch or the processing fails.
+   * @throws An error if the mappings can't be read or don't match the product mapping schema.
    */
   async initialize(mappingUrl: string): Promise<void> {
     try {
-      const response = await fetch(mappingUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch product mappings: ${response.statusText}`);
-      }
+      this.productMappings = await loadJsonResource(mappingUrl, productIndexMappingSchema, 'product mappings');
 
-      const data = await response.json();
-      if (!Array.isArray(data)) {
-        throw new Error('Product mappings response is not an array');
+      // Per-index exclusions for an index the mapping doesn't have are most likely a typo
+      const indexNames = new Set(this.productMappings.flatMap((p) => p.productIndices.map((i) => i.indexName)));
+      const unknown = Object.keys(this._exclusions.indices).filter((indexName) => !indexNames.has(indexName));
+      if (unknown.length > 0) {
+        throw new Error(`Exclusion rules name indices missing from the mapping: ${unknown.join(', ')}`);
       }
 
-      this.productMappings = data;
-
       // Only log summary in verbose mode
       if (this.verbose) {
         const totalIndices = this.getTotalIndices();
@@ -146,6 +184,85 @@ export class ProductMappingService {
     this.validMatches.clear();
   }
 
+  /**
+   * Retrieves the indices mappings are restricted to.
+   * @returns The lowercased index names set by filterIndices, or null if all indices are active.
+   */
+  getActiveIndices(): string[] | null {
+    return this.activeIndices ? Array.from(this.activeIndices) : null;
+  }
+
+  /**
+   * Matches one product index rule against a path. Without include patterns the path must be under the index
+   * path prefix; with them it must match one of the patterns instead. Exclude patterns then veto the match.
+   */
+  private _matchRule(
+    path: string,
+    productName: string,
+    index: ProductIndex
+  ): { match: RuleMatch; excluded: boolean } | null {
+    const pathPrefix = index.indexPathPrefix.replace(/\/$/, '');
+    const included = index.include
+      ? findMatchingPattern(path, index.include)
+      : path === pathPrefix || path.startsWith(pathPrefix + '/')
+        ? pathPrefix
+        : undefined;
+    if (included === undefined) {
+      return null;
+    }
+
+    const excludedBy = findMatchingPattern(path, [
+      ...(index.exclude || []),
+      ...(this._exclusions.indices[index.indexName] || []),
+    ]);
+    const match: RuleMatch = {
+      indexName: index.indexName,
+      productName,
+      pathPrefix,
+      rule: excludedBy ? `exclude ${excludedBy}` : `${index.include ? 'include' : 'prefix'} ${included}`,
+      priority: index.priority ?? 0,
+      segments: pathPrefix.split('/').filter(Boolean).length,
+    };
+    return { match, excluded: excludedBy !== undefined };
+  }
+
+  /**
+   * Evaluates every product index rule (of the active indices) against a path.
+   *
+   * Matching rules are ranked by priority, then by the number of segments in their prefix (the most specific
+   * prefix wins), then by their order in the mapping.
+   *
+   * @param path - The URL path, without fragment or trailing slash.
+   * @returns The matching rules, best first, the rules whose exclude patterns left the path out, and the matching
+   * rules of inactive indices.
+   */
+  evaluateRules(path: string): RuleEvaluation {
+    const matches: RuleMatch[] = [];
+    const excluded: RuleMatch[] = [];
+    const inactive: RuleMatch[] = [];
+
+    for (const product of this.productMappings) {
+      for (const index of product.productIndices) {
+        const result = this._matchRule(path, product.productName, index);
+        if (!result) {
+          continue;
+        }
+
+        // Rules of indices that are not in the active set never match, if filtering is enabled
+        if (this.activeIndices && !this.activeIndices.has(index.indexName.toLowerCase())) {
+          inactive.push(result.match);
+        } else {
+          (result.excluded ? excluded : matches).push(result.match);
+        }
+      }
+    }
+
+    // Array.prototype.sort is stable, so rules that tie keep their mapping order
+    matches.sort((a, b) => b.priority - a.priority || b.segments - a.segments);
+
+    return { matches, excluded, inactive };
+  }
+
   /**
    * Finds the best matching product index for a given URL path.
    *
@@ -170,9 +287,10 @@ export class ProductMappingService {
     }
 
     // Check if this is a path we should exclude
-    if (this.shouldExcludePath(pathWithoutFragment)) {
+    const exclusionRule = this.getExclusionRule(pathWithoutFragment);
+    if (exclusionRule) {
       if (this.verbose) {
-        console.log(`Skipping excluded path: ${pathWithoutFragment}`);
+        console.log(`Skipping excluded path: ${pathWithoutFragment} (exclusion rule ${exclusionRule})`);
       }
       return null;
     }
@@ -180,62 +298,40 @@ export class ProductMappingService {
     // Clean the URL path (without fragment)
     const cleanPath = pathWithoutFragment.replace(/\/$/, '');
 
-    // Find all matching indices
-    interface Match {
-      product: string;
-      index: string;
-      prefix: string;
-      segments: number;
-    }
-
-    const matches: Match[] = [];
-
     if (this.verbose) {
       console.log(`\nFinding match for path: ${cleanPath}`);
     }
 
-    for (const product of this.productMappings) {
-      for (const index of product.productIndices) {
-        // Skip indices that are not in the active set, if filtering is enabled
-        if (this.activeIndices && !this.activeIndices.has(index.indexName.toLowerCase())) {
-          continue;
-        }
-
-        const cleanPrefix = index.indexPathPrefix.replace(/\/$/, '');
+    const { matches, excluded } = this.evaluateRules(cleanPath);
 
-        // Check if this path prefix matches the URL exactly
-        if (cleanPath === cleanPrefix || cleanPath.startsWith(cleanPrefix + '/')) {
-          matches.push({
-            product: product.productName,
-            index: index.indexName,
-            prefix: cleanPrefix,
-            segments: cleanPrefix.split('/').filter(Boolean).length,
-          });
-        }
-      }
+    if (this.verbose && excluded.length > 0) {
+      console.log('   Excluded by rule:');
+      excluded.forEach((m) => {
+        console.log(`     - ${m.pathPrefix} → ${m.indexName} (${m.rule})`);
+      });
     }
 
-    // If we have matches, use the most specific one (longest matching path)
+    // If we have matches, use the best ranked one
     if (matches.length > 0) {
-      // Sort by number of segments (most specific first)
-      matches.sort((a, b) => b.segments - a.segments);
-
       const bestMatch = matches[0];
       if (this.verbose) {
+        const describe = (m: RuleMatch): string =>
+          `${m.rule} → ${m.indexName}${m.priority !== 0 ? ` (priority ${m.priority})` : ''}`;
         console.log(`✨ Best match for ${cleanPath}:`);
-        console.log(`   • ${bestMatch.prefix} → ${bestMatch.index}`);
+        console.log(`   • ${describe(bestMatch)}`);
         if (matches.length > 1) {
           console.log('   Alternative matches:');
           matches.slice(1).forEach((m) => {
-            console.log(`     - ${m.prefix} → ${m.index}`);
+            console.log(`     - ${describe(m)}`);
           });
         }
       }
 
       const match: IndexMatch = {
-        indexName: bestMatch.index,
-        productName: bestMatch.product,
-        pathPrefix: bestMatch.prefix,
+        indexName: bestMatch.indexName,
+        productName: bestMatch.productName,
+        pathPrefix: bestMatch.pathPrefix,
+        rule: bestMatch.rule,
         url: urlPath, // Preserve the original URL with fragment
         fragment: fragment || undefined, // Add fragment if present
       };
@@ -258,126 +354,128 @@ export class ProductMappingService {
    *
    * @param urls The URLs to analyze
    * @param verbose Whether to show verbose output
+   * @param disallowed Number of URLs already dropped because robots.txt disallows them
+   * @returns The coverage of the mapping: URLs per rule, unmatched URLs per top-level path and suggested indices
    */
-  analyzeUrlMatches(urls: SitemapUrl[], verbose = false): void {
-    const matchStats = new Map<
-      string,
-      {
-        total: number;
-        matched: number;
-        excluded: number;
-        urls: string[];
-      }
-    >();
-
-    let totalMatched = 0;
-    let totalSkipped = 0;
-    let totalNoMatch = 0;
-
-    // Track unmapped paths for analysis
-    const unmappedPaths = new Map<string, number>();
-
-    // Get existing index names for conflict checking
-    const existingIndices = new Set(
-      this.productMappings.flatMap((p) => p.productIndices.map((i) => i.indexName.toLowerCase()))
-    );
-
-    // Show excluded paths only in verbose mode
+  analyzeUrlMatches(urls: SitemapUrl[], verbose = false, disallowed = 0): CoverageReport {
+    const report: CoverageReport = {
+      createdAt: new Date().toISOString(),
+      total: urls.length,
+      matched: 0,
+      skipped: 0,
+      unmatched: 0,
+      disallowed,
+      skippedByRule: {},
+      prefixes: this.productMappings.flatMap(({ productName, productIndices }) =>
+        productIndices
+          .filter((index) => !this.activeIndices || this.activeIndices.has(index.indexName.toLowerCase()))
+          .map((index) => ({
+            productName,
+            indexName: index.indexName,
+            pathPrefix: index.indexPathPrefix.replace(/\/$/, ''),
+            matched: 0,
+            examples: [] as string[],
+          }))
+      ),
+      unmatchedPrefixes: [],
+    };
+
+    // Show exclusion rules only in verbose mode
     if (this.verbose || verbose) {
-      console.log('\n🚫 URLs will be skipped if they contain:');
-      EXCLUDED_PATHS.forEach((path) => {
-        console.log(`  • ${path}`);
+      console.log('\n🚫 URLs will be skipped if their path matches:');
+      this._exclusions.exclude.forEach((pattern) => {
+        console.log(`  • ${pattern}`);
       });
+      for (const [indexName, patterns] of Object.entries(this._exclusions.indices)) {
+        console.log(`  • ${patterns.join(', ')} (${indexName} only)`);
+      }
     }
 
     // Analyze URLs
     for (const url of urls) {
       const urlPath = new URL(url.loc).pathname;
 
-      if (this.shouldExcludePath(urlPath)) {
-        totalSkipped++;
+      const exclusionRule = this.getExclusionRule(urlPath);
+      if (exclusionRule) {
+        report.skipped++;
+        report.skippedByRule[exclusionRule] = (report.skippedByRule[exclusionRule] || 0) + 1;
         continue;
       }
 
       const match = this.findBestMatch(urlPath);
       if (match) {
-        totalMatched++;
-        const stats = matchStats.get(match.indexName) || {
-          total: 0,
-          matched: 0,
-          excluded: 0,
-          urls: [],
-        };
-        stats.matched++;
-        if (stats.urls.length < 3) {
-          stats.urls.push(url.loc);
+        report.matched++;
+        const prefix = report.prefixes.find(
+          (candidate) =>
+            candidate.productName === match.productName &&
+            candidate.indexName === match.indexName &&
+            candidate.pathPrefix === match.pathPrefix
+        );
+        if (prefix) {
+          prefix.matched++;
+          addExample(prefix.examples, url.loc);
         }
-        matchStats.set(match.indexName, stats);
       } else {
-        totalNoMatch++;
-        // Get the first path segment for unmapped analysis
-        const segments = urlPath.split('/').filter(Boolean);
-        if (segments.length > 0) {
-          const rootPath = `/${segments[0]}`;
-          unmappedPaths.set(rootPath, (unmappedPaths.get(rootPath) || 0) + 1);
+        // Paths left out by the exclude patterns of every index they match are skipped, not unmapped
+        const { excluded } = this.evaluateRules(urlPath.split('#')[0].replace(/\/$/, ''));
+        if (excluded.length > 0) {
+          report.skipped++;
+          const rule = `${excluded[0].indexName}: ${excluded[0].rule.replace(/^exclude /, '')}`;
+          report.skippedByRule[rule] = (report.skippedByRule[rule] || 0) + 1;
+          continue;
         }
+
+        report.unmatched++;
+        // Group unmapped URLs by their first path segment
+        addUnmatchedUrl(report.unmatchedPrefixes, url.loc);
       }
     }
 
+    // Recommend indices for unmapped paths, unless the exclusion rules cover them
+    suggestIndices(report.unmatchedPrefixes, this.getUniqueIndices(), (path) => this.shouldExcludePath(path));
+
     // Print summary stats based on verbosity level
     if (this.verbose || verbose) {
       // Detailed stats for verbose mode
       console.log('\nURL Analysis:');
-      console.log(`Total URLs found: ${urls.length}`);
-      console.log(`URLs to be indexed: ${totalMatched}`);
-      console.log(`URLs to be skipped: ${totalSkipped}`);
-      console.log(`URLs with no matches: ${totalNoMatch}`);
+      console.log(`Total URLs found: ${report.total}`);
+      console.log(`URLs to be indexed: ${report.matched}`);
+      console.log(`URLs to be skipped: ${report.skipped}`);
+      console.log(`URLs with no matches: ${report.unmatched}`);
+      console.log(`URLs disallowed by robots.txt: ${disallowed}`);
+
+      const skippedByRule = Object.entries(report.skippedByRule);
+      if (skippedByRule.length > 0) {
+        console.log('\nSkipped by exclusion rule:');
+        for (const [rule, count] of skippedByRule.sort((a, b) => b[1] - a[1])) {
+          console.log(`  • ${rule}: ${count} URLs`);
+        }
+      }
 
       // Per-index breakdown
-      if (totalMatched > 0) {
+      if (report.matched > 0) {
         console.log('\nBreakdown by index:');
-        for (const [indexName, stats] of matchStats) {
-          if (stats.matched > 0) {
-            console.log(`  • ${indexName}: ${stats.matched} URLs`);
+        const byIndex = new Map<string, number>();
+        report.prefixes.forEach(({ indexName, matched }) =>
+          byIndex.set(indexName, (byIndex.get(indexName) || 0) + matched)
+        );
+        for (const [indexName, matched] of byIndex) {
+          if (matched > 0) {
+            console.log(`  • ${indexName}: ${matched} URLs`);
           }
         }
       }
 
       // Recommendations for unmapped paths
-      if (unmappedPaths.size > 0) {
+      if (report.unmatchedPrefixes.length > 0) {
         console.log('\nRecommended indices to consider:');
-        const recommendations = Array.from(unmappedPaths.entries())
-          .filter(([path, count]) => {
-            // Filter out paths we know should be excluded
-            if (
-              path === '/nav' ||
-              path === '/fragments' ||
-              path === '/blocks' ||
-              path === '/drafts' ||
-              path === '/tools' ||
-              path === '/internal' ||
-              path === '/test' ||
-              path === '/assets' ||
-              path === '/github-actions-test'
-            ) {
-              return false;
-            }
-            // Only recommend paths with more than one URL
-            return count > 1;
-          })
-          .sort((a, b) => b[1] - a[1]);
+        const recommendations = report.unmatchedPrefixes.filter((group) => group.suggestedIndex !== null);
 
         if (recommendations.length > 0) {
-          recommendations.forEach(([path, count]) => {
-            // Generate suggested name without franklin prefix
-            const suggestedName = path.replace('/', '').replace(/-/g, '-');
-
-            // Check for conflicts with existing indices (case insensitive)
-            const isConflict = existingIndices.has(suggestedName.toLowerCase());
-
+          recommendations.forEach(({ pathPrefix, unmatched, suggestedIndex, conflictsWith }) => {
             console.log(
-              `  • ${path}/* (${count} URLs) → Suggested index: ${suggestedName}` +
-                (isConflict ? ' Conflicts with existing index' : '')
+              `  • ${pathPrefix}/* (${unmatched} URLs) → Suggested index: ${suggestedIndex}` +
+                (conflictsWith ? ` (${conflictsWith} conflicts with an existing index)` : '')
             );
           });
         } else {
@@ -386,8 +484,13 @@ export class ProductMappingService {
       }
     } else {
       // Ultra-concise single line for non-verbose mode
-      console.log(`URLs: ${totalMatched} matched, ${totalSkipped} skipped, ${totalNoMatch} unmatched`);
+      console.log(
+        `URLs: ${report.matched} matched, ${report.skipped} skipped, ${report.unmatched} unmatched` +
+          (disallowed > 0 ? `, ${disallowed} disallowed by robots.txt` : '')
+      );
     }
+
+    return report;
   }
 
   /**
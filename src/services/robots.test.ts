@@ -0,0 +1,88 @@
+import { isAllowedByRobots, parseRobotsTxt } from './robots';
+
+// Simple tests for robots.txt parsing and matching
+console.log('Testing parseRobotsTxt function:');
+
+const ROBOTS_TXT = `
+# Rules for other crawlers
+User-agent: search
+User-agent: index
+Disallow: /
+
+User-agent: ADP-Search-Indexer
+Disallow: /internal/
+Allow: /internal/public
+
+User-agent: *
+Disallow: /private/
+
+Sitemap: https://developer.adobe.com/sitemap.xml
+`;
+
+const agentCases = [
+  { userAgent: 'adp-search-indexer', expected: ['/internal/', '/internal/public'] },
+  { userAgent: 'ADP-Search-Indexer', expected: ['/internal/', '/internal/public'] },
+  { userAgent: 'adp-search-indexer/1.2', expected: ['/internal/', '/internal/public'] },
+  { userAgent: 'adp', expected: ['/private/'] },
+  { userAgent: 'search-indexer', expected: ['/private/'] },
+  { userAgent: 'my-indexer', expected: ['/private/'] },
+];
+
+agentCases.forEach((test) => {
+  const result = parseRobotsTxt(ROBOTS_TXT, test.userAgent).rules.map((rule) => rule.pattern);
+  const passed = JSON.stringify(result) === JSON.stringify(test.expected);
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(
+    `${passed ? '✅' : '❌'} "${test.userAgent}" → ${JSON.stringify(result)} ${!passed ? `(expected ${JSON.stringify(test.expected)})` : ''}`
+  );
+});
+
+const { sitemaps } = parseRobotsTxt(ROBOTS_TXT, 'adp-search-indexer');
+const sitemapsPassed = sitemaps.length === 1 && sitemaps[0] === 'https://developer.adobe.com/sitemap.xml';
+if (!sitemapsPassed) {
+  process.exitCode = 1;
+}
+console.log(`${sitemapsPassed ? '✅' : '❌'} Sitemap directives are collected: ${JSON.stringify(sitemaps)}`);
+
+console.log('\nTesting isAllowedByRobots function:');
+
+const robots = parseRobotsTxt(
+  `
+User-agent: *
+Disallow: /photoshop/
+Allow: /photoshop/uxp/
+Disallow: /*.pdf$
+Allow: /same
+Disallow: /same
+Disallow:
+`,
+  'adp-search-indexer'
+);
+
+const pathCases = [
+  { path: '/express/guides/', expected: true },
+  { path: '/photoshop/api/', expected: false },
+  { path: '/photoshop/uxp/guides/', expected: true },
+  { path: '/docs/manual.pdf', expected: false },
+  { path: '/docs/manual.pdf?download=1', expected: true },
+  { path: '/same/page', expected: true },
+];
+
+pathCases.forEach((test) => {
+  const result = isAllowedByRobots(robots, test.path);
+  const passed = result === test.expected;
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} "${test.path}" is ${result ? 'allowed' : 'disallowed'}`);
+});
+
+const ignoredPassed = isAllowedByRobots(undefined, '/photoshop/api/');
+if (!ignoredPassed) {
+  process.exitCode = 1;
+}
+console.log(`${ignoredPassed ? '✅' : '❌'} Everything is allowed when robots.txt is ignored`);
+
+console.log('\nDone!');
@@ -0,0 +1,196 @@
+import { readFile } from 'node:fs/promises';
+
+import { isLocalLocation, toLocalPath } from '../utils/resource';
+
+/**
+ * A single Allow or Disallow rule from robots.txt.
+ */
+export interface RobotsRule {
+  /** Whether the rule allows (true) or disallows (false) matching paths */
+  allow: boolean;
+  /** The path pattern, which may contain `*` wildcards and a trailing `$` anchor */
+  pattern: string;
+}
+
+/**
+ * The parts of a robots.txt file that apply to the indexer.
+ */
+export interface RobotsTxt {
+  /** Rules from the group(s) that apply to the configured user agent */
+  rules: RobotsRule[];
+  /** Sitemap URLs listed with `Sitemap:` directives */
+  sitemaps: string[];
+}
+
+/**
+ * Returns the product token of a user agent, e.g. `adp-search-indexer` for `ADP-Search-Indexer/1.2`.
+ */
+const getProductToken = (userAgent: string): string => userAgent.split('/')[0].trim().toLowerCase();
+
+/**
+ * Parses robots.txt and keeps the rules that apply to the given user agent.
+ *
+ * Groups whose `User-agent` is the agent's product token take precedence; when none match, the `*` groups
+ * apply. As in RFC 9309, the token is the user agent up to any `/version` and is compared case-insensitively
+ * but otherwise exactly, so a group for `search` doesn't apply to `adp-search-indexer`. `Sitemap:` directives
+ * are collected regardless of group.
+ *
+ * @param text - The robots.txt content
+ * @param userAgent - The user agent name the indexer identifies as
+ * @returns The rules for the user agent and the listed sitemaps
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsTxt {
+  const agent = getProductToken(userAgent);
+  const sitemaps: string[] = [];
+  const agentRules: RobotsRule[] = [];
+  const wildcardRules: RobotsRule[] = [];
+  let matchedAgentGroup = false;
+
+  // User agents of the group being read, and whether its rules have started
+  let groupAgents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    if (key === 'sitemap') {
+      if (value) {
+        sitemaps.push(value);
+      }
+      continue;
+    }
+
+    if (key === 'user-agent') {
+      // A user-agent line after rules starts a new group
+      if (inRules) {
+        groupAgents = [];
+        inRules = false;
+      }
+      groupAgents.push(getProductToken(value));
+      continue;
+    }
+
+    if (key !== 'allow' && key !== 'disallow') {
+      continue;
+    }
+
+    inRules = true;
+
+    // An empty Disallow allows everything, so it adds no rule
+    if (!value) {
+      continue;
+    }
+
+    const rule: RobotsRule = { allow: key === 'allow', pattern: value };
+    if (groupAgents.includes(agent)) {
+      matchedAgentGroup = true;
+      agentRules.push(rule);
+    } else if (groupAgents.includes('*')) {
+      wildcardRules.push(rule);
+    }
+  }
+
+  return { rules: matchedAgentGroup ? agentRules : wildcardRules, sitemaps };
+}
+
+/**
+ * Converts a robots.txt path pattern into a regular expression anchored at the start of the path.
+ */
+const patternToRegExp = (pattern: string): RegExp => {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+};
+
+/**
+ * Determines if robots.txt allows the indexer to fetch a path.
+ *
+ * The most specific (longest) matching rule wins, and Allow wins a tie, as described in RFC 9309.
+ *
+ * @param robots - The parsed robots.txt, or undefined when robots.txt is ignored
+ * @param path - The URL path (optionally with query string) to check
+ * @returns True if the path may be fetched
+ */
+export function isAllowedByRobots(robots: RobotsTxt | undefined, path: string): boolean {
+  if (!robots || robots.rules.length === 0) {
+    return true;
+  }
+
+  let bestMatch: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (!patternToRegExp(rule.pattern).test(path)) {
+      continue;
+    }
+
+    if (
+      !bestMatch ||
+      rule.pattern.length > bestMatch.pattern.length ||
+      (rule.pattern.length === bestMatch.pattern.length && rule.allow)
+    ) {
+      bestMatch = rule;
+    }
+  }
+
+  return bestMatch ? bestMatch.allow : true;
+}
+
+/**
+ * Loads and parses robots.txt from a URL or a local file.
+ *
+ * A missing robots.txt allows everything. Other failures are logged and also treated as allowing
+ * everything, so an unreachable robots.txt doesn't block indexing.
+ *
+ * @param location - The robots.txt URL, `file://` URL or filesystem path
+ * @param userAgent - The user agent name the indexer identifies as
+ * @param verbose - Optional flag to enable verbose logging
+ * @returns The rules for the user agent and the listed sitemaps
+ */
+export async function loadRobotsTxt(location: string, userAgent: string, verbose = false): Promise<RobotsTxt> {
+  try {
+    let text: string;
+    if (isLocalLocation(location)) {
+      text = await readFile(toLocalPath(location), 'utf8');
+    } else {
+      const response = await fetch(location, { headers: { 'User-Agent': userAgent } });
+      if (response.status === 404) {
+        if (verbose) {
+          console.log(`No robots.txt found at ${location}`);
+        }
+        return { rules: [], sitemaps: [] };
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      text = await response.text();
+    }
+
+    const robots = parseRobotsTxt(text, userAgent);
+    if (verbose) {
+      console.log(
+        `Loaded robots.txt from ${location}: ${robots.rules.length} rules for "${userAgent}", ${robots.sitemaps.length} sitemaps`
+      );
+    }
+    return robots;
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+      if (verbose) {
+        console.log(`No robots.txt found at ${location}`);
+      }
+    } else {
+      console.warn(
+        `Failed to load robots.txt from ${location}, ignoring it: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    return { rules: [], sitemaps: [] };
+  }
+}
@@ -0,0 +1,119 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { ProductMappingService } from './product-mapping';
+import { diffSitemapSnapshots, loadSitemapSnapshot, SitemapSnapshotWriter } from './sitemap-diff';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+const dir = await mkdtemp(join(tmpdir(), 'sitemap-diff-test-'));
+
+try {
+  const mappingPath = join(dir, 'product-index-map.json');
+  await writeFile(
+    mappingPath,
+    JSON.stringify([
+      { productName: 'Photoshop', productIndices: [{ indexName: 'photoshop', indexPathPrefix: '/photoshop' }] },
+      { productName: 'Express', productIndices: [{ indexName: 'express', indexPathPrefix: '/express' }] },
+    ])
+  );
+  const productMappingService = new ProductMappingService();
+  await productMappingService.initialize(mappingPath);
+
+  // Simple tests for sitemap snapshot diffs
+  console.log('Testing diffSitemapSnapshots function:');
+
+  const diff = diffSitemapSnapshots(
+    {
+      createdAt: '2026-01-01T00:00:00.000Z',
+      sitemaps: [],
+      urls: [
+        { loc: 'https://developer.adobe.com/photoshop/api/', lastmod: '2026-01-01' },
+        { loc: 'https://developer.adobe.com/photoshop/uxp/', lastmod: '2026-01-01' },
+        { loc: 'https://developer.adobe.com/express/old/' },
+      ],
+    },
+    {
+      createdAt: '2026-02-01T00:00:00.000Z',
+      sitemaps: [],
+      urls: [
+        { loc: 'https://developer.adobe.com/photoshop/api/', lastmod: '2026-02-01' },
+        { loc: 'https://developer.adobe.com/photoshop/uxp/', lastmod: '2026-01-01' },
+        { loc: 'https://developer.adobe.com/express/new/' },
+        { loc: 'https://developer.adobe.com/unmapped/page/' },
+      ],
+    },
+    productMappingService
+  );
+
+  check(
+    JSON.stringify(diff.totals) === JSON.stringify({ added: 2, removed: 1, changed: 1 }),
+    `Totals → ${JSON.stringify(diff.totals)}`
+  );
+  check(
+    JSON.stringify(diff.byIndex['photoshop']?.changed) ===
+      JSON.stringify([
+        { loc: 'https://developer.adobe.com/photoshop/api/', previousLastmod: '2026-01-01', lastmod: '2026-02-01' },
+      ]),
+    'A new lastmod is reported as changed under its index'
+  );
+  check(
+    diff.byIndex['express']?.added[0] === 'https://developer.adobe.com/express/new/' &&
+      diff.byIndex['express']?.removed[0] === 'https://developer.adobe.com/express/old/',
+    'Added and removed URLs are grouped under their index'
+  );
+  check(
+    diff.byIndex['(no mapping)']?.added[0] === 'https://developer.adobe.com/unmapped/page/',
+    'URLs without a mapping are listed under "(no mapping)"'
+  );
+
+  console.log('\nTesting SitemapSnapshotWriter class:');
+
+  const snapshotDir = join(dir, 'snapshots');
+  const urls = [
+    { loc: 'https://developer.adobe.com/photoshop/api/', lastmod: '2026-02-01' },
+    { loc: 'https://developer.adobe.com/express/new/' },
+  ];
+  const stream = async function* (): AsyncGenerator<(typeof urls)[number]> {
+    yield* urls;
+  };
+
+  const writer = new SitemapSnapshotWriter(snapshotDir, ['https://developer.adobe.com/sitemap.xml']);
+  const passedThrough = [];
+  for await (const url of writer.collect(stream())) {
+    passedThrough.push(url);
+  }
+  check(passedThrough.length === urls.length, 'Entries pass through unchanged');
+  check((await loadSitemapSnapshot(snapshotDir)) === null, 'Nothing replaces the latest snapshot before commit');
+
+  await writer.commit();
+  const saved = await loadSitemapSnapshot(snapshotDir);
+  check(
+    JSON.stringify(saved?.urls) === JSON.stringify(urls) &&
+      saved?.sitemaps[0] === 'https://developer.adobe.com/sitemap.xml',
+    'The committed snapshot holds the streamed entries'
+  );
+
+  const failed = new SitemapSnapshotWriter(snapshotDir, []);
+  for await (const url of failed.collect(stream())) {
+    void url;
+    break;
+  }
+  await failed.discard();
+  const kept = await loadSitemapSnapshot(snapshotDir);
+  const files = await readdir(snapshotDir);
+  check(
+    kept?.createdAt === saved?.createdAt && files.length === 1,
+    `A discarded run leaves the latest snapshot as it was: ${files.join(', ')}`
+  );
+} finally {
+  await rm(dir, { recursive: true, force: true });
+}
+
+console.log('\nDone!');
@@ -0,0 +1,275 @@
+import { open, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import chalk from 'chalk';
+
+import type { SitemapUrl } from '../types/index';
+import { ensureDir } from '../utils/ensure-dir';
+
+import { ProductMappingService } from './product-mapping';
+
+/**
+ * The validated sitemap entries of one run, persisted so the next run can be compared against it.
+ */
+export interface SitemapSnapshot {
+  /** When the snapshot was taken (ISO 8601) */
+  createdAt: string;
+  /** The sitemaps the entries were read from */
+  sitemaps: string[];
+  /** The validated sitemap entries */
+  urls: SitemapUrl[];
+}
+
+/**
+ * A URL whose lastmod differs between two snapshots.
+ */
+export interface ChangedSitemapUrl {
+  /** The location (URL) of the page */
+  loc: string;
+  /** The lastmod in the previous snapshot */
+  previousLastmod?: string;
+  /** The lastmod in the current snapshot */
+  lastmod?: string;
+}
+
+/**
+ * The changes for a single index between two snapshots.
+ */
+export interface IndexDiff {
+  /** URLs only in the current snapshot */
+  added: string[];
+  /** URLs only in the previous snapshot */
+  removed: string[];
+  /** URLs in both snapshots with a different lastmod */
+  changed: ChangedSitemapUrl[];
+}
+
+/**
+ * The changes between two sitemap snapshots, grouped by the index each URL maps to.
+ */
+export interface SitemapDiff {
+  /** When the previous snapshot was taken */
+  previousCreatedAt: string;
+  /** When the current snapshot was taken */
+  currentCreatedAt: string;
+  /** Totals across all indices */
+  totals: { added: number; removed: number; changed: number };
+  /** Changes keyed by index name; URLs without a mapping are listed under `(no mapping)` */
+  byIndex: Record<string, IndexDiff>;
+}
+
+const LATEST_SNAPSHOT = 'latest.json';
+const PREVIOUS_SNAPSHOT = 'previous.json';
+// A snapshot is written here first, so a failed run leaves the latest snapshot untouched
+const PARTIAL_SNAPSHOT = 'latest.json.partial';
+
+/**
+ * Reads the most recent sitemap snapshot from the snapshot directory.
+ *
+ * @param snapshotDir - The directory snapshots are kept in.
+ * @returns The snapshot, or null if no snapshot has been saved yet.
+ */
+export async function loadSitemapSnapshot(snapshotDir: string): Promise<SitemapSnapshot | null> {
+  try {
+    const content = await readFile(join(snapshotDir, LATEST_SNAPSHOT), 'utf8');
+    return JSON.parse(content) as SitemapSnapshot;
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+      return null;
+    }
+    throw new Error(`Failed to read sitemap snapshot: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Makes the partial snapshot the latest one. The snapshot it replaces is kept as `previous.json`.
+ *
+ * @param snapshotDir - The directory snapshots are kept in.
+ */
+async function commitPartialSnapshot(snapshotDir: string): Promise<void> {
+  const latestPath = join(snapshotDir, LATEST_SNAPSHOT);
+  try {
+    await rename(latestPath, join(snapshotDir, PREVIOUS_SNAPSHOT));
+  } catch (error) {
+    if (!(error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT')) {
+      throw error;
+    }
+  }
+  await rename(join(snapshotDir, PARTIAL_SNAPSHOT), latestPath);
+}
+
+/**
+ * Saves the validated sitemap entries of this run as the latest snapshot. The snapshot it replaces is kept
+ * as `previous.json`.
+ *
+ * @param urls - The validated sitemap entries.
+ * @param sitemaps - The sitemaps the entries were read from.
+ * @param snapshotDir - The directory snapshots are kept in.
+ * @returns The saved snapshot.
+ */
+export async function saveSitemapSnapshot(
+  urls: SitemapUrl[],
+  sitemaps: string[],
+  snapshotDir: string
+): Promise<SitemapSnapshot> {
+  await ensureDir(snapshotDir);
+
+  const snapshot: SitemapSnapshot = { createdAt: new Date().toISOString(), sitemaps, urls };
+  await writeFile(join(snapshotDir, PARTIAL_SNAPSHOT), JSON.stringify(snapshot, null, 2));
+  await commitPartialSnapshot(snapshotDir);
+  return snapshot;
+}
+
+/**
+ * Writes the sitemap entries of a streamed run to disk as they pass through, so a streamed run can be
+ * snapshotted without keeping every entry in memory. The entries go to a partial file, which only replaces
+ * the latest snapshot when the run commits it.
+ */
+export class SitemapSnapshotWriter {
+  private _snapshotDir: string;
+  private _sitemaps: string[];
+  private _file: FileHandle | null = null;
+  private _count = 0;
+
+  /**
+   * @param snapshotDir - The directory snapshots are kept in.
+   * @param sitemaps - The sitemaps the entries are read from.
+   */
+  constructor(snapshotDir: string, sitemaps: string[]) {
+    this._snapshotDir = snapshotDir;
+    this._sitemaps = sitemaps;
+  }
+
+  /**
+   * Passes sitemap entries through unchanged while writing each one to the partial snapshot.
+   *
+   * @param urls - The sitemap entries being streamed.
+   * @yields Each sitemap entry, once it is written.
+   */
+  async *collect(urls: AsyncIterable<SitemapUrl>): AsyncGenerator<SitemapUrl> {
+    const file = await this._open();
+    for await (const url of urls) {
+      await file.write(`${this._count++ === 0 ? '' : ',\n'}    ${JSON.stringify(url)}`);
+      yield url;
+    }
+  }
+
+  /**
+   * Finishes the partial snapshot and makes it the latest one. The snapshot it replaces is kept as
+   * `previous.json`.
+   */
+  async commit(): Promise<void> {
+    const file = await this._open();
+    await file.write('\n  ]\n}\n');
+    await file.close();
+    this._file = null;
+    await commitPartialSnapshot(this._snapshotDir);
+  }
+
+  /**
+   * Removes the partial snapshot of a run that failed, leaving the latest snapshot as it was.
+   */
+  async discard(): Promise<void> {
+    await this._file?.close();
+    this._file = null;
+    await rm(join(this._snapshotDir, PARTIAL_SNAPSHOT), { force: true });
+  }
+
+  /**
+   * Opens the partial snapshot and writes everything before the entries, unless it is open already.
+   */
+  private async _open(): Promise<FileHandle> {
+    if (!this._file) {
+      await ensureDir(this._snapshotDir);
+      this._file = await open(join(this._snapshotDir, PARTIAL_SNAPSHOT), 'w');
+      const header = JSON.stringify({ createdAt: new Date().toISOString(), sitemaps: this._sitemaps }, null, 2);
+      await this._file.write(`${header.slice(0, -2)},\n  "urls": [\n`);
+    }
+    return this._file;
+  }
+}
+
+/**
+ * Compares two sitemap snapshots and groups the added, removed and lastmod-changed URLs by the index
+ * each URL maps to.
+ *
+ * @param previous - The earlier snapshot.
+ * @param current - The later snapshot.
+ * @param productMappingService - The ProductMappingService instance used to resolve each URL's index.
+ * @returns The differences between the snapshots.
+ */
+export function diffSitemapSnapshots(
+  previous: SitemapSnapshot,
+  current: SitemapSnapshot,
+  productMappingService: ProductMappingService
+): SitemapDiff {
+  const diff: SitemapDiff = {
+    previousCreatedAt: previous.createdAt,
+    currentCreatedAt: current.createdAt,
+    totals: { added: 0, removed: 0, changed: 0 },
+    byIndex: {},
+  };
+
+  const forIndex = (loc: string): IndexDiff => {
+    let indexName = '(no mapping)';
+    try {
+      const match = productMappingService.findBestMatch(new URL(loc).pathname);
+      if (match) {
+        indexName = match.indexName;
+      }
+    } catch {
+      // Invalid URLs are reported without a mapping
+    }
+    diff.byIndex[indexName] ??= { added: [], removed: [], changed: [] };
+    return diff.byIndex[indexName];
+  };
+
+  const previousByLoc = new Map(previous.urls.map((url) => [url.loc, url]));
+  const currentLocs = new Set<string>();
+
+  for (const url of current.urls) {
+    currentLocs.add(url.loc);
+    const before = previousByLoc.get(url.loc);
+    if (!before) {
+      forIndex(url.loc).added.push(url.loc);
+      diff.totals.added++;
+    } else if (before.lastmod !== url.lastmod) {
+      forIndex(url.loc).changed.push({ loc: url.loc, previousLastmod: before.lastmod, lastmod: url.lastmod });
+      diff.totals.changed++;
+    }
+  }
+
+  for (const url of previous.urls) {
+    if (!currentLocs.has(url.loc)) {
+      forIndex(url.loc).removed.push(url.loc);
+      diff.totals.removed++;
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Prints a sitemap diff as a summary per index followed by the changed URLs.
+ *
+ * @param diff - The differences between two snapshots.
+ */
+export function printSitemapDiff(diff: SitemapDiff): void {
+  console.log(`\n${chalk.bold('Sitemap Changes')}`);
+  console.log(`Since ${diff.previousCreatedAt}`);
+  console.log(
+    `${chalk.green(`${diff.totals.added} added`)}, ${chalk.red(`${diff.totals.removed} removed`)}, ` +
+      `${chalk.yellow(`${diff.totals.changed} updated`)}`
+  );
+
+  for (const indexName of Object.keys(diff.byIndex).sort()) {
+    const { added, removed, changed } = diff.byIndex[indexName];
+    console.log(`\n  ${chalk.cyan(indexName)} (+${added.length} -${removed.length} ~${changed.length})`);
+    added.forEach((loc) => console.log(chalk.green(`    + ${loc}`)));
+    removed.forEach((loc) => console.log(chalk.red(`    - ${loc}`)));
+    changed.forEach(({ loc, previousLastmod, lastmod }) => {
+      console.log(chalk.yellow(`    ~ ${loc} (${previousLastmod || 'no lastmod'} → ${lastmod || 'no lastmod'})`));
+    });
+  }
+}
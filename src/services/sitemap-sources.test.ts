@@ -0,0 +1,108 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { ProductMappingService } from './product-mapping';
+import { isInSourceIndices, loadSitemapSources } from './sitemap-sources';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+const dir = await mkdtemp(join(tmpdir(), 'sitemap-sources-test-'));
+
+try {
+  // Simple tests for sitemap sources
+  console.log('Testing loadSitemapSources function:');
+
+  const sourcesFile = join(dir, 'sources.json');
+  await writeFile(sourcesFile, '[{ "name": "docs", "sitemap": "https://developer.adobe.com/sitemap.xml" }]');
+
+  const cases = [
+    {
+      name: 'A single sitemap is read as a list',
+      location: '[{ "name": "docs", "sitemap": "sitemap.xml", "baseUrl": "https://developer.adobe.com" }]',
+      expected: [{ name: 'docs', baseUrl: 'https://developer.adobe.com', sitemapUrls: ['sitemap.xml'] }],
+    },
+    {
+      name: 'Several sitemaps and indices are kept',
+      location: ' [{ "name": "ps", "sitemap": ["a.xml", "b.xml.gz"], "indices": ["photoshop"] }]',
+      expected: [{ name: 'ps', indices: ['photoshop'], sitemapUrls: ['a.xml', 'b.xml.gz'] }],
+    },
+    {
+      name: 'Sources are read from a file',
+      location: sourcesFile,
+      expected: [{ name: 'docs', sitemapUrls: ['https://developer.adobe.com/sitemap.xml'] }],
+    },
+    { name: 'An empty list is rejected', location: '[]', expected: 'Invalid sitemap sources' },
+    {
+      name: 'Duplicate names are rejected',
+      location: '[{ "name": "docs", "sitemap": "a.xml" }, { "name": "docs", "sitemap": "b.xml" }]',
+      expected: 'Source names must be unique',
+    },
+    {
+      name: 'Invalid base URLs are rejected',
+      location: '[{ "name": "docs", "sitemap": "a.xml", "baseUrl": "developer.adobe.com" }]',
+      expected: 'Invalid sitemap sources: 0.baseUrl',
+    },
+    { name: 'Malformed JSON is rejected', location: '[{ "name": ', expected: 'JSON' },
+    { name: 'A missing file is rejected', location: join(dir, 'missing.json'), expected: 'missing.json' },
+  ];
+
+  for (const test of cases) {
+    let result: unknown;
+    try {
+      result = await loadSitemapSources(test.location);
+    } catch (error) {
+      result = error instanceof Error ? error.message : String(error);
+    }
+
+    const passed =
+      typeof test.expected === 'string'
+        ? typeof result === 'string' && result.includes(test.expected)
+        : JSON.stringify(result) === JSON.stringify(test.expected);
+    check(passed, `${test.name} ${!passed ? `→ ${JSON.stringify(result)}` : ''}`);
+  }
+
+  console.log('\nTesting isInSourceIndices function:');
+
+  const productMappingService = new ProductMappingService();
+  await productMappingService.initialize(
+    JSON.stringify([
+      {
+        productName: 'Photoshop',
+        productIndices: [
+          { indexName: 'photoshop', indexPathPrefix: '/photoshop/' },
+          { indexName: 'photoshop-api', indexPathPrefix: '/photoshop/api/' },
+        ],
+      },
+    ])
+  );
+  const source = { name: 'ps', sitemapUrls: ['sitemap.xml'], indices: ['photoshop-api'] };
+
+  const entries: [string, boolean][] = [
+    ['https://developer.adobe.com/photoshop/api/actions', true],
+    ['https://developer.adobe.com/photoshop/guides/', false],
+    ['https://developer.adobe.com/express/', false],
+    ['not a url', false],
+  ];
+  for (const [loc, expected] of entries) {
+    const result = isInSourceIndices({ loc }, source, productMappingService);
+    check(result === expected, `"${loc}" → ${result ? 'in' : 'not in'} the source indices`);
+  }
+  check(
+    isInSourceIndices(
+      { loc: 'https://developer.adobe.com/express/' },
+      { name: 'all', sitemapUrls: [] },
+      productMappingService
+    ),
+    'Sources without indices take every entry'
+  );
+} finally {
+  await rm(dir, { recursive: true, force: true });
+}
+
+console.log('\nDone!');
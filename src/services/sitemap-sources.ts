@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+import type { SitemapSource, SitemapUrl } from '../types/index';
+import { loadJsonResource } from '../utils/resource';
+
+import { ProductMappingService } from './product-mapping';
+
+const sitemapSourceSchema = z
+  .object({
+    name: z.string().min(1),
+    // One sitemap or a list of them, each a URL or local path
+    sitemap: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+    baseUrl: z.string().url().optional(),
+    indices: z.array(z.string().min(1)).optional(),
+  })
+  .transform(({ sitemap, ...source }) => ({
+    ...source,
+    sitemapUrls: Array.isArray(sitemap) ? sitemap : [sitemap],
+  }));
+
+const sitemapSourcesSchema = z
+  .array(sitemapSourceSchema)
+  .min(1)
+  .refine((sources) => new Set(sources.map((source) => source.name)).size === sources.length, {
+    message: 'Source names must be unique',
+  });
+
+/**
+ * Loads the list of sitemap sources for a run.
+ *
+ * The sources are a JSON array of `{ name, sitemap, baseUrl?, indices? }` objects, given inline or as the
+ * URL or local path of a JSON file.
+ *
+ * @param location - Inline JSON, or the URL or path of a JSON file
+ * @returns The validated sources
+ * @throws An error if the sources can't be read or are invalid
+ */
+export async function loadSitemapSources(location: string): Promise<SitemapSource[]> {
+  return loadJsonResource(location, sitemapSourcesSchema, 'sitemap sources');
+}
+
+/**
+ * Determines if a sitemap entry belongs to one of the indices a source is limited to.
+ *
+ * @param url - The sitemap entry.
+ * @param source - The source the entry was read from.
+ * @param productMappingService - The ProductMappingService instance used to resolve the entry's index.
+ * @returns True if the source has no index filter or the entry maps to one of its indices.
+ */
+export function isInSourceIndices(
+  url: SitemapUrl,
+  source: SitemapSource,
+  productMappingService: ProductMappingService
+): boolean {
+  if (!source.indices) {
+    return true;
+  }
+
+  try {
+    const match = productMappingService.findBestMatch(new URL(url.loc).pathname);
+    return !!match && source.indices.includes(match.indexName);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,72 @@
+import { shouldFailValidation, validateSitemap } from './sitemap-validation';
+
+// Simple tests for sitemap validation
+console.log('Testing validateSitemap function:');
+
+const report = validateSitemap(
+  [
+    { loc: 'https://developer.adobe.com/photoshop/api/', lastmod: '2026-01-01' },
+    { loc: 'https://developer.adobe.com/photoshop/api/', lastmod: '2026-01-01' },
+    { loc: 'https://developer.adobe.com/photoshop/api/#events' },
+    { loc: 'https://developer.adobe.com/express/guides' },
+    { loc: 'https://developer.adobe.com/express/guides/' },
+    { loc: 'https://developer.adobe.com/express/reference/', lastmod: 'last tuesday' },
+    { loc: 'https://developer.adobe.com/express/future/', lastmod: '2999-01-01' },
+    { loc: 'https://example.com/photoshop/' },
+    { loc: '/photoshop/relative/' },
+    { loc: 'https://developer.adobe.com/lightroom/#overview' },
+  ],
+  'https://developer.adobe.com'
+);
+
+const expectedIssues = [
+  { type: 'duplicate-loc', loc: 'https://developer.adobe.com/photoshop/api/' },
+  { type: 'invalid-lastmod', loc: 'https://developer.adobe.com/express/reference/' },
+  { type: 'future-lastmod', loc: 'https://developer.adobe.com/express/future/' },
+  { type: 'foreign-host', loc: 'https://example.com/photoshop/' },
+  { type: 'invalid-url', loc: '/photoshop/relative/' },
+  { type: 'fragment-duplicate', loc: 'https://developer.adobe.com/photoshop/api/#events' },
+  { type: 'trailing-slash-variant', loc: 'https://developer.adobe.com/express/guides' },
+  { type: 'trailing-slash-variant', loc: 'https://developer.adobe.com/express/guides/' },
+];
+
+expectedIssues.forEach((test) => {
+  const passed = report.issues.some((issue) => issue.type === test.type && issue.loc === test.loc);
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} "${test.loc}" is reported as ${test.type}`);
+});
+
+const countsPassed =
+  report.checked === 10 &&
+  report.issues.length === expectedIssues.length &&
+  report.counts.error === 2 &&
+  report.counts.warning === 6;
+if (!countsPassed) {
+  process.exitCode = 1;
+}
+console.log(
+  `${countsPassed ? '✅' : '❌'} ${report.checked} checked, ${report.counts.error} errors, ${report.counts.warning} warnings`
+);
+
+console.log('\nTesting shouldFailValidation function:');
+
+const warningsOnly = validateSitemap([{ loc: 'https://example.com/' }], 'https://developer.adobe.com');
+const failCases = [
+  { name: 'errors with --fail-on=error', report, failOn: 'error' as const, expected: true },
+  { name: 'warnings with --fail-on=error', report: warningsOnly, failOn: 'error' as const, expected: false },
+  { name: 'warnings with --fail-on=warning', report: warningsOnly, failOn: 'warning' as const, expected: true },
+  { name: 'errors without --fail-on', report, failOn: undefined, expected: false },
+];
+
+failCases.forEach((test) => {
+  const result = shouldFailValidation(test.report, test.failOn);
+  const passed = result === test.expected;
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${test.name} ${result ? 'fails' : 'passes'}`);
+});
+
+console.log('\nDone!');
@@ -0,0 +1,193 @@
+import chalk from 'chalk';
+
+import type { SitemapUrl } from '../types/index';
+import { isFutureDate } from '../utils/dates';
+
+/**
+ * How serious a sitemap problem is. Errors point at entries that can't be indexed correctly; warnings
+ * point at entries that work but waste requests or produce duplicate records.
+ */
+export type SitemapIssueSeverity = 'error' | 'warning';
+
+/**
+ * The checks run by {@link validateSitemap}.
+ */
+export type SitemapIssueType =
+  | 'invalid-url'
+  | 'duplicate-loc'
+  | 'invalid-lastmod'
+  | 'future-lastmod'
+  | 'foreign-host'
+  | 'trailing-slash-variant'
+  | 'fragment-duplicate';
+
+/**
+ * A problem found with a single sitemap entry.
+ */
+export interface SitemapIssue {
+  /** Which check found the problem */
+  type: SitemapIssueType;
+  /** How serious the problem is */
+  severity: SitemapIssueSeverity;
+  /** The location (URL) of the entry */
+  loc: string;
+  /** A description of the problem */
+  message: string;
+}
+
+/**
+ * Results of validating a sitemap.
+ */
+export interface SitemapValidationReport {
+  /** Number of entries checked, including duplicates */
+  checked: number;
+  /** Number of issues per severity */
+  counts: Record<SitemapIssueSeverity, number>;
+  /** The issues found, in check order */
+  issues: SitemapIssue[];
+}
+
+const SEVERITIES: Record<SitemapIssueType, SitemapIssueSeverity> = {
+  'invalid-url': 'error',
+  'duplicate-loc': 'warning',
+  'invalid-lastmod': 'error',
+  'future-lastmod': 'warning',
+  'foreign-host': 'warning',
+  'trailing-slash-variant': 'warning',
+  'fragment-duplicate': 'warning',
+};
+
+const TITLES: Record<SitemapIssueType, string> = {
+  'invalid-url': 'Invalid URLs',
+  'duplicate-loc': 'Duplicate URLs',
+  'invalid-lastmod': 'Unparseable lastmod',
+  'future-lastmod': 'lastmod in the future',
+  'foreign-host': 'URLs on another host',
+  'trailing-slash-variant': 'Trailing-slash variants',
+  'fragment-duplicate': 'Fragment URLs duplicating their page',
+};
+
+/**
+ * Checks sitemap entries for problems that lead to wasted requests or wrong and duplicate records:
+ * invalid or duplicate locations, unparseable or future `lastmod` values, hosts other than the base URL,
+ * paths listed both with and without a trailing slash, and fragment URLs whose page is also listed.
+ *
+ * @param entries - The sitemap entries as read, before duplicates are removed.
+ * @param baseUrl - The base URL of the site; entries on other hosts are reported.
+ * @returns The issues found, with counts per severity.
+ */
+export function validateSitemap(entries: SitemapUrl[], baseUrl: string): SitemapValidationReport {
+  const report: SitemapValidationReport = { checked: entries.length, counts: { error: 0, warning: 0 }, issues: [] };
+  const baseHost = new URL(baseUrl).host;
+
+  const addIssue = (type: SitemapIssueType, loc: string, message: string): void => {
+    const severity = SEVERITIES[type];
+    report.issues.push({ type, severity, loc, message });
+    report.counts[severity]++;
+  };
+
+  const occurrences = new Map<string, number>();
+  const parsed = new Map<string, URL>();
+
+  for (const { loc, lastmod } of entries) {
+    const count = (occurrences.get(loc) || 0) + 1;
+    occurrences.set(loc, count);
+    if (count === 2) {
+      addIssue('duplicate-loc', loc, 'Listed more than once');
+    }
+    if (count > 1) {
+      continue;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(loc);
+    } catch {
+      addIssue('invalid-url', loc, 'Not a valid absolute URL');
+      continue;
+    }
+    parsed.set(loc, url);
+
+    if (url.host !== baseHost) {
+      addIssue('foreign-host', loc, `Host ${url.host} differs from ${baseHost}`);
+    }
+
+    if (lastmod) {
+      if (isNaN(new Date(lastmod).getTime())) {
+        addIssue('invalid-lastmod', loc, `lastmod "${lastmod}" is not a valid date`);
+      } else if (isFutureDate(lastmod)) {
+        addIssue('future-lastmod', loc, `lastmod ${lastmod} is in the future`);
+      }
+    }
+  }
+
+  // Group the remaining checks by page, ignoring trailing slashes and fragments
+  const variants = new Map<string, string[]>();
+  for (const [loc, url] of parsed) {
+    if (url.hash) {
+      const parent = loc.substring(0, loc.indexOf('#'));
+      if (parsed.has(parent)) {
+        addIssue('fragment-duplicate', loc, `Page ${parent} is also listed`);
+      }
+      continue;
+    }
+
+    const key = `${url.origin}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+    variants.set(key, [...(variants.get(key) || []), loc]);
+  }
+
+  for (const locs of variants.values()) {
+    if (locs.length > 1) {
+      locs.forEach((loc) => {
+        addIssue('trailing-slash-variant', loc, `Listed as ${locs.filter((other) => other !== loc).join(', ')} too`);
+      });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Determines if a validation report should fail the run.
+ *
+ * @param report - The validation results.
+ * @param failOn - The lowest severity that fails the run, or undefined to never fail.
+ * @returns True if the report has issues at or above the given severity.
+ */
+export function shouldFailValidation(report: SitemapValidationReport, failOn?: SitemapIssueSeverity): boolean {
+  if (failOn === 'warning') {
+    return report.counts.error + report.counts.warning > 0;
+  }
+  if (failOn === 'error') {
+    return report.counts.error > 0;
+  }
+  return false;
+}
+
+/**
+ * Prints a sitemap validation report grouped by check.
+ *
+ * @param report - The validation results.
+ * @param verbose - Whether to list every affected URL instead of the first few per check.
+ */
+export function printValidationReport(report: SitemapValidationReport, verbose = false): void {
+  console.log(`\n${chalk.bold('Sitemap Validation')}`);
+  console.log(
+    `Checked ${chalk.cyan(report.checked)} entries: ${chalk.red(`${report.counts.error} errors`)}, ` +
+      `${chalk.yellow(`${report.counts.warning} warnings`)}`
+  );
+
+  const byType = new Map<SitemapIssueType, SitemapIssue[]>();
+  report.issues.forEach((issue) => byType.set(issue.type, [...(byType.get(issue.type) || []), issue]));
+
+  for (const [type, issues] of byType) {
+    const color = SEVERITIES[type] === 'error' ? chalk.red : chalk.yellow;
+    console.log(`\n  ${color(`[${SEVERITIES[type]}]`)} ${TITLES[type]} (${issues.length})`);
+
+    const shown = verbose ? issues : issues.slice(0, 5);
+    shown.forEach((issue) => console.log(`    • ${issue.loc} - ${issue.message}`));
+    if (shown.length < issues.length) {
+      console.log(`    ... and ${issues.length - shown.length} more (use --verbose to list all)`);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+
+import type { SitemapUrl } from '../types/index';
+
+import { ProductMappingService } from './product-mapping';
+import { parseRobotsTxt } from './robots';
+import { fetchSitemap, filterSitemapUrls, streamSitemap } from './sitemap';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+const collect = async (urls: AsyncIterable<SitemapUrl>): Promise<SitemapUrl[]> => {
+  const result: SitemapUrl[] = [];
+  for await (const url of urls) {
+    result.push(url);
+  }
+  return result;
+};
+
+const baseUrl = 'https://developer.adobe.com';
+const urlset = (locs: string[]): string => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  ${locs.map((loc) => `<url><loc>${baseUrl}${loc}</loc></url>`).join('\n  ')}
+</urlset>`;
+const sitemapIndex = (files: string[]): string => `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  ${files.map((file) => `<sitemap><loc>${baseUrl}/${file}</loc></sitemap>`).join('\n  ')}
+</sitemapindex>`;
+
+const dir = await mkdtemp(join(tmpdir(), 'sitemap-test-'));
+
+try {
+  // Simple tests for sitemap parsing
+  console.log('Testing sitemap parsing:');
+
+  await writeFile(
+    join(dir, 'extensions.xml'),
+    `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+        xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"
+        xmlns:video="http://www.google.com/schemas/sitemap-video/1.1"
+        xmlns:xhtml="http://www.w3.org/1999/xhtml">
+  <url>
+    <image:image><image:loc>${baseUrl}/img.png</image:loc></image:image>
+    <loc>${baseUrl}/photoshop/</loc>
+    <lastmod>2026-10-01</lastmod>
+    <video:video>
+      <video:content_loc>${baseUrl}/intro.mp4</video:content_loc>
+      <video:player_loc>${baseUrl}/player</video:player_loc>
+      <video:loc>${baseUrl}/video-loc</video:loc>
+    </video:video>
+    <xhtml:link rel="alternate" hreflang="ja" href="${baseUrl}/ja/photoshop/"/>
+    <priority>0.8</priority>
+  </url>
+</urlset>`
+  );
+  const [extensionEntry] = await fetchSitemap(join(dir, 'extensions.xml'));
+  check(
+    extensionEntry?.loc === `${baseUrl}/photoshop/`,
+    `Image and video locations don't replace the page location → ${extensionEntry?.loc}`
+  );
+  check(
+    extensionEntry?.lastmod === '2026-10-01' && extensionEntry.priority === '0.8',
+    'Fields after an extension element are still read'
+  );
+  check(
+    JSON.stringify(extensionEntry?.alternates) ===
+      JSON.stringify([{ hreflang: 'ja', href: `${baseUrl}/ja/photoshop/` }]),
+    'Alternate language links are read'
+  );
+
+  await writeFile(
+    join(dir, 'prefixed.xml'),
+    `<sm:urlset xmlns:sm="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:other="urn:other">
+  <sm:url><sm:loc>${baseUrl}/express/</sm:loc><other:loc>${baseUrl}/other</other:loc></sm:url>
+</sm:urlset>`
+  );
+  const prefixed = await fetchSitemap(join(dir, 'prefixed.xml'));
+  check(
+    JSON.stringify(prefixed.map((url) => url.loc)) === JSON.stringify([`${baseUrl}/express/`]),
+    `A prefixed sitemap namespace is read and other namespaces are not → ${JSON.stringify(prefixed.map((url) => url.loc))}`
+  );
+
+  console.log('\nTesting sitemap indexes:');
+
+  // index.xml → a.xml, b.xml; b.xml is itself an index pointing back at index.xml and on to c.xml
+  await writeFile(join(dir, 'index.xml'), sitemapIndex(['a.xml', 'b.xml']));
+  await writeFile(join(dir, 'a.xml'), urlset(['/photoshop/', '/express/']));
+  await writeFile(join(dir, 'b.xml'), sitemapIndex(['index.xml', 'c.xml']));
+  await writeFile(join(dir, 'c.xml'), urlset(['/commerce/', '/photoshop/']));
+
+  const entries: SitemapUrl[] = [];
+  const urls = await fetchSitemap(join(dir, 'index.xml'), false, entries);
+  check(
+    JSON.stringify(urls.map((url) => url.loc)) ===
+      JSON.stringify([`${baseUrl}/photoshop/`, `${baseUrl}/express/`, `${baseUrl}/commerce/`]),
+    `Child sitemaps are read in order, duplicates removed → ${JSON.stringify(urls.map((url) => url.loc))}`
+  );
+  check(entries.length === 4, `Every entry read is reported before duplicates are removed → ${entries.length}`);
+  check(urls[2]?.source === join(dir, 'c.xml'), `Entries record the sitemap they came from → ${urls[2]?.source}`);
+
+  console.log('\nTesting streamed sitemaps:');
+
+  const streamed = await collect(streamSitemap(join(dir, 'index.xml')));
+  check(
+    JSON.stringify(streamed.map((url) => url.loc)) === JSON.stringify(entries.map((url) => url.loc)),
+    'Streaming yields the same entries as fetching, duplicates included'
+  );
+
+  const productMappingService = new ProductMappingService();
+  await writeFile(
+    join(dir, 'stream.xml'),
+    urlset(['/photoshop/', '/photoshop/', '/drafts/page', '/private/page', '/express/'])
+  );
+  const filtered = await collect(
+    filterSitemapUrls(
+      streamSitemap(join(dir, 'stream.xml')),
+      productMappingService,
+      false,
+      parseRobotsTxt('User-agent: *\nDisallow: /private/', 'adp-search-indexer')
+    )
+  );
+  check(
+    JSON.stringify(filtered.map((url) => url.loc)) === JSON.stringify([`${baseUrl}/photoshop/`, `${baseUrl}/express/`]),
+    `Duplicate, excluded and disallowed URLs are filtered from the stream → ${JSON.stringify(filtered.map((url) => url.loc))}`
+  );
+
+  console.log('\nTesting gzipped sitemaps:');
+
+  // Compressed sitemaps are recognized by their content, whatever the file is called
+  await writeFile(join(dir, 'zipped-index.xml'), sitemapIndex(['d.xml.gz', 'e.xml']));
+  await writeFile(join(dir, 'd.xml.gz'), gzipSync(urlset(['/lightroom/'])));
+  await writeFile(join(dir, 'e.xml'), gzipSync(urlset(['/firefly/'])));
+  const unzipped = await fetchSitemap(join(dir, 'zipped-index.xml'));
+  check(
+    JSON.stringify(unzipped.map((url) => url.loc)) === JSON.stringify([`${baseUrl}/lightroom/`, `${baseUrl}/firefly/`]),
+    `Gzipped child sitemaps are decompressed → ${JSON.stringify(unzipped.map((url) => url.loc))}`
+  );
+
+  const zipped = gzipSync(urlset(['/lightroom/', '/firefly/']));
+  await writeFile(join(dir, 'truncated.xml.gz'), zipped.subarray(0, zipped.length - 10));
+  let truncatedError = '';
+  try {
+    await fetchSitemap(join(dir, 'truncated.xml.gz'));
+  } catch (error) {
+    truncatedError = error instanceof Error ? error.message : String(error);
+  }
+  check(truncatedError !== '', `A truncated gzipped sitemap fails the read → ${truncatedError}`);
+
+  // A server that sends half of a gzipped sitemap and then drops the connection
+  const server = createServer((request, response) => {
+    response.writeHead(200, { 'Content-Type': 'application/gzip', 'Content-Length': zipped.length });
+    if (request.url === '/sitemap.xml.gz') {
+      response.end(zipped);
+    } else {
+      response.write(zipped.subarray(0, 20), () => response.destroy());
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  try {
+    const serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const fetched = await fetchSitemap(`${serverUrl}/sitemap.xml.gz`);
+    check(fetched.length === 2, `A gzipped sitemap is decompressed as it is downloaded → ${fetched.length} URLs`);
+
+    let droppedError = '';
+    try {
+      await fetchSitemap(`${serverUrl}/dropped.xml.gz`);
+    } catch (error) {
+      droppedError = error instanceof Error ? error.message : String(error);
+    }
+    check(droppedError !== '', `A dropped connection fails the read → ${droppedError}`);
+  } finally {
+    server.close();
+  }
+
+  let missingError = '';
+  try {
+    await collect(streamSitemap(join(dir, 'missing.xml')));
+  } catch (error) {
+    missingError = error instanceof Error ? error.message : String(error);
+  }
+  check(missingError.includes('not found'), `A missing sitemap fails the stream → ${missingError}`);
+} finally {
+  await rm(dir, { recursive: true, force: true });
+}
+
+console.log('\nDone!');
@@ -1,41 +1,381 @@
-import cheerio from 'cheerio';
+import { createReadStream } from 'node:fs';
+import { access } from 'node:fs/promises';
+import { basename, dirname, resolve } from 'node:path';
+import { Readable, pipeline } from 'node:stream';
+import { createGunzip } from 'node:zlib';
+
+import { Parser } from 'htmlparser2';
 
 import type { SitemapUrl } from '../types/index';
+import { isLocalLocation, toLocalPath } from '../utils/resource';
 
+import type { CoverageReport } from './coverage';
 import { ProductMappingService } from './product-mapping';
+import { isAllowedByRobots, type RobotsTxt } from './robots';
+
+// The namespace of the sitemap protocol's own elements
+const SITEMAP_NAMESPACE = 'http://www.sitemaps.org/schemas/sitemap/0.9';
 
 /**
- * Fetches the sitemap XML from the given URL and returns an array of sitemap entries.
- *
- * @param sitemapUrl - The full URL to the sitemap XML.
- * @param verbose - Optional flag to enable verbose logging.
- * @returns A promise that resolves to an array of SitemapUrl objects.
- * @throws An error if the sitemap cannot be fetched.
+ * Checks for the gzip magic number, so compressed sitemaps are detected regardless of
+ * file extension or the Content-Type the server reports.
  */
-export async function fetchSitemap(sitemapUrl: string, verbose = false): Promise<SitemapUrl[]> {
-  if (verbose) {
-    console.log(`Fetching sitemap from: ${sitemapUrl}`);
+const isGzipped = (chunk: Uint8Array): boolean => chunk.length > 2 && chunk[0] === 0x1f && chunk[1] === 0x8b;
+
+/**
+ * Opens a sitemap document as a stream of bytes, from the network or, for `file://` URLs and
+ * filesystem paths, from disk.
+ */
+async function openSitemap(location: string): Promise<AsyncIterable<Uint8Array>> {
+  if (isLocalLocation(location)) {
+    const path = toLocalPath(location);
+    try {
+      await access(path);
+    } catch {
+      throw new Error(`Failed to read sitemap: ${path} not found`);
+    }
+    return createReadStream(path);
   }
 
-  const response = await fetch(sitemapUrl);
+  const response = await fetch(location);
   if (!response.ok) {
     throw new Error(`Failed to fetch sitemap: ${response.statusText}`);
   }
+  // Web streams are async iterable in Node, even though the DOM typings don't declare it
+  return (response.body ?? []) as unknown as AsyncIterable<Uint8Array>;
+}
+
+/**
+ * Resolves a child sitemap `loc` found in a sitemap index. For an index read from disk, absolute URLs are
+ * mapped to the file of the same name next to the index, so a saved snapshot of an index and its child
+ * sitemaps can be read without network access.
+ */
+function resolveChildSitemap(loc: string, parent: string): string {
+  if (!isLocalLocation(parent)) {
+    return new URL(loc, parent).toString();
+  }
+
+  const fileName = isLocalLocation(loc) ? loc : basename(new URL(loc).pathname);
+  return resolve(dirname(toLocalPath(parent)), fileName);
+}
+
+/**
+ * Reads a sitemap body chunk by chunk as text, decompressing gzipped (`.xml.gz`) payloads on the fly.
+ */
+async function* readSitemapText(data: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+  const chunks = data[Symbol.asyncIterator]();
+  const first = await chunks.next();
+  if (first.done) {
+    return;
+  }
+
+  // Put the chunk we peeked at back in front of the rest of the body
+  async function* body(): AsyncGenerator<Uint8Array> {
+    yield first.value;
+    for (let next = await chunks.next(); !next.done; next = await chunks.next()) {
+      yield next.value;
+    }
+  }
+
+  let source: AsyncIterable<Uint8Array> = body();
+  if (isGzipped(first.value)) {
+    // pipeline destroys the gunzip stream when the body fails, so a dropped connection rejects the loop below
+    const gunzip = createGunzip();
+    pipeline(Readable.from(source), gunzip, () => {});
+    source = gunzip;
+  }
+  const decoder = new TextDecoder();
+  for await (const chunk of source) {
+    yield decoder.decode(chunk, { stream: true });
+  }
+  yield decoder.decode();
+}
+
+/**
+ * Creates a SAX-style parser for one sitemap document. URL entries and child sitemap locations are
+ * appended to the returned arrays as soon as their closing tags are parsed, so the caller can drain
+ * them between chunks instead of waiting for the whole document.
+ *
+ * Only unprefixed elements and elements in the sitemap namespace are read as sitemap fields. Extensions such as
+ * `<image:image>` or `<video:video>` have their own `loc` elements, so everything inside them is skipped;
+ * `<xhtml:link rel="alternate">` is the one extension element read, for the alternate language versions.
+ *
+ * @param sitemapUrl - The URL of the document being parsed, recorded as the `source` of each entry.
+ * @returns The parser along with the arrays it fills.
+ */
+function createSitemapParser(sitemapUrl: string): {
+  parser: Parser;
+  entries: SitemapUrl[];
+  childSitemaps: string[];
+} {
+  const entries: SitemapUrl[] = [];
+  const childSitemaps: string[] = [];
+
+  let entry: SitemapUrl | null = null;
+  let inSitemap = false;
+  let field: string | null = null;
+  let text = '';
+  // How deep the parser is inside an element of another namespace
+  let extensionDepth = 0;
+  // Namespace prefixes bound to the sitemap namespace, such as `sm` in `sm:url`
+  const sitemapPrefixes = new Set(['']);
+
+  const parseName = (name: string): { prefix: string; tag: string } => {
+    const separator = name.indexOf(':');
+    return { prefix: name.substring(0, Math.max(separator, 0)), tag: name.substring(separator + 1) };
+  };
+
+  const parser = new Parser(
+    {
+      onopentag(name, attributes) {
+        for (const [attribute, value] of Object.entries(attributes)) {
+          if (attribute.startsWith('xmlns:') && value === SITEMAP_NAMESPACE) {
+            sitemapPrefixes.add(attribute.substring('xmlns:'.length));
+          }
+        }
+
+        const { prefix, tag } = parseName(name);
+        if (extensionDepth === 0 && entry && tag === 'link' && attributes['rel'] === 'alternate') {
+          const { hreflang, href } = attributes;
+          if (hreflang && href) {
+            entry.alternates = [...(entry.alternates || []), { hreflang, href }];
+          }
+        }
+
+        if (extensionDepth > 0 || !sitemapPrefixes.has(prefix)) {
+          extensionDepth++;
+        } else if (tag === 'url') {
+          entry = { loc: '', source: sitemapUrl };
+        } else if (tag === 'sitemap') {
+          inSitemap = true;
+        } else if (inSitemap && (tag === 'loc' || tag === 'lastmod')) {
+          field = tag;
+          text = '';
+        } else if (entry && (tag === 'loc' || tag === 'lastmod' || tag === 'changefreq' || tag === 'priority')) {
+          field = tag;
+          text = '';
+        }
+      },
+      ontext(data) {
+        if (field) {
+          text += data;
+        }
+      },
+      onclosetag(name) {
+        if (extensionDepth > 0) {
+          extensionDepth--;
+          return;
+        }
+
+        const { tag } = parseName(name);
+        if (field && tag === field) {
+          const value = text.trim();
+          if (entry && value) {
+            entry[field as 'loc' | 'lastmod' | 'changefreq' | 'priority'] = value;
+          } else if (inSitemap && field === 'loc' && value) {
+            childSitemaps.push(resolveChildSitemap(value, sitemapUrl));
+          }
+          field = null;
+        } else if (tag === 'url') {
+          if (entry?.loc) {
+            entries.push(entry);
+          }
+          entry = null;
+        } else if (tag === 'sitemap') {
+          inSitemap = false;
+        }
+      },
+    },
+    { xmlMode: true, decodeEntities: true }
+  );
+
+  return { parser, entries, childSitemaps };
+}
+
+/**
+ * The priority the sitemap protocol assigns to URLs that don't declare one.
+ */
+export const DEFAULT_SITEMAP_PRIORITY = 0.5;
+
+/**
+ * Reads the numeric priority of a sitemap entry.
+ *
+ * @param url - The sitemap entry.
+ * @returns The priority between 0.0 and 1.0, or {@link DEFAULT_SITEMAP_PRIORITY} when missing or invalid.
+ */
+export function getSitemapPriority(url: SitemapUrl): number {
+  const priority = url.priority ? parseFloat(url.priority) : NaN;
+  if (isNaN(priority)) {
+    return DEFAULT_SITEMAP_PRIORITY;
+  }
+  return Math.min(1, Math.max(0, priority));
+}
+
+/**
+ * Streams the entries of a sitemap as they are parsed, without holding the whole document in memory.
+ * The sitemap can be an HTTP(S) URL, a `file://` URL or a filesystem path.
+ *
+ * Sitemap index files are followed recursively once the index itself has been read. Each sitemap is
+ * only read once per stream, so cycles between sitemap indexes are harmless. Entries are not
+ * de-duplicated; use {@link uniqueSitemapUrls} or {@link fetchSitemap} for that.
+ *
+ * @param sitemapUrl - The full URL or local path to the sitemap XML or sitemap index.
+ * @param verbose - Optional flag to enable verbose logging.
+ * @param visited - Sitemap URLs already read by this stream, used to break reference cycles.
+ * @yields Each SitemapUrl entry, tagged with the sitemap it came from.
+ * @throws An error if the sitemap or any of its child sitemaps cannot be fetched.
+ */
+export async function* streamSitemap(
+  sitemapUrl: string,
+  verbose = false,
+  visited: Set<string> = new Set()
+): AsyncGenerator<SitemapUrl> {
+  const location = isLocalLocation(sitemapUrl) ? toLocalPath(sitemapUrl) : sitemapUrl;
+  if (visited.has(location)) {
+    console.warn(`Skipping sitemap already visited (cycle in sitemap index): ${location}`);
+    return;
+  }
+  visited.add(location);
 
-  const xml = await response.text();
-  const $ = cheerio.load(xml, { xmlMode: true });
+  const data = await openSitemap(location);
 
+  const { parser, entries, childSitemaps } = createSitemapParser(location);
+  for await (const text of readSitemapText(data)) {
+    parser.write(text);
+    yield* entries.splice(0);
+  }
+  parser.end();
+  yield* entries.splice(0);
+
+  // A sitemap index only points at other sitemaps, follow each of them in order
+  for (const childUrl of childSitemaps) {
+    let count = 0;
+    for await (const url of streamSitemap(childUrl, verbose, visited)) {
+      count++;
+      yield url;
+    }
+    if (verbose) {
+      console.log(`  • ${childUrl}: ${count} URLs`);
+    }
+  }
+}
+
+/**
+ * Drops entries whose `loc` has already been seen earlier in the stream.
+ *
+ * @param urls - The sitemap entries to de-duplicate.
+ * @yields The first entry for each location.
+ */
+export async function* uniqueSitemapUrls(urls: AsyncIterable<SitemapUrl>): AsyncGenerator<SitemapUrl> {
+  const seen = new Set<string>();
+  for await (const url of urls) {
+    if (!seen.has(url.loc)) {
+      seen.add(url.loc);
+      yield url;
+    }
+  }
+}
+
+/**
+ * Streams the sitemap entries that should be processed: unique locations whose path is not excluded
+ * by the product mapping rules or disallowed by robots.txt. This is the streaming counterpart of
+ * {@link analyzeSitemap}, so indexing can start while the sitemap is still being parsed.
+ *
+ * @param urls - The sitemap entries to filter, typically from {@link streamSitemap}.
+ * @param productMappingService - The ProductMappingService instance used to decide on URL exclusions.
+ * @param verbose - Optional flag to enable verbose logging.
+ * @param robots - Optional robots.txt rules; disallowed URLs are dropped.
+ * @yields The sitemap entries to process.
+ */
+export async function* filterSitemapUrls(
+  urls: AsyncIterable<SitemapUrl>,
+  productMappingService: ProductMappingService,
+  verbose = false,
+  robots?: RobotsTxt
+): AsyncGenerator<SitemapUrl> {
+  for await (const url of uniqueSitemapUrls(urls)) {
+    let pathname: string;
+    let search: string;
+    try {
+      ({ pathname, search } = new URL(url.loc));
+    } catch (error: unknown) {
+      if (verbose) {
+        console.warn(`Invalid URL: ${url.loc}. Error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      continue;
+    }
+
+    if (!productMappingService.shouldExcludePath(pathname) && isAllowedByRobots(robots, pathname + search)) {
+      yield url;
+    }
+  }
+}
+
+/**
+ * Streams the entries of several sitemaps one after the other, sharing cycle protection between them.
+ *
+ * @param sitemapUrls - The URLs or local paths of the sitemaps to read.
+ * @param verbose - Optional flag to enable verbose logging.
+ * @param visited - Sitemap URLs already read by this stream, used to break reference cycles.
+ * @yields Each SitemapUrl entry, tagged with the sitemap it came from.
+ */
+export async function* streamSitemaps(
+  sitemapUrls: string[],
+  verbose = false,
+  visited: Set<string> = new Set()
+): AsyncGenerator<SitemapUrl> {
+  for (const sitemapUrl of sitemapUrls) {
+    yield* streamSitemap(sitemapUrl, verbose, visited);
+  }
+}
+
+/**
+ * Fetches the sitemap XML from the given URL(s) and returns an array of sitemap entries.
+ *
+ * Sitemap index files are followed recursively and gzipped sitemaps are decompressed (see {@link streamSitemap}).
+ * Entries are de-duplicated by `loc`, keeping the first occurrence, and each entry records the sitemap
+ * document it came from in `source`.
+ *
+ * @param sitemapUrl - The full URL or local path to the sitemap XML or sitemap index, or a list of them.
+ * @param verbose - Optional flag to enable verbose logging.
+ * @param entries - Optional array that receives every entry as read, before duplicates are removed.
+ * @returns A promise that resolves to an array of SitemapUrl objects.
+ * @throws An error if the sitemap or any of its child sitemaps cannot be fetched.
+ */
+export async function fetchSitemap(
+  sitemapUrl: string | string[],
+  verbose = false,
+  entries?: SitemapUrl[]
+): Promise<SitemapUrl[]> {
+  const sitemapUrls = Array.isArray(sitemapUrl) ? sitemapUrl : [sitemapUrl];
+  if (verbose) {
+    console.log(`Fetching sitemap from: ${sitemapUrls.join(', ')}`);
+  }
+
+  const visited = new Set<string>();
+  let total = 0;
   const urls: SitemapUrl[] = [];
-  $('url').each((_, element) => {
-    const loc = $(element).find('loc').text().trim();
-    const lastmod = $(element).find('lastmod').text().trim() || undefined;
 
-    if (loc) {
-      urls.push({ loc, lastmod });
+  // Count entries on the way in so duplicates can be reported
+  async function* counted(): AsyncGenerator<SitemapUrl> {
+    for await (const url of streamSitemaps(sitemapUrls, verbose, visited)) {
+      total++;
+      entries?.push(url);
+      yield url;
     }
-  });
+  }
+
+  for await (const url of uniqueSitemapUrls(counted())) {
+    urls.push(url);
+  }
 
   if (verbose) {
+    if (visited.size > sitemapUrls.length) {
+      console.log(`Read ${visited.size} sitemaps from sitemap index`);
+    }
+    if (total > urls.length) {
+      console.log(`Removed ${total - urls.length} duplicate URLs`);
+    }
     console.log(`Fetched sitemap with ${urls.length} URLs`);
   }
 
@@ -43,29 +383,47 @@ export async function fetchSitemap(sitemapUrl: string, verbose = false): Promise
 }
 
 /**
- * Analyzes sitemap URLs by filtering out excluded URLs and logging summary information.
+ * Analyzes sitemap URLs by filtering out excluded and robots.txt-disallowed URLs and logging summary information.
  *
  * @param urls - An array of SitemapUrl objects to analyze.
  * @param productMappingService - The ProductMappingService instance used to decide on URL exclusions.
  * @param verbose - Optional flag to enable verbose logging.
+ * @param robots - Optional robots.txt rules; disallowed URLs are counted separately from skipped ones.
+ * @param coverage - Optional array that receives the coverage report of the product mapping.
  * @returns A promise that resolves with the validated URLs array.
  */
 export async function analyzeSitemap(
   urls: SitemapUrl[],
   productMappingService: ProductMappingService,
-  verbose = false
+  verbose = false,
+  robots?: RobotsTxt,
+  coverage?: CoverageReport[]
 ): Promise<SitemapUrl[]> {
   if (verbose) {
     console.log('\nAnalyzing sitemap URLs...');
   }
 
+  let disallowedCount = 0;
+  const excludedUrls: SitemapUrl[] = [];
+
   // Filter out URLs that should be excluded
-  const validUrls = urls.filter(({ loc }) => {
+  const validUrls = urls.filter((entry) => {
+    const { loc } = entry;
     try {
       const url = new URL(loc);
       // Process pathname without fragments for exclusion check
       const pathname = url.pathname;
-      return !productMappingService.shouldExcludePath(pathname);
+      if (productMappingService.shouldExcludePath(pathname)) {
+        excludedUrls.push(entry);
+        return false;
+      }
+
+      if (!isAllowedByRobots(robots, pathname + url.search)) {
+        disallowedCount++;
+        return false;
+      }
+
+      return true;
     } catch (error: unknown) {
       if (verbose) {
         console.warn(`Invalid URL: ${loc}. Error: ${error instanceof Error ? error.message : String(error)}`);
@@ -78,7 +436,8 @@ export async function analyzeSitemap(
   if (verbose) {
     console.log(`Total URLs in sitemap: ${urls.length}`);
     console.log(`URLs to process: ${validUrls.length}`);
-    console.log(`URLs skipped: ${urls.length - validUrls.length}`);
+    console.log(`URLs skipped: ${urls.length - validUrls.length - disallowedCount}`);
+    console.log(`URLs disallowed by robots.txt: ${disallowedCount}`);
 
     // Count URLs with fragments
     const urlsWithFragments = validUrls.filter(({ loc }) => {
@@ -95,6 +454,20 @@ export async function analyzeSitemap(
     });
     console.log(`URLs with fragments: ${urlsWithFragments.length}`);
 
+    // Break down by child sitemap when the URLs came from a sitemap index
+    const urlsBySource = new Map<string, number>();
+    validUrls.forEach(({ source }) => {
+      if (source) {
+        urlsBySource.set(source, (urlsBySource.get(source) || 0) + 1);
+      }
+    });
+    if (urlsBySource.size > 1) {
+      console.log('\nURLs by sitemap:');
+      urlsBySource.forEach((count, source) => {
+        console.log(`${source}: ${count} URLs`);
+      });
+    }
+
     // Analyze path segments
     const pathSegments = new Map<string, number>();
     validUrls.forEach(({ loc }) => {
@@ -126,8 +499,9 @@ export async function analyzeSitemap(
     // The product mapping service will show a single concise line
   }
 
-  // Analyze product mapping matches for valid URLs only
-  productMappingService.analyzeUrlMatches(validUrls, verbose);
+  // Analyze product mapping matches; excluded URLs are included so the report can show the rules that skip them
+  const report = productMappingService.analyzeUrlMatches([...validUrls, ...excludedUrls], verbose, disallowedCount);
+  coverage?.push(report);
 
   // Return the filtered URLs
   return validUrls;
@@ -31,6 +31,28 @@ export interface AlgoliaRecord {
   lastModified: string;
   /** Original lastmod value from sitemap */
   sourceLastmod?: string;
+  /** Sitemap priority of the page (0.0 to 1.0), used for custom ranking */
+  priority?: number;
+  /** Language code of the page (e.g. `en`, `ja`) */
+  language?: string;
+  /** Language of the code on `code-sample` records (e.g. `javascript`, `shell`) */
+  codeLanguage?: string;
+  /** The header-keyed table row on `error-code` and `parameter` records */
+  row?: Record<string, string>;
+  /** HTTP method of the operation on `api-operation` records */
+  method?: string;
+  /** Path template of the operation on `api-operation` records */
+  apiPath?: string;
+  /** operationId of the operation on `api-operation` records */
+  operationId?: string;
+  /** Summary of the operation on `api-operation` records */
+  summary?: string;
+  /** Parameter names of the operation on `api-operation` records */
+  parameters?: string[];
+  /** Tags of the operation on `api-operation` records */
+  tags?: string[];
+  /** Name of the content extractor that produced this record */
+  extractor?: string;
   /** Timestamp when this record was indexed */
   indexedAt?: string;
   /** Hierarchical structure of the content */
@@ -1,5 +1,15 @@
 import type { AlgoliaRecord } from './algolia';
 
+/**
+ * A localized version of a page, from an `xhtml:link rel="alternate"` sitemap element.
+ */
+export interface SitemapAlternate {
+  /** The language (and optional region) of the alternate, e.g. `ja` or `pt-BR`, or `x-default` */
+  hreflang: string;
+  /** The URL of the alternate page */
+  href: string;
+}
+
 /**
  * Represents a URL entry in a sitemap with optional metadata.
  */
@@ -12,6 +22,46 @@ export interface SitemapUrl {
   changefreq?: string;
   /** The priority of this URL relative to other URLs */
   priority?: string;
+  /** The sitemap document this URL was read from (differs from the root sitemap when following a sitemap index) */
+  source?: string;
+  /** Localized versions of the page listed with hreflang */
+  alternates?: SitemapAlternate[];
+  /** Name of the configured sitemap source this URL belongs to */
+  sourceName?: string;
+}
+
+/**
+ * A site whose sitemaps are read as part of a run, with its own base URL and optional index filter.
+ */
+export interface SitemapSource {
+  /** Name of the source, used in summaries */
+  name: string;
+  /** URLs or local paths of the source's sitemaps */
+  sitemapUrls: string[];
+  /** Base URL that pages from this source are fetched from (defaults to BASE_URL) */
+  baseUrl?: string;
+  /** Only index URLs that map to these indices */
+  indices?: string[];
+}
+
+/**
+ * Selectors deciding which parts of a page are removed before its content is extracted.
+ */
+export interface CleaningRules {
+  /** Elements matching any of these selectors are removed, each selector being one rule */
+  remove: string[];
+  /** Elements matching, or containing an element matching, any of these selectors are never removed */
+  keep: string[];
+}
+
+/**
+ * Path patterns deciding which URLs are never indexed.
+ */
+export interface ExclusionRules {
+  /** URLs whose path matches any of these glob or `regex:` patterns are skipped for every index */
+  exclude: string[];
+  /** Patterns of paths left out of one index, by index name; excluded paths fall through to other indices */
+  indices: Record<string, string[]>;
 }
 
 /**
@@ -74,6 +124,61 @@ export interface ContentSegment {
   content: string;
   /** The heading level (1-6) */
   level: number;
+  /** Tables that appear under the heading */
+  tables?: ContentTable[];
+}
+
+/**
+ * Represents a single REST operation (path and method) read from an OpenAPI spec or rendered endpoint block.
+ */
+export interface ApiOperation {
+  /** The HTTP method in upper case, e.g. `GET` */
+  method: string;
+  /** The path template, e.g. `/v1/documents/{id}` */
+  path: string;
+  /** The operationId from the spec */
+  operationId?: string;
+  /** One-line summary of the operation */
+  summary?: string;
+  /** Longer description of the operation */
+  description?: string;
+  /** Names of the operation's parameters */
+  parameters: string[];
+  /** Tags grouping the operation */
+  tags: string[];
+  /** Fragment (starting with #) of the rendered endpoint block on the page, if it has one */
+  anchor?: string;
+}
+
+/**
+ * What a table appears to list, judged from its headers.
+ */
+export type ContentTableKind = 'error-code' | 'parameter' | 'generic';
+
+/**
+ * Represents an HTML table as header-keyed rows.
+ */
+export interface ContentTable {
+  /** What the table appears to list */
+  kind: ContentTableKind;
+  /** The column headers */
+  headers: string[];
+  /** The rows, each mapping a column header to the cell text */
+  rows: Array<Record<string, string>>;
+}
+
+/**
+ * Represents a code block on a page, indexed as its own record.
+ */
+export interface CodeSample {
+  /** The heading the code block appears under */
+  heading: string;
+  /** The level (1-6) of that heading */
+  level: number;
+  /** The code, with its original line breaks */
+  code: string;
+  /** The detected language (e.g. `javascript`, `shell`), or `text` if unknown */
+  language: string;
 }
 
 /**
@@ -82,6 +187,8 @@ export interface ContentSegment {
 export interface PageContent {
   /** The full URL of the page */
   url: string;
+  /** The canonical URL the page declares with `<link rel="canonical">`, when it differs from `url` */
+  canonicalUrl?: string;
   /** The page title */
   title: string;
   /** Optional page description */
@@ -92,10 +199,20 @@ export interface PageContent {
   mainContent: string;
   /** Array of content segments */
   segments: ContentSegment[];
+  /** Code blocks found in the main content, kept out of the segment text */
+  codeSamples?: CodeSample[];
+  /** REST operations documented on the page */
+  operations?: ApiOperation[];
   /** Array of page headings */
   headings: string[];
+  /** The level (1-6) of each entry in `headings`, when the extractor knows it */
+  headingLevels?: number[];
   /** Additional metadata key-value pairs */
   metadata: Record<string, string>;
+  /** Language code of the page, from `<html lang>` and refined by the indexer with sitemap hreflang and path hints */
+  language?: string;
+  /** Name of the extractor that read the page's content */
+  extractor?: string;
   structure: {
     hasHeroSection: boolean;
     hasDiscoverBlocks: boolean;
@@ -111,6 +228,12 @@ export interface ProductIndex {
   indexName: string;
   /** The path prefix used to match content to this index */
   indexPathPrefix: string;
+  /** Glob or `regex:` patterns matched instead of the prefix; a path must match one of them */
+  include?: string[];
+  /** Glob or `regex:` patterns of paths left out of this index, even when they match */
+  exclude?: string[];
+  /** Rank of the rule when several match a path; higher wins before the longer prefix does (defaults to 0) */
+  priority?: number;
 }
 
 /**
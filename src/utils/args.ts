@@ -6,7 +6,7 @@ import minimist from 'minimist';
 export interface IndexerArgs {
   /** Base URL for the site being indexed */
   baseUrl: string;
-  /** Path to the sitemap file */
+  /** URL or local path (`file://` URL or filesystem path) of the sitemap file; discovered from robots.txt when empty */
   sitemapUrl: string;
   /** Operating mode for the indexer */
   mode: 'console' | 'index' | 'export';
@@ -20,6 +20,80 @@ export interface IndexerArgs {
   testUrl?: string;
   /** Optional specific index to process */
   indexFilter?: string;
+  /** Whether to stream the sitemap into the indexer instead of loading it up front */
+  stream: boolean;
+  /** Optional directory of saved HTML pages to read instead of fetching pages */
+  contentDir?: string;
+  /** Optional directory of docs repository checkouts to read page Markdown sources from */
+  markdownRoot?: string;
+  /** Whether to crawl in-site links to find pages missing from the sitemap */
+  crawl: boolean;
+  /** Maximum number of link hops the crawler follows */
+  crawlDepth: number;
+  /** Where the crawler starts: sitemap URLs or product mapping prefixes */
+  crawlFrom: 'sitemap' | 'mapping';
+  /** Maximum number of pages the crawler fetches */
+  crawlMaxPages: number;
+  /** Whether to ignore robots.txt rules */
+  ignoreRobots: boolean;
+  /** The user agent name used to pick robots.txt rules and sent when fetching robots.txt */
+  robotsUserAgent: string;
+  /** Whether to report sitemap changes since the previous run */
+  diff: boolean;
+  /** Directory where sitemap snapshots are kept between runs */
+  snapshotDir: string;
+  /** Output format for reports */
+  reportFormat: 'text' | 'json';
+  /** Whether to validate the sitemap entries before processing them */
+  validate: boolean;
+  /** The lowest validation severity that stops the run with a non-zero exit code */
+  failOn?: 'error' | 'warning';
+  /** Whether to audit the extracted content of each page instead of indexing it */
+  audit: boolean;
+  /** File the content audit report is written to */
+  auditFile: string;
+  /** Whether to write the coverage report of the product mapping and a patch adding the suggested indices */
+  coverage: boolean;
+  /** File the mapping coverage report is written to */
+  coverageFile: string;
+  /** File the proposed product mapping entries are written to */
+  mappingPatchFile: string;
+  /** Whether to save each non-default language to its own `{indexName}_{language}` index */
+  localeIndices: boolean;
+  /** Optional sitemap sources, as inline JSON or the URL or path of a JSON file */
+  sources?: string;
+  /** Whether to create a record for each row of error-code and parameter tables */
+  tableRows: boolean;
+  /** Whether to keep fetched pages on disk and revalidate them with conditional requests */
+  cache: boolean;
+  /** Directory the page cache is kept in */
+  cacheDir: string;
+  /** Days an unused page cache entry is kept by `cache prune` */
+  cacheMaxAge: number;
+  /** Optional cleaning rules, as inline JSON or the URL or path of a JSON file */
+  cleaningRules?: string;
+  /** Whether to print the elements each cleaning rule removes from each page */
+  debugCleaning: boolean;
+  /** Optional exclusion rules, as inline JSON or the URL or path of a JSON file */
+  exclusionRules?: string;
+  /** Positional arguments naming a maintenance command, such as `cache inspect`, `mapping lint` or `explain <url>` */
+  command: string[];
+}
+
+/**
+ * Reads a whole-number option, exiting with an error when the value isn't a whole number of at least `min`.
+ */
+function parseCountOption(value: unknown, name: string, fallback: number, min: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const count = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  if (!Number.isInteger(count) || count < min) {
+    console.error(`❌ Invalid --${name}: expected a whole number of at least ${min}, got "${String(value)}"`);
+    process.exit(1);
+  }
+  return count;
 }
 
 /**
@@ -29,10 +103,30 @@ export interface IndexerArgs {
  */
 export function parseArgs(): IndexerArgs {
   const argv = minimist(process.argv.slice(2), {
-    boolean: ['verbose', 'partial', 'force', 'index', 'export', 'test-console'],
+    boolean: [
+      'verbose',
+      'partial',
+      'force',
+      'index',
+      'export',
+      'test-console',
+      'stream',
+      'crawl',
+      'ignore-robots',
+      'diff',
+      'validate',
+      'audit',
+      'coverage',
+      'locale-indices',
+      'table-rows',
+      'cache',
+      'debug-cleaning',
+    ],
+    string: ['_'],
     default: {
       verbose: false,
       partial: true,
+      cache: true,
     },
   });
 
@@ -52,5 +146,34 @@ export function parseArgs(): IndexerArgs {
     forceUpdate: !!argv['force'],
     testUrl: argv['test-url'],
     indexFilter: argv['index-filter'] || process.env['INDEX'] || undefined,
+    stream: !!argv['stream'],
+    contentDir: argv['content-dir'] || process.env['CONTENT_DIR'] || undefined,
+    markdownRoot: argv['markdown-root'] || process.env['MARKDOWN_ROOT'] || undefined,
+    crawl: !!argv['crawl'],
+    crawlDepth: parseCountOption(argv['crawl-depth'], 'crawl-depth', 2, 0),
+    crawlFrom: argv['crawl-from'] === 'mapping' ? 'mapping' : 'sitemap',
+    crawlMaxPages: parseCountOption(argv['crawl-max-pages'], 'crawl-max-pages', 1000, 1),
+    ignoreRobots: !!argv['ignore-robots'],
+    robotsUserAgent: argv['robots-user-agent'] || process.env['ROBOTS_USER_AGENT'] || 'adp-search-indexer',
+    diff: !!argv['diff'],
+    snapshotDir: argv['snapshot-dir'] || process.env['SNAPSHOT_DIR'] || 'sitemap-snapshots',
+    reportFormat: argv['report-format'] === 'json' ? 'json' : 'text',
+    validate: !!argv['validate'] || !!argv['fail-on'],
+    failOn: argv['fail-on'] === 'warning' ? 'warning' : argv['fail-on'] === 'error' ? 'error' : undefined,
+    audit: !!argv['audit'],
+    auditFile: argv['audit-file'] || 'content-audit.json',
+    coverage: !!argv['coverage'],
+    coverageFile: argv['coverage-file'] || 'mapping-coverage.json',
+    mappingPatchFile: argv['mapping-patch-file'] || 'product-index-map.patch.json',
+    localeIndices: !!argv['locale-indices'] || process.env['LOCALE_INDICES'] === 'true',
+    sources: argv['sources'] || process.env['SITEMAP_SOURCES'] || undefined,
+    tableRows: !!argv['table-rows'] || process.env['TABLE_ROW_RECORDS'] === 'true',
+    cache: argv['cache'] !== false && process.env['PAGE_CACHE'] !== 'false', // Default to true unless --no-cache
+    cacheDir: argv['cache-dir'] || process.env['PAGE_CACHE_DIR'] || '.cache/pages',
+    cacheMaxAge: parseCountOption(argv['older-than'], 'older-than', 30, 1),
+    cleaningRules: argv['cleaning-rules'] || process.env['CLEANING_RULES'] || undefined,
+    debugCleaning: !!argv['debug-cleaning'],
+    exclusionRules: argv['exclusion-rules'] || process.env['EXCLUSION_RULES'] || undefined,
+    command: argv._,
   };
 }
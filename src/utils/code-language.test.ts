@@ -0,0 +1,39 @@
+import { detectCodeLanguage } from './code-language';
+
+// Simple tests for detectCodeLanguage
+console.log('Testing detectCodeLanguage function:');
+
+const testCases = [
+  { code: 'const x = 1;', classNames: ['language-ts'], expected: 'typescript' },
+  { code: 'echo hi', classNames: ['hljs lang-bash'], expected: 'shell' },
+  { code: 'let a = 1', classNames: [undefined, 'language-JSX'], expected: 'javascript' },
+  { code: 'Console.WriteLine("hi");', classNames: ['language-c#'], expected: 'csharp' },
+  { code: 'fn main() {}', classNames: ['language-rust'], expected: 'rust' },
+  { code: 'const x = 1;', classNames: ['language-plaintext'], expected: 'text' },
+  { code: 'const x = 1;', classNames: ['highlight'], expected: 'javascript' },
+  { code: '$ npm install @adobe/aio-cli', classNames: [], expected: 'shell' },
+  { code: '<div class="card"></div>', classNames: [], expected: 'html' },
+  { code: '<?xml version="1.0"?>\n<root/>', classNames: [], expected: 'xml' },
+  { code: 'interface Options {\n  verbose: boolean;\n}', classNames: [], expected: 'typescript' },
+  { code: 'fetch(url).then((response) => response.json());', classNames: [], expected: 'javascript' },
+  { code: 'def handler(event):\n    return event', classNames: [], expected: 'python' },
+  { code: 'public static void main(String[] args) {}', classNames: [], expected: 'java' },
+  { code: '.card > .title { color: red; }', classNames: [], expected: 'css' },
+  { code: 'SELECT * FROM assets', classNames: [], expected: 'sql' },
+  { code: '{\n  "name": "adp"\n}', classNames: [], expected: 'json' },
+  { code: 'runtime:\n  nodejs: 18\n  memory: 256', classNames: [], expected: 'yaml' },
+  { code: 'Hello world', classNames: [], expected: 'text' },
+];
+
+testCases.forEach((test) => {
+  const result = detectCodeLanguage(test.code, ...test.classNames);
+  const passed = result === test.expected;
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(
+    `${passed ? '✅' : '❌'} ${JSON.stringify(test.code.split('\n')[0])} → "${result}" ${!passed ? `(expected "${test.expected}")` : ''}`
+  );
+});
+
+console.log('\nDone!');
@@ -0,0 +1,87 @@
+/**
+ * Utility functions for detecting the language of code samples
+ */
+
+/**
+ * The language recorded for code samples whose language can't be detected.
+ */
+export const UNKNOWN_CODE_LANGUAGE = 'text';
+
+// Common class name aliases mapped to the language name used in records
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  console: 'shell',
+  terminal: 'shell',
+  py: 'python',
+  yml: 'yaml',
+  htm: 'html',
+  md: 'markdown',
+  cs: 'csharp',
+  'c#': 'csharp',
+  kt: 'kotlin',
+  rb: 'ruby',
+  plaintext: UNKNOWN_CODE_LANGUAGE,
+  txt: UNKNOWN_CODE_LANGUAGE,
+  none: UNKNOWN_CODE_LANGUAGE,
+};
+
+// Heuristics tried in order when the markup doesn't name a language; earlier patterns are more specific
+const LANGUAGE_HEURISTICS: Array<[string, RegExp]> = [
+  ['shell', /^\s*(?:\$ |npm |npx |yarn |curl |git |cd |brew |pip |aio )/m],
+  ['html', /^\s*<(?:!doctype|html|head|body|div|span|script|template)\b/i],
+  ['xml', /^\s*<\?xml\b/],
+  ['typescript', /\b(?:interface \w+\s*\{|type \w+\s*=|: (?:string|number|boolean)\b|as const\b)/],
+  [
+    'javascript',
+    /\b(?:const|let|var) \w+\s*=|\bfunction\s*\w*\s*\(|=>|\brequire\(|\bimport .* from ['"]|console\.log\(/,
+  ],
+  ['python', /^\s*(?:def \w+\(.*\):|import \w+$|from \w+(?:\.\w+)* import |print\()/m],
+  ['java', /\b(?:public|private|protected) (?:static )?(?:class|void|final) /],
+  ['css', /^\s*[.#]?[\w-]+(?:\s*[,>+~]\s*[.#]?[\w-]+)*\s*\{[^}]*:[^}]*;/m],
+  ['sql', /^\s*(?:SELECT|INSERT INTO|UPDATE|DELETE FROM|CREATE TABLE)\b/i],
+  ['json', /^\s*[[{]\s*"/],
+  ['yaml', /^[\w-]+:(?: .+)?$(?:\n(?: {2,}|- ).+)+/m],
+];
+
+/**
+ * Reads the language named by a `language-*` or `lang-*` class, as used by Prism, highlight.js and
+ * most Markdown renderers.
+ *
+ * @param className - The class attribute of the `<code>` or `<pre>` element
+ * @returns The normalized language name, or undefined if no class names one
+ */
+export function getLanguageFromClass(className?: string): string | undefined {
+  const match = className?.match(/(?:^|\s)(?:language|lang)-([\w#+-]+)/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const language = match[1].toLowerCase();
+  return LANGUAGE_ALIASES[language] || language;
+}
+
+/**
+ * Detects the language of a code sample, preferring the class names on its markup and falling back to
+ * simple heuristics on the code itself.
+ *
+ * @param code - The text of the code sample
+ * @param classNames - Class attributes of the `<code>` and `<pre>` elements, most specific first
+ * @returns The language name, or {@link UNKNOWN_CODE_LANGUAGE} if it can't be detected
+ */
+export function detectCodeLanguage(code: string, ...classNames: Array<string | undefined>): string {
+  for (const className of classNames) {
+    const language = getLanguageFromClass(className);
+    if (language) {
+      return language;
+    }
+  }
+
+  return LANGUAGE_HEURISTICS.find(([, pattern]) => pattern.test(code))?.[0] || UNKNOWN_CODE_LANGUAGE;
+}
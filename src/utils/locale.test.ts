@@ -0,0 +1,103 @@
+import { detectLanguage, getLanguageFromAlternates, getLanguageFromPath, normalizeLanguage } from './locale';
+
+const check = (passed: boolean, description: string): void => {
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${description}`);
+};
+
+// Simple tests for language tags
+console.log('Testing normalizeLanguage function:');
+
+const tags: [string | undefined, string | undefined][] = [
+  ['ja-JP', 'ja'],
+  ['zh_Hans', 'zh'],
+  [' EN ', 'en'],
+  ['fil', 'fil'],
+  ['x-default', undefined],
+  ['', undefined],
+  [undefined, undefined],
+];
+
+for (const [tag, expected] of tags) {
+  const result = normalizeLanguage(tag);
+  check(result === expected, `${JSON.stringify(tag)} → ${result}`);
+}
+
+console.log('\nTesting getLanguageFromPath function:');
+
+const paths: [string, string | undefined][] = [
+  ['/ja/photoshop/', 'ja'],
+  ['/pt-br/express/', 'pt'],
+  ['/zh_Hans/commerce', 'zh'],
+  ['/de', 'de'],
+  // Two-letter product paths aren't locales
+  ['/ps/guides/', undefined],
+  ['/xd/', undefined],
+  ['/photoshop/ja/', undefined],
+  ['/', undefined],
+];
+
+for (const [path, expected] of paths) {
+  const result = getLanguageFromPath(path);
+  check(result === expected, `"${path}" → ${result}`);
+}
+
+console.log('\nTesting getLanguageFromAlternates function:');
+
+const alternates = [
+  { hreflang: 'en', href: 'https://www.adobe.com/photoshop/' },
+  { hreflang: 'ja-JP', href: 'https://www.adobe.com/ja/photoshop/' },
+  { hreflang: 'x-default', href: 'https://www.adobe.com/photoshop/' },
+];
+
+check(
+  getLanguageFromAlternates('https://developer.adobe.com/ja/photoshop', alternates) === 'ja',
+  'The alternate for the page itself gives its language, whatever the host and trailing slash'
+);
+check(
+  getLanguageFromAlternates('https://developer.adobe.com/express/', alternates) === undefined,
+  'A page missing from its alternates has no language'
+);
+check(getLanguageFromAlternates('not a url', alternates) === undefined, 'An invalid URL has no language');
+
+console.log('\nTesting detectLanguage function:');
+
+const detections = [
+  {
+    name: 'The sitemap hreflang comes first',
+    url: 'https://developer.adobe.com/ja/photoshop/',
+    alternates,
+    htmlLang: 'en',
+    expected: 'ja',
+  },
+  {
+    name: 'Then the html lang',
+    url: 'https://developer.adobe.com/ja/express/',
+    alternates,
+    htmlLang: 'fr-FR',
+    expected: 'fr',
+  },
+  {
+    name: 'Then the locale path prefix',
+    url: 'https://developer.adobe.com/ja/express/',
+    alternates: undefined,
+    htmlLang: '',
+    expected: 'ja',
+  },
+  {
+    name: 'And otherwise the default language',
+    url: 'https://developer.adobe.com/ps/express/',
+    alternates: undefined,
+    htmlLang: undefined,
+    expected: 'en',
+  },
+];
+
+for (const test of detections) {
+  const result = detectLanguage(test.url, test.alternates, test.htmlLang);
+  check(result === test.expected, `${test.name} → ${result}`);
+}
+
+console.log('\nDone!');
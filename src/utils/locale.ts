@@ -0,0 +1,103 @@
+/**
+ * Utility functions for detecting the language of a page
+ */
+
+import type { SitemapAlternate } from '../types/index';
+
+/**
+ * The language assumed for pages that don't declare one.
+ */
+export const DEFAULT_LANGUAGE = 'en';
+
+// Languages recognized as a leading path segment (e.g. `/ja/photoshop/`). Kept to a fixed list so
+// two-letter product paths are not mistaken for locales.
+const PATH_LANGUAGES = new Set([
+  'ar',
+  'cs',
+  'da',
+  'de',
+  'en',
+  'es',
+  'fi',
+  'fr',
+  'he',
+  'hu',
+  'it',
+  'ja',
+  'ko',
+  'nl',
+  'no',
+  'pl',
+  'pt',
+  'ru',
+  'sv',
+  'th',
+  'tr',
+  'uk',
+  'zh',
+]);
+
+/**
+ * Reduces a language tag such as `ja-JP` or `zh_Hans` to its lowercase primary language code.
+ *
+ * @param tag - A BCP 47 language tag from hreflang, `<html lang>` or a path segment
+ * @returns The language code, or undefined for empty, malformed or `x-default` tags
+ */
+export function normalizeLanguage(tag?: string): string | undefined {
+  const language = tag?.trim().toLowerCase().split(/[-_]/)[0];
+  return language && /^[a-z]{2,3}$/.test(language) ? language : undefined;
+}
+
+/**
+ * Reads the language from a locale path prefix such as `/ja/` or `/pt-br/`.
+ *
+ * @param pathname - The URL path to check
+ * @returns The language code, or undefined if the path has no locale prefix
+ */
+export function getLanguageFromPath(pathname: string): string | undefined {
+  const match = pathname.match(/^\/([a-z]{2})(?:[-_][a-z]{2,4})?(?:\/|$)/i);
+  const language = match?.[1].toLowerCase();
+  return language && PATH_LANGUAGES.has(language) ? language : undefined;
+}
+
+/**
+ * Finds the hreflang a sitemap entry declares for its own URL.
+ *
+ * Hosts and trailing slashes are ignored when comparing, since the sitemap host may differ from the
+ * base URL pages are fetched from.
+ *
+ * @param url - The URL of the page
+ * @param alternates - The hreflang alternates listed for the page in the sitemap
+ * @returns The language code, or undefined if the page isn't listed among its alternates
+ */
+export function getLanguageFromAlternates(url: string, alternates: SitemapAlternate[] = []): string | undefined {
+  const pathKey = (location: string): string => new URL(location, url).pathname.replace(/\/+$/, '');
+
+  try {
+    const path = pathKey(url);
+    const self = alternates.find((alternate) => pathKey(alternate.href) === path);
+    return normalizeLanguage(self?.hreflang);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Detects the language of a page, preferring the sitemap hreflang, then `<html lang>`, then a locale
+ * path prefix, and falling back to {@link DEFAULT_LANGUAGE}.
+ *
+ * @param url - The URL of the page
+ * @param alternates - The hreflang alternates listed for the page in the sitemap
+ * @param htmlLang - The `lang` attribute of the page's `<html>` element
+ * @returns The language code
+ */
+export function detectLanguage(url: string, alternates?: SitemapAlternate[], htmlLang?: string): string {
+  let pathLanguage: string | undefined;
+  try {
+    pathLanguage = getLanguageFromPath(new URL(url).pathname);
+  } catch {
+    pathLanguage = undefined;
+  }
+
+  return getLanguageFromAlternates(url, alternates) || normalizeLanguage(htmlLang) || pathLanguage || DEFAULT_LANGUAGE;
+}
@@ -0,0 +1,38 @@
+import { compilePathPattern, findMatchingPattern } from './path-pattern';
+
+// Simple tests for path patterns
+console.log('Testing compilePathPattern function:');
+
+const testCases = [
+  { pattern: '/commerce/*/graphql', path: '/commerce/pwa-studio/graphql', expected: true },
+  { pattern: '/commerce/*/graphql', path: '/commerce/pwa-studio/graphql/schema', expected: true },
+  { pattern: '/commerce/*/graphql', path: '/commerce/pwa-studio/tutorials/graphql', expected: false },
+  { pattern: '/commerce/*/graphql/', path: '/commerce/webapi/graphql', expected: true },
+  { pattern: '/photoshop/uxp', path: '/photoshop/uxp-guide', expected: false },
+  { pattern: '/photoshop/**/reference', path: '/photoshop/reference', expected: true },
+  { pattern: '/photoshop/**/reference', path: '/photoshop/uxp/v2/reference', expected: true },
+  { pattern: '/photoshop/**', path: '/photoshop', expected: true },
+  { pattern: '/api/v?', path: '/api/v2/users', expected: true },
+  { pattern: '/api/v?', path: '/api/v10', expected: false },
+  { pattern: '/docs/a.b', path: '/docs/axb', expected: false },
+  { pattern: 'regex:^/photoshop/(api|uxp)/', path: '/photoshop/uxp/guides', expected: true },
+  { pattern: 'regex:/graphql$', path: '/commerce/webapi/graphql', expected: true },
+  { pattern: 'regex:/graphql$', path: '/commerce/webapi/graphql/schema', expected: false },
+];
+
+testCases.forEach((test) => {
+  const result = compilePathPattern(test.pattern).test(test.path);
+  const passed = result === test.expected;
+  if (!passed) {
+    process.exitCode = 1;
+  }
+  console.log(`${passed ? '✅' : '❌'} "${test.pattern}" ${result ? 'matches' : 'does not match'} "${test.path}"`);
+});
+
+const first = findMatchingPattern('/photoshop/uxp/guides', ['/photoshop/api', '/photoshop/uxp', '/photoshop']);
+if (first !== '/photoshop/uxp') {
+  process.exitCode = 1;
+}
+console.log(`${first === '/photoshop/uxp' ? '✅' : '❌'} findMatchingPattern returns the first match: "${first}"`);
+
+console.log('\nDone!');
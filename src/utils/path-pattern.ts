@@ -0,0 +1,82 @@
+/**
+ * Utility functions for the path patterns used by product index rules
+ */
+
+// Patterns with this prefix are regular expressions; all others are globs
+const REGEX_PREFIX = 'regex:';
+
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Converts a glob to a regular expression. `*` matches within one path segment, `**` matches any number of
+ * segments and `?` matches one character other than `/`. Like an index path prefix, a glob matches whole
+ * segments at the start of a path, so `/commerce/*` matches `/commerce/pwa` and every path under it.
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .replace(/\/+$/, '')
+    .split(/(\/\*\*\/|\/\*\*$|\*\*|\*|\?)/)
+    .map((part) => {
+      switch (part) {
+        case '/**/':
+          return '(?:/.+)?/';
+        case '/**':
+          return '(?:/.*)?';
+        case '**':
+          return '.*';
+        case '*':
+          return '[^/]*';
+        case '?':
+          return '[^/]';
+        default:
+          return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+
+  return new RegExp(`^${source}(?:/|$)`);
+}
+
+/**
+ * Compiles a path pattern: a glob such as `/photoshop/**` or `/commerce/v?/graphql`, or a regular expression written as
+ * `regex:^/photoshop/(api|uxp)/`. Regular expressions are tested against the path as is, so they match
+ * anywhere in it unless anchored.
+ *
+ * @param pattern - The glob or `regex:` pattern
+ * @returns The regular expression the pattern compiles to
+ * @throws An error if a `regex:` pattern is not a valid regular expression
+ */
+export function compilePathPattern(pattern: string): RegExp {
+  let regex = compiled.get(pattern);
+  if (!regex) {
+    regex = pattern.startsWith(REGEX_PREFIX) ? new RegExp(pattern.slice(REGEX_PREFIX.length)) : globToRegExp(pattern);
+    compiled.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Determines if a path pattern compiles.
+ *
+ * @param pattern - The glob or `regex:` pattern
+ * @returns True if the pattern can be used
+ */
+export function isValidPathPattern(pattern: string): boolean {
+  try {
+    compilePathPattern(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds the first pattern that matches a path.
+ *
+ * @param path - The URL path, without a trailing slash
+ * @param patterns - The glob or `regex:` patterns to try
+ * @returns The matching pattern, or undefined if none matches
+ */
+export function findMatchingPattern(path: string, patterns: string[]): string | undefined {
+  return patterns.find((pattern) => compilePathPattern(pattern).test(path));
+}
@@ -4,7 +4,8 @@
 export class TaskQueue {
   private _concurrency: number;
   private running: number;
-  private queue: (() => Promise<void>)[];
+  private queue: { priority: number; start: () => void }[];
+  private _capacityWaiters: (() => void)[] = [];
 
   /**
    *
@@ -16,14 +17,19 @@ export class TaskQueue {
   }
 
   /**
-   *
+   * Runs a task once a slot is free. Waiting tasks start in order of priority (highest first),
+   * and in the order they were added when priorities are equal.
    */
-  async add<T>(task: () => Promise<T>): Promise<T> {
+  async add<T>(task: () => Promise<T>, priority = 0): Promise<T> {
     if (this.running >= this._concurrency) {
       await new Promise<void>((resolve) => {
-        this.queue.push(async () => {
-          resolve();
-        });
+        const position = this.queue.findIndex((waiting) => waiting.priority < priority);
+        const entry = { priority, start: resolve };
+        if (position === -1) {
+          this.queue.push(entry);
+        } else {
+          this.queue.splice(position, 0, entry);
+        }
       });
     }
 
@@ -34,8 +40,19 @@ export class TaskQueue {
       this.running--;
       if (this.queue.length > 0) {
         const next = this.queue.shift();
-        if (next) next();
+        if (next) next.start();
       }
+      this._capacityWaiters.splice(0).forEach((resolve) => resolve());
+    }
+  }
+
+  /**
+   * Waits until fewer than `maxPending` tasks are waiting for a slot, so a producer reading from a stream
+   * can hold off on reading more until the queue catches up.
+   */
+  async waitForCapacity(maxPending: number): Promise<void> {
+    while (this.queue.length >= maxPending) {
+      await new Promise<void>((resolve) => this._capacityWaiters.push(resolve));
     }
   }
 
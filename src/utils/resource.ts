@@ -0,0 +1,68 @@
+/**
+ * Utility functions for resources that may live on the network or on the local filesystem
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import type { z } from 'zod';
+
+/**
+ * Determines if a location refers to the local filesystem rather than an HTTP(S) URL.
+ * `file://` URLs and plain filesystem paths are both considered local.
+ *
+ * @param location - The URL or path to check
+ * @returns True if the location should be read from disk
+ */
+export function isLocalLocation(location: string): boolean {
+  return !/^https?:\/\//i.test(location);
+}
+
+/**
+ * Converts a local location (`file://` URL or relative/absolute path) to an absolute filesystem path.
+ *
+ * @param location - The local location to convert
+ * @returns The absolute filesystem path
+ */
+export function toLocalPath(location: string): string {
+  return location.startsWith('file:') ? fileURLToPath(location) : resolve(location);
+}
+
+/**
+ * Loads a JSON configuration resource and validates it against a schema. The resource is given inline as a
+ * JSON object or array, or as the URL or local path of a JSON file.
+ *
+ * @param location - Inline JSON, or the URL or path of a JSON file
+ * @param schema - The schema the JSON must match
+ * @param label - What the resource is, for error messages (e.g. "cleaning rules")
+ * @returns The validated resource
+ * @throws An error if the resource can't be read or doesn't match the schema
+ */
+export async function loadJsonResource<T>(
+  location: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  label: string
+): Promise<T> {
+  let json: string;
+  if (/^\s*[[{]/.test(location)) {
+    json = location;
+  } else if (isLocalLocation(location)) {
+    json = await readFile(toLocalPath(location), 'utf8');
+  } else {
+    const response = await fetch(location);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${label}: ${response.status} ${response.statusText}`);
+    }
+    json = await response.text();
+  }
+
+  const result = schema.safeParse(JSON.parse(json));
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    throw new Error(`Invalid ${label}: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
@@ -37,6 +37,9 @@ const testCases = [
 testCases.forEach((test) => {
   const result = headingToFragmentId(test.heading);
   const passed = result === test.expected;
+  if (!passed) {
+    process.exitCode = 1;
+  }
   console.log(
     `${passed ? '✅' : '❌'} "${test.heading}" → "${result}" ${!passed ? `(expected "${test.expected}")` : ''}`
   );
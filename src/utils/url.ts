@@ -2,6 +2,8 @@
  * Utility functions for handling URLs and fragments
  */
 
+import type { PageContent } from '../types/index';
+
 /**
  * Converts a heading text to a URL-friendly fragment identifier.
  * Ensures consistent fragment generation for the same content.
@@ -153,3 +155,14 @@ export function removeFragmentFromUrl(url: string): string {
   }
   return url;
 }
+
+/**
+ * Returns the URL that identifies a page's records: its canonical URL when it declares one, so pages
+ * reachable under several paths share one set of records.
+ *
+ * @param content - The page content
+ * @returns The normalized canonical URL, or the normalized page URL
+ */
+export function getPageUrl(content: Pick<PageContent, 'url' | 'canonicalUrl'>): string {
+  return normalizeUrl(content.canonicalUrl || content.url);
+}